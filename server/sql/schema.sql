@@ -10,9 +10,116 @@ CREATE TABLE IF NOT EXISTS chat_messages (
 CREATE INDEX IF NOT EXISTS idx_chat_messages_session_time
   ON chat_messages (session_id, created_at);
 
+-- Searchable text of a message, used by content search: string content as-is, arrays of parts
+-- joined by their `text` fields.
+CREATE OR REPLACE FUNCTION chat_message_text(message JSONB) RETURNS TEXT AS $$
+  SELECT CASE jsonb_typeof(message -> 'content')
+    WHEN 'string' THEN message ->> 'content'
+    WHEN 'array' THEN (
+      SELECT string_agg(
+        CASE jsonb_typeof(part)
+          WHEN 'string' THEN part #>> '{}'
+          ELSE part ->> 'text'
+        END,
+        E'\n\n'
+      )
+      FROM jsonb_array_elements(message -> 'content') AS part
+    )
+  END
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Full-text index for content search. The configuration must match SEARCH_LANGUAGE (default
+-- english) or searches fall back to a sequential scan.
+CREATE INDEX IF NOT EXISTS idx_chat_messages_search
+  ON chat_messages USING GIN (to_tsvector('english'::regconfig, chat_message_text(message)));
+
+-- Announces new messages to the live feed (LIVE_UPDATES=auto|notify). Keep the channel name in
+-- sync with LIVE_NOTIFY_CHANNEL; without this trigger the API falls back to polling.
+CREATE OR REPLACE FUNCTION notify_chat_message() RETURNS trigger AS $$
+BEGIN
+  PERFORM pg_notify(
+    'chat_messages_changed',
+    json_build_object('id', NEW.id::text, 'sessionId', NEW.session_id)::text
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS chat_messages_notify ON chat_messages;
+CREATE TRIGGER chat_messages_notify
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW EXECUTE FUNCTION notify_chat_message();
+
 CREATE TABLE IF NOT EXISTS visitors_settings (
   session_id TEXT PRIMARY KEY,
   is_whatsapp BOOLEAN NOT NULL DEFAULT false,
   type TEXT,
   updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
+
+-- Records who read which chat data. Written by the API, queried via GET /api/audit.
+CREATE TABLE IF NOT EXISTS chat_access_log (
+  id BIGSERIAL PRIMARY KEY,
+  user_email TEXT NOT NULL,
+  user_role TEXT NOT NULL,
+  action TEXT NOT NULL,
+  route TEXT NOT NULL,
+  session_id TEXT,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status_code INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_access_log_time
+  ON chat_access_log (created_at);
+
+CREATE INDEX IF NOT EXISTS idx_chat_access_log_user_time
+  ON chat_access_log (user_email, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_chat_access_log_session_time
+  ON chat_access_log (session_id, created_at);
+
+-- Reviewer notes and tags on chat sessions. Tags are stored lowercased, once per session.
+CREATE TABLE IF NOT EXISTS session_annotations (
+  id BIGSERIAL PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('note', 'tag')),
+  body TEXT NOT NULL,
+  author_email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_annotations_session_kind
+  ON session_annotations (session_id, kind, created_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_session_annotations_session_tag
+  ON session_annotations (session_id, body)
+  WHERE kind = 'tag';
+
+CREATE INDEX IF NOT EXISTS idx_session_annotations_tag
+  ON session_annotations (body, session_id)
+  WHERE kind = 'tag';
+
+-- QA ratings of individual messages, one row per reviewer and message.
+CREATE TABLE IF NOT EXISTS message_labels (
+  id BIGSERIAL PRIMARY KEY,
+  message_id UUID NOT NULL,
+  session_id TEXT NOT NULL,
+  rating TEXT CHECK (rating IN ('good', 'bad')),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  comment TEXT,
+  reviewer_email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (message_id, reviewer_email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_labels_session
+  ON message_labels (session_id);
+
+CREATE INDEX IF NOT EXISTS idx_message_labels_reviewer_time
+  ON message_labels (reviewer_email, updated_at);
+
+CREATE INDEX IF NOT EXISTS idx_message_labels_categories
+  ON message_labels USING GIN (categories);
@@ -0,0 +1,82 @@
+export const MAX_TAG_LENGTH = 48;
+export const MAX_NOTE_LENGTH = 4000;
+const MAX_TAG_FILTERS = 10;
+
+/**
+ * Canonical form of a tag: trimmed, lowercased, inner whitespace collapsed. Returns `undefined`
+ * for empty or overlong tags and for tags containing commas, which separate tag filters.
+ */
+export const normalizeTag = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const normalized = value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+  if (normalized.length === 0 || normalized.length > MAX_TAG_LENGTH || normalized.includes(',')) {
+    return undefined;
+  }
+
+  return normalized;
+};
+
+/**
+ * Reads the `tag` query parameter, given either repeated or comma-separated. Returns `null`
+ * when a value is not a valid tag so the route can reject the request.
+ */
+export const parseTagFilter = (value: unknown): string[] | null => {
+  if (value === undefined) {
+    return [];
+  }
+
+  const rawValues = (Array.isArray(value) ? value : [value]).flatMap((item) =>
+    typeof item === 'string' ? item.split(',') : [item]
+  );
+  const tags = new Set<string>();
+
+  for (const rawValue of rawValues) {
+    if (typeof rawValue === 'string' && rawValue.trim().length === 0) {
+      continue;
+    }
+
+    const tag = normalizeTag(rawValue);
+
+    if (!tag) {
+      return null;
+    }
+
+    tags.add(tag);
+  }
+
+  return tags.size <= MAX_TAG_FILTERS ? [...tags] : null;
+};
+
+/**
+ * Condition matching sessions that carry every tag in the `text[]` parameter at `paramIndex`,
+ * according to the quoted `annotationsTable`.
+ */
+export const tagFilterConditionSql = (
+  annotationsTable: string,
+  sessionIdColumn: string,
+  paramIndex: number
+) => `
+  ${sessionIdColumn} IN (
+    SELECT session_id
+    FROM ${annotationsTable}
+    WHERE kind = 'tag' AND body = ANY($${paramIndex}::text[])
+    GROUP BY session_id
+    HAVING COUNT(*) = cardinality($${paramIndex}::text[])
+  )
+`;
+
+/** Correlated subquery returning the sorted tags of the session in `sessionIdColumn`. */
+export const sessionTagsSql = (annotationsTable: string, sessionIdColumn: string) => `
+  COALESCE(
+    (
+      SELECT array_agg(sa.body ORDER BY sa.body)
+      FROM ${annotationsTable} sa
+      WHERE sa.session_id = ${sessionIdColumn} AND sa.kind = 'tag'
+    ),
+    ARRAY[]::text[]
+  )
+`;
@@ -0,0 +1,140 @@
+import { verify } from 'crypto';
+import type { SigningKeySource } from './keySources';
+
+export interface IdTokenClaims {
+  iss: string;
+  aud: string;
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  picture?: string;
+}
+
+interface IdTokenVerifierOptions {
+  keySource: SigningKeySource;
+  audience: string;
+  issuers: string[];
+  cacheTtlMs: number;
+  maxCacheEntries?: number;
+  clockToleranceSeconds?: number;
+}
+
+const DEFAULT_MAX_CACHE_ENTRIES = 1000;
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 30;
+
+const decodeSegment = <T>(segment: string): T =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+
+/**
+ * Creates a verifier that checks an RS256-signed ID token locally against `keySource`, then
+ * validates `iss`, `aud`, `exp`/`nbf` and `email_verified`. Verified tokens are cached for up to
+ * `cacheTtlMs` (never past their expiry) so repeated requests skip the signature check.
+ */
+export const createIdTokenVerifier = (options: IdTokenVerifierOptions) => {
+  const maxCacheEntries = options.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+  const clockTolerance = options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+  const verifiedTokens = new Map<string, { claims: IdTokenClaims; expiresAt: number }>();
+
+  const readCache = (token: string) => {
+    const cached = verifiedTokens.get(token);
+
+    if (!cached) {
+      return undefined;
+    }
+
+    if (cached.expiresAt <= Date.now()) {
+      verifiedTokens.delete(token);
+      return undefined;
+    }
+
+    return cached.claims;
+  };
+
+  const writeCache = (token: string, claims: IdTokenClaims) => {
+    const expiresAt = Math.min(Date.now() + options.cacheTtlMs, claims.exp * 1000);
+
+    if (options.cacheTtlMs <= 0 || expiresAt <= Date.now()) {
+      return;
+    }
+
+    if (verifiedTokens.size >= maxCacheEntries) {
+      const oldestToken = verifiedTokens.keys().next().value;
+      if (oldestToken !== undefined) {
+        verifiedTokens.delete(oldestToken);
+      }
+    }
+
+    verifiedTokens.set(token, { claims, expiresAt });
+  };
+
+  return async (token: string): Promise<IdTokenClaims> => {
+    const cached = readCache(token);
+
+    if (cached) {
+      return cached;
+    }
+
+    const segments = token.split('.');
+
+    if (segments.length !== 3) {
+      throw new Error('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+
+    if (header.alg !== 'RS256') {
+      throw new Error(`Unsupported token algorithm ${header.alg ?? 'none'}`);
+    }
+
+    if (!header.kid) {
+      throw new Error('Token key id is missing');
+    }
+
+    const key = await options.keySource.getKey(header.kid);
+
+    if (!key) {
+      throw new Error(`Unknown signing key ${header.kid}`);
+    }
+
+    const isSignatureValid = verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      key,
+      Buffer.from(encodedSignature, 'base64url')
+    );
+
+    if (!isSignatureValid) {
+      throw new Error('Invalid token signature');
+    }
+
+    const claims = decodeSegment<IdTokenClaims>(encodedPayload);
+    const nowSeconds = Date.now() / 1000;
+
+    if (!options.issuers.includes(claims.iss)) {
+      throw new Error('Issuer mismatch');
+    }
+
+    if (claims.aud !== options.audience) {
+      throw new Error('Audience mismatch');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp + clockTolerance < nowSeconds) {
+      throw new Error('Token expired');
+    }
+
+    if (typeof claims.nbf === 'number' && claims.nbf - clockTolerance > nowSeconds) {
+      throw new Error('Token is not yet valid');
+    }
+
+    if (claims.email_verified !== true && claims.email_verified !== 'true') {
+      throw new Error('Email is not verified');
+    }
+
+    writeCache(token, claims);
+    return claims;
+  };
+};
@@ -0,0 +1,109 @@
+import { createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+
+/**
+ * Resolves the public key used to sign an ID token by its `kid` header. Implementations decide
+ * where keys come from (Google's JWKS endpoint, a file on disk, an in-memory key set).
+ */
+export interface SigningKeySource {
+  getKey(kid: string): Promise<KeyObject | undefined>;
+}
+
+interface JsonWebKeySet {
+  keys?: Array<JsonWebKey & { kid?: string }>;
+}
+
+const DEFAULT_JWKS_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+
+const toKeyMap = (jwks: JsonWebKeySet) => {
+  const keys = new Map<string, KeyObject>();
+
+  for (const jwk of jwks.keys ?? []) {
+    if (!jwk.kid) {
+      continue;
+    }
+
+    try {
+      keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    } catch (error) {
+      console.warn(`[auth] ignoring unusable signing key ${jwk.kid}`, error);
+    }
+  }
+
+  return keys;
+};
+
+const parseMaxAge = (cacheControl: string | null) => {
+  const match = cacheControl?.match(/max-age=(\d+)/);
+  return match ? Number.parseInt(match[1], 10) * 1000 : undefined;
+};
+
+export const createStaticKeySource = (jwks: JsonWebKeySet): SigningKeySource => {
+  const keys = toKeyMap(jwks);
+
+  return {
+    getKey: async (kid) => keys.get(kid)
+  };
+};
+
+export const createFileKeySource = (filePath: string): SigningKeySource =>
+  createStaticKeySource(JSON.parse(readFileSync(filePath, 'utf8')) as JsonWebKeySet);
+
+/**
+ * Fetches a remote JWKS and keeps it for as long as the response's `Cache-Control: max-age`
+ * allows. An unknown `kid` triggers an early refresh (rate limited) so key rotation is picked up.
+ */
+export const createRemoteKeySource = (
+  url: string,
+  options: { minRefreshIntervalMs?: number } = {}
+): SigningKeySource => {
+  const minRefreshIntervalMs = options.minRefreshIntervalMs ?? DEFAULT_MIN_REFRESH_INTERVAL_MS;
+  let keys = new Map<string, KeyObject>();
+  let expiresAt = 0;
+  let lastFetchAt = 0;
+  let pending: Promise<void> | null = null;
+
+  const refresh = () => {
+    if (!pending) {
+      pending = (async () => {
+        lastFetchAt = Date.now();
+        const response = await fetch(url);
+
+        if (!response.ok) {
+          throw new Error(`Fetching signing keys failed with status ${response.status}`);
+        }
+
+        keys = toKeyMap((await response.json()) as JsonWebKeySet);
+        expiresAt =
+          Date.now() + (parseMaxAge(response.headers.get('cache-control')) ?? DEFAULT_JWKS_TTL_MS);
+      })().finally(() => {
+        pending = null;
+      });
+    }
+
+    return pending;
+  };
+
+  return {
+    getKey: async (kid) => {
+      const now = Date.now();
+      const isExpired = now >= expiresAt;
+      const isUnknownKid = !keys.has(kid) && now - lastFetchAt >= minRefreshIntervalMs;
+
+      if (isExpired || isUnknownKid) {
+        try {
+          await refresh();
+        } catch (error) {
+          // Keep serving the previous key set if a refresh fails after a successful fetch.
+          if (keys.size === 0) {
+            throw error;
+          }
+          console.error('[auth] signing key refresh failed', error);
+        }
+      }
+
+      return keys.get(kid);
+    }
+  };
+};
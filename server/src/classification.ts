@@ -0,0 +1,172 @@
+import { config } from './config';
+import type { ClassificationMatcher, ClassificationRule } from './config';
+import type { SessionClassification } from './types';
+
+const MAX_FILTER_CLASSIFICATIONS = 10;
+
+const sqlLiteral = (value: string | number | boolean) => {
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  return `'${value.replace(/'/g, "''")}'`;
+};
+
+const matcherSql = (matcher: ClassificationMatcher, sessionIdColumn: string) => {
+  if ('sessionIdPattern' in matcher) {
+    return `${sessionIdColumn} ~ ${sqlLiteral(matcher.sessionIdPattern)}`;
+  }
+
+  const column = `vs.${matcher.column}`;
+
+  if ('in' in matcher) {
+    return `${column} IN (${matcher.in.map(sqlLiteral).join(', ')})`;
+  }
+
+  if (typeof matcher.equals === 'boolean') {
+    return `${column} IS ${sqlLiteral(matcher.equals)}`;
+  }
+
+  return `${column} = ${sqlLiteral(matcher.equals)}`;
+};
+
+const findRule = (id: string) => config.classifications.find((rule) => rule.id === id);
+
+/**
+ * Condition (never NULL) for one classification rule. Column matchers read the visitor settings
+ * table, which every caller joins as `vs`.
+ */
+export const classificationConditionSql = (rule: ClassificationRule, sessionIdColumn: string) =>
+  `COALESCE(${rule.match
+    .map((matcher) => `(${matcherSql(matcher, sessionIdColumn)})`)
+    .join(' OR ')}, false)`;
+
+/**
+ * `text[]` of the ids of every classification the session matches, in configuration order.
+ */
+export const sessionClassificationsSql = (sessionIdColumn: string) => {
+  if (config.classifications.length === 0) {
+    return 'ARRAY[]::text[]';
+  }
+
+  const entries = config.classifications.map(
+    (rule) =>
+      `CASE WHEN ${classificationConditionSql(rule, sessionIdColumn)} THEN ${sqlLiteral(rule.id)} END`
+  );
+
+  return `ARRAY_REMOVE(ARRAY[${entries.join(', ')}]::text[], NULL)`;
+};
+
+/**
+ * One `COUNT(*) FILTER` column per classification, named `classification_<index>`; read them
+ * back with `toClassificationCounts`.
+ */
+export const classificationCountColumnsSql = (sessionIdColumn: string) =>
+  config.classifications.map(
+    (rule, index) =>
+      `COUNT(*) FILTER (WHERE ${classificationConditionSql(rule, sessionIdColumn)}) AS classification_${index}`
+  );
+
+export const toClassificationCounts = (
+  row: Record<string, unknown> | undefined
+): Record<string, number> =>
+  Object.fromEntries(
+    config.classifications.map((rule, index) => {
+      const value = Number(row?.[`classification_${index}`] ?? 0);
+      return [rule.id, Number.isFinite(value) ? value : 0];
+    })
+  );
+
+/**
+ * Reads a classification filter given as repeated or comma-separated ids and merges in
+ * `extraIds`. Returns null when an id is not configured or too many are given.
+ */
+export const parseClassificationFilter = (
+  value: unknown,
+  extraIds: string[] = []
+): string[] | null => {
+  const rawValues = Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+  if (rawValues.some((item) => typeof item !== 'string')) {
+    return null;
+  }
+
+  const ids = [
+    ...new Set(
+      [...(rawValues as string[]).flatMap((item) => item.split(',')), ...extraIds]
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  ];
+
+  if (ids.length > MAX_FILTER_CLASSIFICATIONS || ids.some((id) => !findRule(id))) {
+    return null;
+  }
+
+  return ids;
+};
+
+/**
+ * Conditions requiring the session to match every classification in `ids`.
+ */
+export const classificationFilterConditions = (ids: string[], sessionIdColumn: string) =>
+  ids.flatMap((id) => {
+    const rule = findRule(id);
+    return rule ? [classificationConditionSql(rule, sessionIdColumn)] : [];
+  });
+
+/**
+ * Conditions requiring the session to match none of the classifications in `ids`.
+ */
+export const classificationExclusionConditions = (ids: string[], sessionIdColumn: string) =>
+  ids.flatMap((id) => {
+    const rule = findRule(id);
+    return rule ? [`NOT ${classificationConditionSql(rule, sessionIdColumn)}`] : [];
+  });
+
+export const listClassifications = (): SessionClassification[] =>
+  config.classifications.map(({ id, label, kind }) => ({ id, label, kind }));
+
+const matcherApplies = (
+  matcher: ClassificationMatcher,
+  sessionId: string,
+  visitorSettings: Record<string, unknown>
+) => {
+  if ('sessionIdPattern' in matcher) {
+    return new RegExp(matcher.sessionIdPattern).test(sessionId);
+  }
+
+  const value = visitorSettings[matcher.column];
+
+  if (value === null || value === undefined) {
+    return false;
+  }
+
+  if ('in' in matcher) {
+    return matcher.in.some((item) => String(item) === String(value));
+  }
+
+  if (typeof matcher.equals === 'boolean') {
+    return value === matcher.equals;
+  }
+
+  return String(value) === String(matcher.equals);
+};
+
+/**
+ * In-memory counterpart of `sessionClassificationsSql` for sessions that do not come from
+ * Postgres. `visitorSettings` is the session's visitor settings row, keyed by column name.
+ */
+export const sessionClassificationIds = (
+  sessionId: string,
+  visitorSettings: Record<string, unknown>
+) =>
+  config.classifications
+    .filter((rule) =>
+      rule.match.some((matcher) => matcherApplies(matcher, sessionId, visitorSettings))
+    )
+    .map((rule) => rule.id);
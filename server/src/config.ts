@@ -1,5 +1,6 @@
 import path from 'path';
 import dotenv from 'dotenv';
+import type { ClassificationKind, UserRole } from './types';
 
 const rootEnvPath = path.resolve(__dirname, '..', '..', '.env');
 dotenv.config({ path: rootEnvPath });
@@ -14,6 +15,15 @@ const parsePort = (value: string | undefined, fallback: number): number => {
   return Number.isFinite(parsed) ? parsed : fallback;
 };
 
+const parseInteger = (value: string | undefined, fallback: number): number => {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
 const normalizeEnv = (value: string | undefined) => {
   if (value == null) {
     return undefined;
@@ -36,6 +46,63 @@ const parseOrigins = (value: string | undefined): string[] | undefined => {
   return origins.length > 0 ? origins : undefined;
 };
 
+const parseEmailList = (value: string | undefined): string[] => {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+};
+
+const DEFAULT_LABEL_CATEGORIES = [
+  'wrong tool',
+  'off-topic',
+  'unsafe',
+  'hallucination',
+  'incomplete'
+];
+
+const parseLabelCategories = (value: string | undefined): string[] => {
+  if (!value) {
+    return DEFAULT_LABEL_CATEGORIES;
+  }
+
+  const categories = value
+    .split(',')
+    .map((entry) => entry.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean);
+
+  return categories.length > 0 ? [...new Set(categories)] : DEFAULT_LABEL_CATEGORIES;
+};
+
+const parseDomainList = (value: string | undefined): string[] =>
+  parseEmailList(value).map((domain) => domain.replace(/^@/, ''));
+
+const USER_ROLES: readonly UserRole[] = ['viewer', 'reviewer', 'admin'];
+
+const parseRole = (
+  value: string | undefined,
+  fallback: UserRole,
+  variableName = 'AUTH_DEFAULT_ROLE'
+): UserRole => {
+  if (!value) {
+    return fallback;
+  }
+
+  const normalized = value.trim().toLowerCase();
+
+  if (!USER_ROLES.includes(normalized as UserRole)) {
+    throw new Error(
+      `Unsupported ${variableName} value "${value}". Supported values: ${USER_ROLES.join(', ')}.`
+    );
+  }
+
+  return normalized as UserRole;
+};
+
 const sanitizeIdentifierPart = (part: string) => {
   if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(part)) {
     throw new Error(
@@ -66,24 +133,353 @@ const parseTableName = (value: string | undefined, fallback: string) => {
   };
 };
 
-const chatTable = parseTableName(
-  normalizeEnv(process.env.CHAT_TABLE ?? process.env.CHAT_TABLE_NAME),
-  'chat_messages'
-);
-
-const visitorSettingsTable = parseTableName(
-  normalizeEnv(process.env.VISITOR_SETTINGS_TABLE ?? process.env.VISITORS_SETTINGS_TABLE),
-  'visitors_settings'
-);
-
 const googleClientId = normalizeEnv(process.env.VITE_GOOGLE_CLIENT_ID);
 
 if (!googleClientId) {
   throw new Error('VITE_GOOGLE_CLIENT_ID is required for authentication.');
 }
 
+const parseSearchLanguage = (value: string | undefined) => {
+  const language = value ?? 'english';
+
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(language)) {
+    throw new Error(
+      `Invalid SEARCH_LANGUAGE value "${language}". Use a Postgres text search configuration name such as english or simple.`
+    );
+  }
+
+  return language;
+};
+
+export interface ModelPrice {
+  /** USD per million prompt (input) tokens. */
+  input: number;
+  /** USD per million completion (output) tokens. */
+  output: number;
+}
+
+// Defaults for common models; override or extend with MODEL_PRICES.
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 }
+};
+
+const parseModelPrices = (value: string | undefined): Record<string, ModelPrice> => {
+  if (!value) {
+    return DEFAULT_MODEL_PRICES;
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(
+      'MODEL_PRICES must be a JSON object such as {"gpt-4o":{"input":2.5,"output":10}}.'
+    );
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('MODEL_PRICES must be a JSON object keyed by model name.');
+  }
+
+  const overrides: Record<string, ModelPrice> = {};
+
+  for (const [model, price] of Object.entries(parsed)) {
+    const { input, output } = (price ?? {}) as Partial<ModelPrice>;
+
+    if (typeof input !== 'number' || typeof output !== 'number') {
+      throw new Error(`MODEL_PRICES entry "${model}" needs numeric input and output prices.`);
+    }
+
+    overrides[model] = { input, output };
+  }
+
+  return { ...DEFAULT_MODEL_PRICES, ...overrides };
+};
+
+export type ClassificationMatcher =
+  | { column: string; equals: string | number | boolean }
+  | { column: string; in: Array<string | number> }
+  | { sessionIdPattern: string };
+
+export interface ClassificationRule {
+  id: string;
+  label: string;
+  kind: ClassificationKind;
+  /** A session belongs to the classification when any matcher applies. */
+  match: ClassificationMatcher[];
+}
+
+// The stored flag and the `abc_def` session id shape both identify WhatsApp chats.
+const DEFAULT_CLASSIFICATIONS: ClassificationRule[] = [
+  {
+    id: 'sales',
+    label: 'Sales',
+    kind: 'segment',
+    match: [{ column: 'type', equals: 'sales' }]
+  },
+  {
+    id: 'whatsapp',
+    label: 'WhatsApp',
+    kind: 'channel',
+    match: [{ column: 'is_whatsapp', equals: true }, { sessionIdPattern: '^[^_]+_[^_]+$' }]
+  }
+];
+
+const CLASSIFICATION_ID_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+const COLUMN_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const isScalar = (value: unknown): value is string | number | boolean =>
+  typeof value === 'string' || typeof value === 'boolean' || Number.isFinite(value);
+
+const parseClassificationMatcher = (id: string, value: unknown): ClassificationMatcher => {
+  const matcher = (value ?? {}) as Record<string, unknown>;
+
+  if (typeof matcher.sessionIdPattern === 'string' && matcher.sessionIdPattern) {
+    return { sessionIdPattern: matcher.sessionIdPattern };
+  }
+
+  if (typeof matcher.column !== 'string' || !COLUMN_NAME_PATTERN.test(matcher.column)) {
+    throw new Error(
+      `SESSION_CLASSIFICATIONS entry "${id}" needs a sessionIdPattern or a visitor settings column name.`
+    );
+  }
+
+  if (isScalar(matcher.equals)) {
+    return { column: matcher.column, equals: matcher.equals };
+  }
+
+  if (
+    Array.isArray(matcher.in) &&
+    matcher.in.length > 0 &&
+    matcher.in.every((item) => typeof item === 'string' || Number.isFinite(item))
+  ) {
+    return { column: matcher.column, in: matcher.in as Array<string | number> };
+  }
+
+  throw new Error(
+    `SESSION_CLASSIFICATIONS entry "${id}" must compare column "${matcher.column}" with equals or a non-empty in list.`
+  );
+};
+
+const parseClassifications = (value: string | undefined): ClassificationRule[] => {
+  if (!value) {
+    return DEFAULT_CLASSIFICATIONS;
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(
+      'SESSION_CLASSIFICATIONS must be a JSON array such as [{"id":"sales","label":"Sales","kind":"segment","match":{"column":"type","equals":"sales"}}].'
+    );
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('SESSION_CLASSIFICATIONS must be a JSON array of classification rules.');
+  }
+
+  const rules: ClassificationRule[] = [];
+
+  for (const entry of parsed) {
+    const { id, label, kind, match } = (entry ?? {}) as Record<string, unknown>;
+
+    if (typeof id !== 'string' || !CLASSIFICATION_ID_PATTERN.test(id)) {
+      throw new Error(
+        `SESSION_CLASSIFICATIONS ids must be lowercase letters, digits, "-" or "_" (got "${String(id)}").`
+      );
+    }
+
+    if (rules.some((rule) => rule.id === id)) {
+      throw new Error(`SESSION_CLASSIFICATIONS defines "${id}" more than once.`);
+    }
+
+    if (kind !== 'channel' && kind !== 'segment') {
+      throw new Error(`SESSION_CLASSIFICATIONS entry "${id}" must have kind channel or segment.`);
+    }
+
+    const matchers = Array.isArray(match) ? match : [match];
+
+    if (matchers.length === 0) {
+      throw new Error(`SESSION_CLASSIFICATIONS entry "${id}" needs at least one matcher.`);
+    }
+
+    rules.push({
+      id,
+      label: typeof label === 'string' && label.trim() ? label.trim() : id,
+      kind,
+      match: matchers.map((matcher) => parseClassificationMatcher(id, matcher))
+    });
+  }
+
+  return rules;
+};
+
 type SslConfig = false | { rejectUnauthorized?: boolean };
 
+export type ChatDataSource = { kind: 'postgres' } | { kind: 'fixture'; path: string };
+
+const parseDataSource = (
+  value: string | undefined,
+  fixturePath: string | undefined
+): ChatDataSource => {
+  const kind = (value ?? 'postgres').toLowerCase();
+
+  if (kind === 'postgres') {
+    return { kind: 'postgres' };
+  }
+
+  if (kind !== 'fixture') {
+    throw new Error(`Invalid CHAT_DATA_SOURCE value "${value}". Use postgres or fixture.`);
+  }
+
+  if (!fixturePath) {
+    throw new Error('CHAT_FIXTURE_PATH is required when CHAT_DATA_SOURCE is fixture.');
+  }
+
+  return { kind: 'fixture', path: path.resolve(fixturePath) };
+};
+
+export type LiveUpdatesMode = 'auto' | 'notify' | 'poll' | 'off';
+
+const parseLiveUpdatesMode = (value: string | undefined): LiveUpdatesMode => {
+  const mode = (value ?? 'auto').toLowerCase();
+
+  if (mode !== 'auto' && mode !== 'notify' && mode !== 'poll' && mode !== 'off') {
+    throw new Error(`Invalid LIVE_UPDATES value "${value}". Use auto, notify, poll or off.`);
+  }
+
+  return mode;
+};
+
+const parseNotifyChannel = (value: string | undefined) => {
+  const channel = value ?? 'chat_messages_changed';
+
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(channel)) {
+    throw new Error(
+      `Invalid LIVE_NOTIFY_CHANNEL value "${channel}". Use alphanumeric characters or underscores.`
+    );
+  }
+
+  return channel;
+};
+
+export interface RedactionPattern {
+  name: string;
+  pattern: RegExp;
+  replacement: string;
+}
+
+const BUILT_IN_REDACTION_PATTERNS: Record<string, RedactionPattern> = {
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: '[REDACTED:EMAIL]'
+  },
+  // Needs separators or a leading "+" so ids, dates and plain counts are left alone.
+  phone: {
+    name: 'phone',
+    pattern:
+      /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?\d{3,4}[\s.-]?\d{3,4}|\d{2,4}[\s.-]\d{3,4}[\s.-]\d{2,4})\b|\+\d{8,15}\b/g,
+    replacement: '[REDACTED:PHONE]'
+  },
+  address: {
+    name: 'address',
+    pattern:
+      /\b\d{1,5}\s+(?:[A-Z][A-Za-z.'-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Square|Sq|Terrace|Highway|Hwy)\b\.?/g,
+    replacement: '[REDACTED:ADDRESS]'
+  }
+};
+
+const REDACTION_PATTERNS_EXAMPLE =
+  '["email","phone",{"name":"iban","pattern":"\\\\bDE\\\\d{20}\\\\b","flags":"i"}]';
+
+const parseRedactionPatterns = (value: string | undefined): RedactionPattern[] => {
+  if (!value) {
+    return Object.values(BUILT_IN_REDACTION_PATTERNS);
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(
+      `REDACTION_PATTERNS must be a JSON array such as ${REDACTION_PATTERNS_EXAMPLE}.`
+    );
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(
+      `REDACTION_PATTERNS must be a JSON array such as ${REDACTION_PATTERNS_EXAMPLE}.`
+    );
+  }
+
+  return parsed.map((entry): RedactionPattern => {
+    if (typeof entry === 'string') {
+      const builtIn = BUILT_IN_REDACTION_PATTERNS[entry];
+
+      if (!builtIn) {
+        throw new Error(
+          `Unknown built-in redaction pattern "${entry}". Built-ins: ${Object.keys(BUILT_IN_REDACTION_PATTERNS).join(', ')}.`
+        );
+      }
+
+      return builtIn;
+    }
+
+    const { name, pattern, flags, replacement } = (entry ?? {}) as Record<string, unknown>;
+
+    if (typeof name !== 'string' || !name.trim() || typeof pattern !== 'string' || !pattern) {
+      throw new Error('REDACTION_PATTERNS entries need a name and a pattern.');
+    }
+
+    const normalizedFlags = typeof flags === 'string' ? flags : '';
+
+    try {
+      return {
+        name: name.trim(),
+        // Every occurrence is replaced, so the global flag is always set.
+        pattern: new RegExp(pattern, [...new Set(`${normalizedFlags}g`)].join('')),
+        replacement:
+          typeof replacement === 'string' ? replacement : `[REDACTED:${name.trim().toUpperCase()}]`
+      };
+    } catch (error) {
+      throw new Error(
+        `REDACTION_PATTERNS entry "${name}" is not a valid regular expression: ${(error as Error).message}`
+      );
+    }
+  });
+};
+
+/**
+ * Reads comma-separated dotted paths into the message payload, such as
+ * `additional_kwargs.customer.phone`; `*` matches any single key or array index.
+ */
+const parseRedactionKeyPaths = (value: string | undefined): string[][] =>
+  (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const segments = entry.split('.');
+
+      if (segments.some((segment) => segment.length === 0)) {
+        throw new Error(`Invalid REDACTION_KEY_PATHS entry "${entry}".`);
+      }
+
+      return segments;
+    });
+
 const parseBoolean = (value: string | undefined) => {
   if (value == null) {
     return undefined;
@@ -102,9 +498,11 @@ const parseBoolean = (value: string | undefined) => {
   return undefined;
 };
 
-const parseSslConfig = (): SslConfig | undefined => {
-  const modeRaw = normalizeEnv(process.env.PGSSLMODE ?? process.env.PGSSL);
-  const rejectUnauthorizedFlag = parseBoolean(normalizeEnv(process.env.PGSSLREJECTUNAUTHORIZED));
+type EnvReader = (name: string) => string | undefined;
+
+const parseSslConfig = (readEnv: EnvReader): SslConfig | undefined => {
+  const modeRaw = readEnv('PGSSLMODE') ?? readEnv('PGSSL');
+  const rejectUnauthorizedFlag = parseBoolean(readEnv('PGSSLREJECTUNAUTHORIZED'));
 
   if (!modeRaw) {
     return rejectUnauthorizedFlag === undefined
@@ -137,32 +535,170 @@ const parseSslConfig = (): SslConfig | undefined => {
   }
 };
 
+export interface DatabaseSettings {
+  host?: string;
+  port: number;
+  database?: string;
+  user?: string;
+  password?: string;
+  ssl?: SslConfig;
+}
+
+export interface ChatSourceConfig {
+  id: string;
+  label: string;
+  dataSource: ChatDataSource;
+  db: DatabaseSettings;
+  chatTable: string;
+  chatTableSql: string;
+  visitorSettingsTable: string;
+  visitorSettingsTableSql: string;
+  auditLogTable: string;
+  auditLogTableSql: string;
+  sessionAnnotationsTable: string;
+  sessionAnnotationsTableSql: string;
+  messageLabelsTable: string;
+  messageLabelsTableSql: string;
+}
+
+const DEFAULT_SOURCE_ID = 'default';
+const SOURCE_ID_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+
+const parseChatSource = (id: string, envPrefix: string): ChatSourceConfig => {
+  // `<ID>_`-prefixed variables override the unprefixed ones, which every source shares.
+  const readEnv: EnvReader = (name) =>
+    normalizeEnv(process.env[`${envPrefix}${name}`]) ?? normalizeEnv(process.env[name]);
+  const chatTable = parseTableName(
+    readEnv('CHAT_TABLE') ?? readEnv('CHAT_TABLE_NAME'),
+    'chat_messages'
+  );
+  const visitorSettingsTable = parseTableName(
+    readEnv('VISITOR_SETTINGS_TABLE') ?? readEnv('VISITORS_SETTINGS_TABLE'),
+    'visitors_settings'
+  );
+  // Reviewer data is kept per source, so sources sharing a database can keep theirs apart.
+  const auditLogTable = parseTableName(readEnv('AUDIT_LOG_TABLE'), 'chat_access_log');
+  const sessionAnnotationsTable = parseTableName(
+    readEnv('SESSION_ANNOTATIONS_TABLE'),
+    'session_annotations'
+  );
+  const messageLabelsTable = parseTableName(readEnv('MESSAGE_LABELS_TABLE'), 'message_labels');
+
+  return {
+    id,
+    label: (envPrefix && normalizeEnv(process.env[`${envPrefix}LABEL`])) || id,
+    dataSource: parseDataSource(readEnv('CHAT_DATA_SOURCE'), readEnv('CHAT_FIXTURE_PATH')),
+    db: {
+      host: readEnv('PGHOST'),
+      port: parsePort(readEnv('PGPORT'), 5432),
+      database: readEnv('PGDATABASE'),
+      user: readEnv('PGUSER'),
+      password: readEnv('PGPASSWORD'),
+      ssl: parseSslConfig(readEnv)
+    },
+    chatTable: chatTable.raw,
+    chatTableSql: chatTable.sql,
+    visitorSettingsTable: visitorSettingsTable.raw,
+    visitorSettingsTableSql: visitorSettingsTable.sql,
+    auditLogTable: auditLogTable.raw,
+    auditLogTableSql: auditLogTable.sql,
+    sessionAnnotationsTable: sessionAnnotationsTable.raw,
+    sessionAnnotationsTableSql: sessionAnnotationsTable.sql,
+    messageLabelsTable: messageLabelsTable.raw,
+    messageLabelsTableSql: messageLabelsTable.sql
+  };
+};
+
+/**
+ * Reads `CHAT_SOURCES`, a comma-separated list of source ids such as `support,sales`. Without it
+ * there is a single `default` source configured by the unprefixed variables.
+ */
+const parseChatSources = (value: string | undefined): ChatSourceConfig[] => {
+  if (!value) {
+    return [parseChatSource(DEFAULT_SOURCE_ID, '')];
+  }
+
+  const ids = value
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (ids.length === 0) {
+    throw new Error('CHAT_SOURCES must list at least one source id.');
+  }
+
+  for (const [index, id] of ids.entries()) {
+    if (!SOURCE_ID_PATTERN.test(id)) {
+      throw new Error(
+        `CHAT_SOURCES ids must be lowercase letters, digits, "-" or "_" (got "${id}").`
+      );
+    }
+
+    if (ids.indexOf(id) !== index) {
+      throw new Error(`CHAT_SOURCES lists "${id}" more than once.`);
+    }
+  }
+
+  return ids.map((id) => parseChatSource(id, `${id.toUpperCase().replace(/-/g, '_')}_`));
+};
+
 export const config = {
   port: parsePort(process.env.PORT, 4000),
-  db: {
-    host: normalizeEnv(process.env.PGHOST),
-    port: parsePort(process.env.PGPORT, 5432),
-    database: normalizeEnv(process.env.PGDATABASE),
-    user: normalizeEnv(process.env.PGUSER),
-    password: normalizeEnv(process.env.PGPASSWORD),
-    ssl: parseSslConfig()
-  },
+  /** The first source also serves the unscoped `/api/chats` and `/api/audit` routes. */
+  sources: parseChatSources(normalizeEnv(process.env.CHAT_SOURCES)),
   corsOrigins: parseOrigins(process.env.CORS_ORIGIN),
-  chatTable: chatTable.raw,
-  chatTableSql: chatTable.sql,
-  visitorSettingsTable: visitorSettingsTable.raw,
-  visitorSettingsTableSql: visitorSettingsTable.sql,
   auth: {
-    googleClientId
+    googleClientId,
+    allowedDomains: parseDomainList(process.env.AUTH_ALLOWED_DOMAINS),
+    allowedEmails: parseEmailList(process.env.AUTH_ALLOWED_EMAILS),
+    adminEmails: parseEmailList(process.env.AUTH_ADMIN_EMAILS),
+    reviewerEmails: parseEmailList(process.env.AUTH_REVIEWER_EMAILS),
+    defaultRole: parseRole(normalizeEnv(process.env.AUTH_DEFAULT_ROLE), 'viewer'),
+    jwksUrl:
+      normalizeEnv(process.env.AUTH_JWKS_URL) ?? 'https://www.googleapis.com/oauth2/v3/certs',
+    jwksFile: normalizeEnv(process.env.AUTH_JWKS_FILE),
+    issuers: parseOrigins(process.env.AUTH_TOKEN_ISSUERS) ?? [
+      'accounts.google.com',
+      'https://accounts.google.com'
+    ],
+    tokenCacheSeconds: parseInteger(process.env.AUTH_TOKEN_CACHE_SECONDS, 60)
+  },
+  search: {
+    language: parseSearchLanguage(normalizeEnv(process.env.SEARCH_LANGUAGE))
+  },
+  usage: {
+    modelPrices: parseModelPrices(normalizeEnv(process.env.MODEL_PRICES))
+  },
+  labels: {
+    categories: parseLabelCategories(normalizeEnv(process.env.MESSAGE_LABEL_CATEGORIES))
+  },
+  classifications: parseClassifications(normalizeEnv(process.env.SESSION_CLASSIFICATIONS)),
+  redaction: {
+    enabled: parseBoolean(normalizeEnv(process.env.REDACTION)) ?? true,
+    patterns: parseRedactionPatterns(normalizeEnv(process.env.REDACTION_PATTERNS)),
+    keyPaths: parseRedactionKeyPaths(normalizeEnv(process.env.REDACTION_KEY_PATHS)),
+    unredactedRole: parseRole(
+      normalizeEnv(process.env.REDACTION_UNREDACTED_ROLE),
+      'admin',
+      'REDACTION_UNREDACTED_ROLE'
+    )
+  },
+  live: {
+    mode: parseLiveUpdatesMode(normalizeEnv(process.env.LIVE_UPDATES)),
+    channel: parseNotifyChannel(normalizeEnv(process.env.LIVE_NOTIFY_CHANNEL)),
+    pollIntervalMs: Math.max(
+      500,
+      parseInteger(normalizeEnv(process.env.LIVE_POLL_INTERVAL_MS), 3000)
+    )
   }
 };
 
-export const assertDatabaseConfig = (): void => {
-  const hasFields = Boolean(config.db.host && config.db.database && config.db.user);
+export const assertDatabaseConfig = (source: ChatSourceConfig): void => {
+  const hasFields = Boolean(source.db.host && source.db.database && source.db.user);
 
   if (!hasFields) {
     throw new Error(
-      'Database connection is not configured. Set PGHOST, PGDATABASE, and PGUSER environment variables.'
+      `Database connection for chat source "${source.id}" is not configured. Set PGHOST, PGDATABASE, and PGUSER environment variables (or their <ID>_-prefixed variants).`
     );
   }
 };
@@ -0,0 +1,14 @@
+/** Parses an ISO 8601 query value; missing and invalid dates both come back undefined. */
+export const tryParseIsoDate = (value: string | undefined): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = new Date(value);
+
+  if (Number.isNaN(parsed.getTime())) {
+    return undefined;
+  }
+
+  return parsed;
+};
@@ -1,25 +1,81 @@
 import { Pool } from 'pg';
-import { assertDatabaseConfig, config } from './config';
+import type { DatabaseSettings } from './config';
 
-assertDatabaseConfig();
+const DEFAULT_CURSOR_BATCH_SIZE = 500;
 
-const connectionOptions = {
-  host: config.db.host,
-  port: config.db.port,
-  database: config.db.database,
-  user: config.db.user,
-  password: config.db.password
-};
+export type Database = ReturnType<typeof createDatabase>;
+
+/**
+ * Connection pool for one chat source. The pool is created on first use, so sources that read a
+ * fixture file never connect to Postgres.
+ */
+export const createDatabase = (settings: DatabaseSettings) => {
+  let pool: Pool | undefined;
+
+  const getPool = () => {
+    pool ??= new Pool({
+      host: settings.host,
+      port: settings.port,
+      database: settings.database,
+      user: settings.user,
+      password: settings.password,
+      ...(settings.ssl !== undefined ? { ssl: settings.ssl } : {}),
+      max: 10,
+      idleTimeoutMillis: 30_000
+    });
+
+    return pool;
+  };
+
+  const query = <T>(text: string, params?: unknown[]) => getPool().query<T>(text, params);
+
+  /**
+   * Runs `text` through a server-side cursor on a dedicated connection and yields rows in batches,
+   * so callers can walk result sets of any size with flat memory. Breaking out of the loop closes
+   * the cursor and returns the connection to the pool.
+   */
+  async function* queryCursor<T>(
+    text: string,
+    params: unknown[] = [],
+    batchSize = DEFAULT_CURSOR_BATCH_SIZE
+  ): AsyncGenerator<T[]> {
+    const client = await getPool().connect();
+    let finished = false;
+    let failed = false;
+
+    try {
+      await client.query('BEGIN READ ONLY');
+      await client.query(`DECLARE view_chats_cursor NO SCROLL CURSOR FOR ${text}`, params);
+
+      while (true) {
+        const result = await client.query<T>(`FETCH ${batchSize} FROM view_chats_cursor`);
+
+        if (result.rows.length === 0) {
+          break;
+        }
+
+        yield result.rows;
+      }
+
+      await client.query('COMMIT');
+      finished = true;
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      if (!finished) {
+        await client.query('ROLLBACK').catch(() => {
+          failed = true;
+        });
+      }
 
-export const pool = new Pool({
-  ...connectionOptions,
-  ...(config.db.ssl !== undefined ? { ssl: config.db.ssl } : {}),
-  max: 10,
-  idleTimeoutMillis: 30_000
-});
+      client.release(failed);
+    }
+  }
 
-export const query = <T>(text: string, params?: unknown[]) => pool.query<T>(text, params);
+  const disconnect = async () => {
+    await pool?.end();
+  };
 
-export const disconnect = async () => {
-  await pool.end();
+  return { getPool, query, queryCursor, disconnect };
 };
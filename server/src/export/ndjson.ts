@@ -0,0 +1,35 @@
+import type { Response } from 'express';
+
+/**
+ * Writes newline-delimited JSON to `res`, waiting for `drain` whenever the socket buffer is full
+ * so a slow client never makes the server buffer the whole export in memory.
+ */
+export const createNdjsonWriter = (res: Response) => {
+  let closed = false;
+
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const write = (value: unknown) =>
+    new Promise<void>((resolve) => {
+      if (closed || res.write(`${JSON.stringify(value)}\n`)) {
+        resolve();
+        return;
+      }
+
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+
+      res.on('drain', done);
+      res.on('close', done);
+    });
+
+  return {
+    write,
+    isClosed: () => closed
+  };
+};
@@ -0,0 +1,188 @@
+import type { ChatMessage, MessageToolCall } from '../types';
+
+export type TranscriptFormat = 'md' | 'html' | 'csv' | 'json';
+
+export interface TranscriptOptions {
+  includeSystem: boolean;
+  includeToolCalls: boolean;
+}
+
+interface TranscriptEntry {
+  id: string;
+  createdAt: string;
+  type: string;
+  content: string;
+  toolCalls?: MessageToolCall[];
+}
+
+const TRANSCRIPT_FORMATS: readonly TranscriptFormat[] = ['md', 'html', 'csv', 'json'];
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+export const isTranscriptFormat = (value: string): value is TranscriptFormat =>
+  TRANSCRIPT_FORMATS.includes(value as TranscriptFormat);
+
+/**
+ * Flattens a message to text the same way the web client does: its text parts followed by the
+ * content of any tool results it carries. Thinking parts are left out.
+ */
+const messageText = ({ view }: ChatMessage) =>
+  [
+    ...view.parts.filter((part) => part.kind === 'text').map((part) => part.text),
+    ...view.toolResults.map((result) => result.content)
+  ].join('\n\n');
+
+const toEntries = (messages: ChatMessage[], options: TranscriptOptions): TranscriptEntry[] =>
+  messages
+    .filter(({ view }) => {
+      if (!options.includeSystem && view.role === 'system') {
+        return false;
+      }
+
+      return options.includeToolCalls || view.role !== 'tool';
+    })
+    .map((message) => {
+      const { toolCalls } = message.view;
+
+      return {
+        id: message.id,
+        createdAt: message.createdAt,
+        type: message.view.role,
+        content: messageText(message),
+        ...(options.includeToolCalls && toolCalls.length > 0 ? { toolCalls } : {})
+      };
+    });
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const escapeCsvCell = (value: string) => {
+  // Prefix cells that spreadsheets would evaluate as formulas.
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const longestBacktickRun = (value: string) =>
+  Math.max(0, ...Array.from(value.matchAll(/`+/g), (match) => match[0].length));
+
+const fence = (value: string, language = '') => {
+  const marker = '`'.repeat(Math.max(3, longestBacktickRun(value) + 1));
+  return `${marker}${language}\n${value}\n${marker}`;
+};
+
+const renderMarkdown = (sessionId: string, entries: TranscriptEntry[], exportedAt: string) => {
+  const sections = entries.map((entry) => {
+    const parts = [`### ${entry.type.toUpperCase()} · ${entry.createdAt}`];
+
+    if (entry.content) {
+      parts.push(entry.content);
+    }
+
+    if (entry.toolCalls) {
+      parts.push(`**Tool calls**\n\n${fence(JSON.stringify(entry.toolCalls, null, 2), 'json')}`);
+    }
+
+    return parts.join('\n\n');
+  });
+
+  return (
+    [
+      `# Chat session ${sessionId}`,
+      `Exported ${exportedAt} · ${entries.length} messages`,
+      ...sections
+    ].join('\n\n') + '\n'
+  );
+};
+
+const renderHtml = (sessionId: string, entries: TranscriptEntry[], exportedAt: string) => {
+  const articles = entries
+    .map((entry) => {
+      const toolCalls = entry.toolCalls
+        ? `<pre class="tool-calls">${escapeHtml(JSON.stringify(entry.toolCalls, null, 2))}</pre>`
+        : '';
+
+      return `<article class="message type-${escapeHtml(entry.type.toLowerCase())}">
+  <header><strong>${escapeHtml(entry.type.toUpperCase())}</strong> <time>${escapeHtml(entry.createdAt)}</time></header>
+  <div class="content">${escapeHtml(entry.content)}</div>
+  ${toolCalls}
+</article>`;
+    })
+    .join('\n');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Chat session ${escapeHtml(sessionId)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+.message { border: 1px solid #ddd; border-radius: 8px; padding: 12px 16px; margin: 12px 0; }
+.message header { font-size: 12px; color: #555; display: flex; gap: 12px; }
+.content { white-space: pre-wrap; margin-top: 8px; }
+.tool-calls { background: #f4f4f5; padding: 8px; border-radius: 6px; overflow-x: auto; }
+.type-ai { border-left: 3px solid #38bdf8; }
+.type-human { border-left: 3px solid #facc15; }
+.type-system { border-left: 3px solid #c084fc; }
+</style>
+</head>
+<body>
+<h1>Chat session ${escapeHtml(sessionId)}</h1>
+<p>Exported ${escapeHtml(exportedAt)} · ${entries.length} messages</p>
+${articles}
+</body>
+</html>
+`;
+};
+
+const renderCsv = (entries: TranscriptEntry[]) => {
+  const header = ['id', 'created_at', 'type', 'content', 'tool_calls'];
+  const rows = entries.map((entry) =>
+    [
+      entry.id,
+      entry.createdAt,
+      entry.type,
+      entry.content,
+      entry.toolCalls ? JSON.stringify(entry.toolCalls) : ''
+    ]
+      .map(escapeCsvCell)
+      .join(',')
+  );
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const toFilenamePart = (sessionId: string) =>
+  sessionId.replace(/[^A-Za-z0-9_.-]+/g, '_').slice(0, 100) || 'session';
+
+export const renderTranscript = (
+  sessionId: string,
+  messages: ChatMessage[],
+  format: TranscriptFormat,
+  options: TranscriptOptions
+) => {
+  const entries = toEntries(messages, options);
+  const exportedAt = new Date().toISOString();
+
+  const renderers: Record<TranscriptFormat, () => string> = {
+    md: () => renderMarkdown(sessionId, entries, exportedAt),
+    html: () => renderHtml(sessionId, entries, exportedAt),
+    csv: () => renderCsv(entries),
+    json: () => JSON.stringify({ sessionId, exportedAt, messages: entries }, null, 2)
+  };
+
+  return {
+    body: renderers[format](),
+    contentType: CONTENT_TYPES[format],
+    filename: `chat-${toFilenamePart(sessionId)}.${format}`
+  };
+};
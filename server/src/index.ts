@@ -1,21 +1,31 @@
 import cors from 'cors';
 import express, { ErrorRequestHandler } from 'express';
 import { config } from './config';
-import { disconnect } from './db';
-import { requireAuth } from './middleware/auth';
+import { requireAuth, requireRole } from './middleware/auth';
+import { resolveChatSource } from './middleware/chatSource';
+import annotationsRouter from './routes/annotations';
+import auditRouter from './routes/audit';
 import chatsRouter from './routes/chats';
+import labelsRouter from './routes/labels';
+import meRouter from './routes/me';
+import sourcesRouter from './routes/sources';
+import { disconnectChatSources } from './sources';
 
 const app = express();
 
+// Lets the web client read bulk export totals for its progress indicator.
+const exposedHeaders = ['X-Export-Session-Count', 'X-Export-Message-Count'];
+
 if (config.corsOrigins) {
   app.use(
     cors({
       origin: config.corsOrigins,
-      credentials: true
+      credentials: true,
+      exposedHeaders
     })
   );
 } else {
-  app.use(cors());
+  app.use(cors({ exposedHeaders }));
 }
 
 app.use(express.json());
@@ -24,7 +34,25 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok' });
 });
 
-app.use('/api/chats', requireAuth, chatsRouter);
+// The unscoped paths serve the first configured source.
+app.use(['/api/sources/:source/me', '/api/me'], requireAuth, resolveChatSource, meRouter);
+app.use(
+  ['/api/sources/:source/chats', '/api/chats'],
+  requireAuth,
+  requireRole('viewer'),
+  resolveChatSource,
+  chatsRouter,
+  annotationsRouter,
+  labelsRouter
+);
+app.use(
+  ['/api/sources/:source/audit', '/api/audit'],
+  requireAuth,
+  requireRole('admin'),
+  resolveChatSource,
+  auditRouter
+);
+app.use('/api/sources', requireAuth, requireRole('viewer'), sourcesRouter);
 
 const errorHandler: ErrorRequestHandler = (error, _req, res, _next) => {
   // Avoid leaking implementation details while still giving a hint in the logs.
@@ -47,7 +75,7 @@ const gracefulShutdown = async () => {
     }
 
     try {
-      await disconnect();
+      await disconnectChatSources();
       console.log('Database connections closed. Bye!');
     } catch (dbError) {
       console.error('Error while closing database connections', dbError);
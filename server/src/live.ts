@@ -0,0 +1,294 @@
+import type { PoolClient } from 'pg';
+import { config } from './config';
+import type { ChatSource } from './sources';
+
+const { channel, pollIntervalMs } = config.live;
+const NOTIFY_BATCH_DELAY_MS = 250;
+const NOTIFY_RECONNECT_DELAY_MS = 5000;
+const POLL_BATCH_SIZE = 1000;
+
+export interface ChatChange {
+  id: string;
+  sessionId: string;
+}
+
+export type ChatChangeListener = (changes: ChatChange[]) => void;
+
+export type LiveSourceMode = 'notify' | 'poll';
+
+interface LiveSource {
+  stop: () => void;
+}
+
+/** Subscribers and the shared LISTEN connection or polling loop of one chat source. */
+interface ChangeFeed {
+  chatSource: ChatSource;
+  listeners: Set<ChatChangeListener>;
+  liveSource: LiveSource | null;
+  resolvedMode: Promise<LiveSourceMode> | null;
+}
+
+const feeds = new Map<string, ChangeFeed>();
+
+const feedFor = (chatSource: ChatSource) => {
+  let feed = feeds.get(chatSource.id);
+
+  if (!feed) {
+    feed = { chatSource, listeners: new Set(), liveSource: null, resolvedMode: null };
+    feeds.set(chatSource.id, feed);
+  }
+
+  return feed;
+};
+
+const emit = (feed: ChangeFeed, changes: ChatChange[]) => {
+  if (changes.length === 0) {
+    return;
+  }
+
+  for (const listener of feed.listeners) {
+    try {
+      listener(changes);
+    } catch (error) {
+      console.error('[live] Listener failed', error);
+    }
+  }
+};
+
+/**
+ * In `auto` mode LISTEN/NOTIFY is used only when the chat table has a trigger whose function
+ * calls pg_notify on the configured channel; otherwise new rows are found by polling.
+ */
+const resolveMode = async (chatSource: ChatSource): Promise<LiveSourceMode> => {
+  if (config.live.mode === 'notify' || config.live.mode === 'poll') {
+    return config.live.mode;
+  }
+
+  try {
+    const result = await chatSource.db.query<{ has_trigger: boolean }>(
+      `
+        SELECT EXISTS (
+          SELECT 1
+          FROM pg_trigger t
+          JOIN pg_proc p ON p.oid = t.tgfoid
+          WHERE t.tgrelid = to_regclass($1)
+            AND NOT t.tgisinternal
+            AND p.prosrc LIKE '%pg_notify%'
+            AND position($2 IN p.prosrc) > 0
+        ) AS has_trigger
+      `,
+      [chatSource.config.chatTable, channel]
+    );
+
+    return result.rows[0]?.has_trigger ? 'notify' : 'poll';
+  } catch (error) {
+    console.error('[live] Could not inspect chat table triggers; falling back to polling', error);
+    return 'poll';
+  }
+};
+
+const parseNotification = (payload: string | undefined): ChatChange | null => {
+  try {
+    const parsed = JSON.parse(payload ?? '') as { id?: unknown; sessionId?: unknown };
+
+    if (typeof parsed.id === 'string' && typeof parsed.sessionId === 'string') {
+      return { id: parsed.id, sessionId: parsed.sessionId };
+    }
+  } catch {
+    // Fall through to the warning below.
+  }
+
+  console.warn('[live] Ignoring malformed notification payload', payload);
+  return null;
+};
+
+const startNotifySource = (feed: ChangeFeed): LiveSource => {
+  let client: PoolClient | null = null;
+  let stopped = false;
+  let reconnectTimer: NodeJS.Timeout | undefined;
+  let flushTimer: NodeJS.Timeout | undefined;
+  let pending: ChatChange[] = [];
+
+  // Inserts often arrive in bursts (a turn writes several messages), so batch them briefly.
+  const queueChange = (change: ChatChange) => {
+    pending.push(change);
+    flushTimer ??= setTimeout(() => {
+      flushTimer = undefined;
+      const batch = pending;
+      pending = [];
+      emit(feed, batch);
+    }, NOTIFY_BATCH_DELAY_MS);
+  };
+
+  const connect = async () => {
+    try {
+      const connected = await feed.chatSource.db.getPool().connect();
+
+      if (stopped) {
+        connected.release();
+        return;
+      }
+
+      client = connected;
+      connected.on('notification', (message) => {
+        if (message.channel !== channel) {
+          return;
+        }
+
+        const change = parseNotification(message.payload);
+        if (change) {
+          queueChange(change);
+        }
+      });
+      connected.on('error', (error) => {
+        console.error('[live] LISTEN connection failed; reconnecting', error);
+        disconnect(true);
+        scheduleReconnect();
+      });
+      await connected.query(`LISTEN "${channel}"`);
+    } catch (error) {
+      console.error('[live] Could not LISTEN for chat changes; retrying', error);
+      disconnect(true);
+      scheduleReconnect();
+    }
+  };
+
+  const disconnect = (failed: boolean) => {
+    const current = client;
+    client = null;
+
+    if (!current) {
+      return;
+    }
+
+    current.removeAllListeners('notification');
+    current.removeAllListeners('error');
+
+    if (failed) {
+      current.release(true);
+      return;
+    }
+
+    current
+      .query(`UNLISTEN "${channel}"`)
+      .catch(() => undefined)
+      .finally(() => current.release());
+  };
+
+  const scheduleReconnect = () => {
+    if (!stopped && !reconnectTimer) {
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = undefined;
+        void connect();
+      }, NOTIFY_RECONNECT_DELAY_MS);
+    }
+  };
+
+  void connect();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      clearTimeout(flushTimer);
+      disconnect(false);
+    }
+  };
+};
+
+const startPollSource = (feed: ChangeFeed): LiveSource => {
+  const { db, config: sourceConfig } = feed.chatSource;
+  const chatTable = sourceConfig.chatTableSql;
+  let cursor: { time: string; id: string } | null = null;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const cursorTimeSql = `to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`;
+
+  const poll = async () => {
+    try {
+      if (!cursor) {
+        const latest = await db.query<{ id: string; cursor_time: string }>(
+          `
+            SELECT id::text AS id, ${cursorTimeSql} AS cursor_time
+            FROM ${chatTable}
+            ORDER BY created_at DESC, id DESC
+            LIMIT 1
+          `
+        );
+        const row = latest.rows[0];
+        // An empty table starts from the epoch so the very first message is reported.
+        cursor = row
+          ? { time: row.cursor_time, id: row.id }
+          : { time: '1970-01-01T00:00:00.000000Z', id: '00000000-0000-0000-0000-000000000000' };
+      } else {
+        const result = await db.query<{ id: string; session_id: string; cursor_time: string }>(
+          `
+            SELECT id::text AS id, session_id, ${cursorTimeSql} AS cursor_time
+            FROM ${chatTable}
+            WHERE (created_at, id) > ($1::timestamptz, $2)
+            ORDER BY created_at ASC, id ASC
+            LIMIT ${POLL_BATCH_SIZE}
+          `,
+          [cursor.time, cursor.id]
+        );
+        const last = result.rows[result.rows.length - 1];
+
+        if (last) {
+          cursor = { time: last.cursor_time, id: last.id };
+          emit(
+            feed,
+            result.rows.map((row) => ({ id: row.id, sessionId: row.session_id }))
+          );
+        }
+      }
+    } catch (error) {
+      console.error('[live] Polling for chat changes failed', error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(() => void poll(), pollIntervalMs);
+      }
+    }
+  };
+
+  void poll();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+    }
+  };
+};
+
+export const getLiveSourceMode = (chatSource: ChatSource) => {
+  const feed = feedFor(chatSource);
+  feed.resolvedMode ??= resolveMode(chatSource);
+  return feed.resolvedMode;
+};
+
+/**
+ * Registers a listener for chat messages newly inserted into the source's chat table. The
+ * underlying LISTEN connection or polling loop runs only while at least one listener is registered.
+ */
+export const subscribeToChatChanges = async (
+  chatSource: ChatSource,
+  listener: ChatChangeListener
+) => {
+  const mode = await getLiveSourceMode(chatSource);
+  const feed = feedFor(chatSource);
+  feed.listeners.add(listener);
+
+  if (!feed.liveSource) {
+    feed.liveSource = mode === 'notify' ? startNotifySource(feed) : startPollSource(feed);
+  }
+
+  return () => {
+    feed.listeners.delete(listener);
+
+    if (feed.listeners.size === 0 && feed.liveSource) {
+      feed.liveSource.stop();
+      feed.liveSource = null;
+    }
+  };
+};
@@ -0,0 +1,129 @@
+import type { Request, RequestHandler } from 'express';
+import { isDatabaseSource } from '../sources';
+import type { ChatSource } from '../sources';
+import type { AuditAction } from '../types';
+import { chatSourceFor } from './chatSource';
+
+const resolveSessionId = (req: Request) => {
+  if (typeof req.params.sessionId === 'string') {
+    return req.params.sessionId;
+  }
+
+  return typeof req.query.sessionId === 'string' ? req.query.sessionId.trim() || null : null;
+};
+
+interface AccessRecord {
+  email: string;
+  role: string;
+  action: AuditAction;
+  route: string;
+  sessionId: string | null;
+  filters: unknown;
+  /** Null for entries written before the response, whose status is not known yet. */
+  statusCode: number | null;
+}
+
+const recordAccess = async ({ db, config: sourceConfig }: ChatSource, record: AccessRecord) => {
+  await db.query(
+    `
+      INSERT INTO ${sourceConfig.auditLogTableSql}
+        (user_email, user_role, action, route, session_id, filters, status_code)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `,
+    [
+      record.email,
+      record.role,
+      record.action,
+      record.route,
+      record.sessionId,
+      JSON.stringify(record.filters ?? {}),
+      record.statusCode
+    ]
+  );
+};
+
+/** The route, session and query filters an audit entry describes. */
+const describeAccess = (req: Request) => {
+  const routePath = typeof req.route?.path === 'string' ? req.route.path : req.path;
+
+  return {
+    route: `${req.method} ${req.baseUrl}${routePath === '/' ? '' : routePath}`,
+    sessionId: resolveSessionId(req),
+    filters: { ...req.query }
+  };
+};
+
+/**
+ * Records the signed-in user's read once the response is sent. Failures are logged but never
+ * affect the response, so a missing audit table does not take the viewer down.
+ */
+export const auditAccess =
+  (action: AuditAction): RequestHandler =>
+  (req, res, next) => {
+    const user = req.authUser;
+    const source = chatSourceFor(req);
+
+    // Each source's database keeps the log of its own reads; fixture sources have none.
+    if (!user || !isDatabaseSource(source)) {
+      next();
+      return;
+    }
+
+    const access = describeAccess(req);
+    let recorded = false;
+
+    // Streams such as the live feed end when the client disconnects, which emits `close` without
+    // `finish`; whichever fires first records the access.
+    const record = () => {
+      if (recorded) {
+        return;
+      }
+
+      recorded = true;
+      recordAccess(source, {
+        email: user.email,
+        role: user.role,
+        action,
+        ...access,
+        statusCode: res.statusCode
+      }).catch((error) => {
+        console.error('[audit] failed to record access', error);
+      });
+    };
+
+    res.on('finish', record);
+    res.on('close', record);
+
+    next();
+  };
+
+/**
+ * Records an `unredacted` read before it is served. Unlike `auditAccess`, the request waits for
+ * the entry and gets a 503 when it cannot be written, so unredacted data never leaves unaudited.
+ */
+export const auditUnredactedAccess: RequestHandler = async (req, res, next) => {
+  const user = req.authUser;
+  const source = chatSourceFor(req);
+  const unaudited = { error: 'Unredacted data is unavailable while access cannot be audited.' };
+
+  if (!user || !isDatabaseSource(source)) {
+    res.status(503).json(unaudited);
+    return;
+  }
+
+  try {
+    await recordAccess(source, {
+      email: user.email,
+      role: user.role,
+      action: 'unredacted',
+      ...describeAccess(req),
+      statusCode: null
+    });
+  } catch (error) {
+    console.error('[audit] failed to record unredacted access', error);
+    res.status(503).json(unaudited);
+    return;
+  }
+
+  next();
+};
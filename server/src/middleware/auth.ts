@@ -1,24 +1,60 @@
 import type { RequestHandler } from 'express';
+import { createIdTokenVerifier } from '../auth/idToken';
+import { createFileKeySource, createRemoteKeySource } from '../auth/keySources';
 import { config } from '../config';
+import type { AuthUser, UserRole } from '../types';
 
-interface GoogleTokenInfo {
-  aud: string;
-  email?: string;
-  email_verified?: string;
-  name?: string;
-  picture?: string;
-}
+const verifyGoogleIdToken = createIdTokenVerifier({
+  keySource: config.auth.jwksFile
+    ? createFileKeySource(config.auth.jwksFile)
+    : createRemoteKeySource(config.auth.jwksUrl),
+  audience: config.auth.googleClientId,
+  issuers: config.auth.issuers,
+  cacheTtlMs: config.auth.tokenCacheSeconds * 1000
+});
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  reviewer: 1,
+  admin: 2
+};
+
+export const hasRole = (user: AuthUser | undefined, role: UserRole): boolean =>
+  Boolean(user && ROLE_RANK[user.role] >= ROLE_RANK[role]);
 
-const verifyGoogleIdToken = async (token: string): Promise<GoogleTokenInfo> => {
-  const response = await fetch(
-    `https://oauth2.googleapis.com/tokeninfo?id_token=${encodeURIComponent(token)}`
+const isAccessRestricted =
+  config.auth.allowedDomains.length > 0 || config.auth.allowedEmails.length > 0;
+
+if (!isAccessRestricted) {
+  console.warn(
+    '[auth] AUTH_ALLOWED_DOMAINS and AUTH_ALLOWED_EMAILS are empty; any verified Google account can sign in.'
   );
+}
+
+/**
+ * Maps an email to its role, or `null` when the account is not allowed to sign in. Accounts
+ * listed as admins or reviewers are implicitly allowed even outside the allowed domains.
+ */
+const resolveRole = (email: string): UserRole | null => {
+  if (config.auth.adminEmails.includes(email)) {
+    return 'admin';
+  }
+
+  if (config.auth.reviewerEmails.includes(email)) {
+    return 'reviewer';
+  }
 
-  if (!response.ok) {
-    throw new Error(`Token validation failed with status ${response.status}`);
+  if (!isAccessRestricted) {
+    return config.auth.defaultRole;
   }
 
-  return (await response.json()) as GoogleTokenInfo;
+  const domain = email.slice(email.lastIndexOf('@') + 1);
+
+  if (config.auth.allowedEmails.includes(email) || config.auth.allowedDomains.includes(domain)) {
+    return config.auth.defaultRole;
+  }
+
+  return null;
 };
 
 export const requireAuth: RequestHandler = async (req, res, next) => {
@@ -38,27 +74,26 @@ export const requireAuth: RequestHandler = async (req, res, next) => {
     }
 
     const payload = await verifyGoogleIdToken(token);
-
-    if (payload.aud !== config.auth.googleClientId) {
-      throw new Error('Audience mismatch');
-    }
-
-    if (payload.email_verified !== 'true') {
-      throw new Error('Email is not verified');
-    }
-
     const email = payload.email?.toLowerCase();
 
     if (!email) {
       throw new Error('Email is missing');
     }
 
-    (req as typeof req & { authUser?: { email: string; name?: string; picture?: string } }).authUser =
-      {
-        email,
-        name: payload.name,
-        picture: payload.picture
-      };
+    const role = resolveRole(email);
+
+    if (!role) {
+      console.warn(`[auth] rejected sign-in from non-approved account ${email}`);
+      res.status(403).json({ error: 'This account is not approved to access chats.' });
+      return;
+    }
+
+    req.authUser = {
+      email,
+      name: payload.name,
+      picture: payload.picture,
+      role
+    };
 
     next();
   } catch (error) {
@@ -66,3 +101,14 @@ export const requireAuth: RequestHandler = async (req, res, next) => {
     res.status(401).json({ error: 'Unauthorized' });
   }
 };
+
+export const requireRole =
+  (role: UserRole): RequestHandler =>
+  (req, res, next) => {
+    if (!hasRole(req.authUser, role)) {
+      res.status(403).json({ error: 'Forbidden' });
+      return;
+    }
+
+    next();
+  };
@@ -0,0 +1,34 @@
+import type { Request, RequestHandler } from 'express';
+import { defaultChatSource, findChatSource, isDatabaseSource } from '../sources';
+
+/**
+ * Picks the chat source named by the `:source` route parameter, or the first configured source on
+ * the unscoped routes. Unknown ids get a 404.
+ */
+export const resolveChatSource: RequestHandler = (req, res, next) => {
+  const sourceId = req.params.source;
+  const source = sourceId === undefined ? defaultChatSource : findChatSource(sourceId);
+
+  if (!source) {
+    res.status(404).json({ error: `Unknown chat source "${sourceId}".` });
+    return;
+  }
+
+  req.chatSource = source;
+  next();
+};
+
+export const chatSourceFor = (req: Request) => req.chatSource ?? defaultChatSource;
+
+/**
+ * Guards routes that store reviewer data in Postgres (notes, tags, labels, the audit log),
+ * answering 501 while the source reads chats from a read-only fixture file.
+ */
+export const requireDatabase: RequestHandler = (req, res, next) => {
+  if (!isDatabaseSource(chatSourceFor(req))) {
+    res.status(501).json({ error: 'This endpoint needs a Postgres chat source.' });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,39 @@
+import type { Request, RequestHandler } from 'express';
+import { config } from '../config';
+import { defaultRedactor, passthroughRedactor } from '../redaction';
+import { isDatabaseSource } from '../sources';
+import { auditUnredactedAccess } from './audit';
+import { hasRole } from './auth';
+import { chatSourceFor } from './chatSource';
+
+const isUnredactedRequested = (value: unknown) =>
+  typeof value === 'string' && ['1', 'true', 'yes', 'on'].includes(value.trim().toLowerCase());
+
+/**
+ * Honors `unredacted=true` for users with the configured role, rejecting it with 403 for
+ * everyone else and on fixture sources, which keep no audit log. Every granted request gets its
+ * own `unredacted` audit entry, written before the data is read, on top of the route's regular one.
+ */
+export const redactionPolicy: RequestHandler = (req, res, next) => {
+  if (!config.redaction.enabled || !isUnredactedRequested(req.query.unredacted)) {
+    next();
+    return;
+  }
+
+  const { unredactedRole } = config.redaction;
+
+  if (!hasRole(req.authUser, unredactedRole)) {
+    res.status(403).json({ error: `Unredacted data requires the ${unredactedRole} role.` });
+    return;
+  }
+
+  if (!isDatabaseSource(chatSourceFor(req))) {
+    res.status(403).json({ error: 'Unredacted data needs a chat source with an audit log.' });
+    return;
+  }
+
+  req.redactor = passthroughRedactor;
+  auditUnredactedAccess(req, res, next);
+};
+
+export const redactorFor = (req: Request) => req.redactor ?? defaultRedactor;
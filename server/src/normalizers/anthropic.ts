@@ -0,0 +1,35 @@
+import { isRecord, readContent } from './content';
+import type { PayloadNormalizer } from './registry';
+
+const ANTHROPIC_BLOCK_TYPES = new Set(['tool_use', 'tool_result', 'thinking', 'redacted_thinking']);
+
+const isAnthropicBlock = (block: unknown) =>
+  isRecord(block) &&
+  (ANTHROPIC_BLOCK_TYPES.has(String(block.type)) ||
+    ((block.type === 'image' || block.type === 'document') && isRecord(block.source)));
+
+/**
+ * Anthropic Messages API turns: `{ role: 'user' | 'assistant', content: [blocks] }`, or a whole
+ * API response (`type: 'message'`).
+ */
+export const anthropicNormalizer: PayloadNormalizer = {
+  format: 'anthropic',
+  detect: (payload) =>
+    (payload.type === 'message' && payload.role === 'assistant') ||
+    ((payload.role === 'user' || payload.role === 'assistant') &&
+      Array.isArray(payload.content) &&
+      payload.content.some(isAnthropicBlock)),
+  normalize: (payload) => {
+    const content = readContent(payload.content);
+    // Tool results travel in user turns; a turn holding nothing else is shown as a tool message.
+    const onlyToolResults =
+      content.toolResults.length > 0 &&
+      content.parts.length === 0 &&
+      content.attachments.length === 0;
+
+    return {
+      role: payload.role === 'assistant' ? 'ai' : onlyToolResults ? 'tool' : 'human',
+      ...content
+    };
+  }
+};
@@ -0,0 +1,254 @@
+import type {
+  MessageAttachment,
+  MessageTextPart,
+  MessageToolCall,
+  MessageToolResult,
+  MessageView
+} from '../types';
+
+export type NormalizedContent = Pick<
+  MessageView,
+  'parts' | 'toolCalls' | 'toolResults' | 'attachments'
+>;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+export const readString = (value: unknown) =>
+  typeof value === 'string' && value ? value : undefined;
+
+/** Tool call arguments are stored as JSON strings by OpenAI and as objects by LangChain. */
+export const parseArgs = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return value ?? {};
+  }
+
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Reads LangChain (`{ id, name, args }`) and OpenAI (`{ id, function: { name, arguments } }`)
+ * tool call entries.
+ */
+export const toToolCall = (entry: unknown, invalid = false): MessageToolCall | null => {
+  if (!isRecord(entry)) {
+    return null;
+  }
+
+  const fn = isRecord(entry.function) ? entry.function : undefined;
+  const error = readString(entry.error);
+
+  return {
+    id: readString(entry.id) ?? null,
+    name: readString(entry.name) ?? readString(fn?.name) ?? 'unknown tool',
+    args: parseArgs(entry.args ?? fn?.arguments),
+    invalid,
+    ...(error ? { error } : {})
+  };
+};
+
+export const toToolCalls = (entries: unknown, invalid = false) =>
+  (Array.isArray(entries) ? entries : [])
+    .map((entry) => toToolCall(entry, invalid))
+    .filter((call): call is MessageToolCall => call !== null);
+
+export interface InlineMedia {
+  base64: string;
+  mimeType?: string;
+}
+
+const DATA_URL = /^data:([^;,]*)((?:;[^;,]*)*),/;
+
+/** Splits a `data:` URL into its MIME type and base64 body; percent-encoded bodies are re-encoded. */
+const parseDataUrl = (url: string): InlineMedia | undefined => {
+  const match = DATA_URL.exec(url);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const body = url.slice(match[0].length);
+  const mimeType = match[1] || undefined;
+
+  if (match[2].split(';').includes('base64')) {
+    return { base64: body, mimeType };
+  }
+
+  try {
+    return { base64: Buffer.from(decodeURIComponent(body)).toString('base64'), mimeType };
+  } catch {
+    return undefined;
+  }
+};
+
+const base64Size = (base64: string) => {
+  const compact = base64.replace(/\s/g, '');
+  const padding = compact.endsWith('==') ? 2 : compact.endsWith('=') ? 1 : 0;
+  return Math.max(Math.floor((compact.length * 3) / 4) - padding, 0);
+};
+
+/** Keeps http(s) URLs only: data URLs stay in the payload and other schemes are dropped. */
+const remoteUrl = (url: string | undefined) => (url && /^https?:\/\//i.test(url) ? url : undefined);
+
+const imageUrlOf = (item: Record<string, unknown>) =>
+  isRecord(item.image_url) ? readString(item.image_url.url) : readString(item.image_url);
+
+/**
+ * The media a content part embeds: a data URL (`image_url`, `url`, `file.file_data`) or a base64
+ * `data` field (`input_audio`, Anthropic `source`, LangChain standard blocks).
+ */
+export const inlineMediaOf = (item: unknown): InlineMedia | undefined => {
+  if (!isRecord(item)) {
+    return undefined;
+  }
+
+  const source = isRecord(item.source) ? item.source : item;
+  const audio = isRecord(item.input_audio) ? item.input_audio : undefined;
+  const fileData = isRecord(item.file) ? readString(item.file.file_data) : undefined;
+  const dataUrl = [imageUrlOf(item), readString(source.url), fileData].find((value) =>
+    value?.startsWith('data:')
+  );
+
+  if (dataUrl) {
+    return parseDataUrl(dataUrl);
+  }
+
+  const base64 = readString(audio?.data) ?? fileData ?? readString(source.data);
+  const format = readString(audio?.format);
+
+  return base64
+    ? {
+        base64,
+        mimeType:
+          readString(source.media_type) ??
+          readString(item.mime_type) ??
+          (format ? `audio/${format}` : undefined)
+      }
+    : undefined;
+};
+
+const ATTACHMENT_KINDS: Record<string, MessageAttachment['kind']> = {
+  image_url: 'image',
+  image: 'image',
+  input_audio: 'audio',
+  audio: 'audio',
+  file: 'file',
+  document: 'file'
+};
+
+/**
+ * Reads one media part: OpenAI `image_url` / `input_audio` / `file`, Anthropic `image` /
+ * `document` with a `source`, and LangChain standard blocks with `source_type`.
+ */
+const toAttachment = (item: Record<string, unknown>, part: number): MessageAttachment | null => {
+  const kind = ATTACHMENT_KINDS[String(item.type)];
+
+  if (!kind) {
+    return null;
+  }
+
+  const source = isRecord(item.source) ? item.source : item;
+  const inline = inlineMediaOf(item);
+  const url = remoteUrl(imageUrlOf(item) ?? readString(source.url));
+  const mimeType = readString(source.media_type) ?? readString(item.mime_type) ?? inline?.mimeType;
+  const name =
+    (isRecord(item.file) ? readString(item.file.filename) : undefined) ??
+    readString(item.title) ??
+    readString(item.filename);
+
+  return {
+    kind,
+    part,
+    inline: inline !== undefined,
+    ...(mimeType ? { mimeType } : {}),
+    ...(name ? { name } : {}),
+    ...(inline ? { size: base64Size(inline.base64) } : {}),
+    ...(url ? { url } : {})
+  };
+};
+
+/**
+ * Splits message content into text parts, attachments, Anthropic `tool_use` / `tool_result`
+ * blocks and `thinking` blocks. Parts nothing recognises are kept as pretty-printed JSON so no
+ * content silently disappears.
+ */
+export const readContent = (content: unknown): NormalizedContent => {
+  const parts: MessageTextPart[] = [];
+  const toolCalls: MessageToolCall[] = [];
+  const toolResults: MessageToolResult[] = [];
+  const attachments: MessageAttachment[] = [];
+
+  if (content == null) {
+    return { parts, toolCalls, toolResults, attachments };
+  }
+
+  if (!Array.isArray(content)) {
+    const text = typeof content === 'string' ? content : JSON.stringify(content, null, 2);
+    return { parts: text ? [{ kind: 'text', text }] : [], toolCalls, toolResults, attachments };
+  }
+
+  content.forEach((item, index) => {
+    if (typeof item === 'string') {
+      parts.push({ kind: 'text', text: item });
+      return;
+    }
+
+    if (!isRecord(item)) {
+      parts.push({ kind: 'text', text: JSON.stringify(item, null, 2) });
+      return;
+    }
+
+    if (item.type === 'thinking' && typeof item.thinking === 'string') {
+      parts.push({ kind: 'thinking', text: item.thinking });
+      return;
+    }
+
+    if (item.type === 'redacted_thinking') {
+      parts.push({ kind: 'thinking', text: '[redacted thinking]' });
+      return;
+    }
+
+    if (item.type === 'tool_use') {
+      toolCalls.push({
+        id: readString(item.id) ?? null,
+        name: readString(item.name) ?? 'unknown tool',
+        args: item.input ?? {},
+        invalid: false
+      });
+      return;
+    }
+
+    if (item.type === 'tool_result') {
+      toolResults.push({
+        callId: readString(item.tool_use_id) ?? null,
+        content: contentText(item.content),
+        isError: item.is_error === true
+      });
+      return;
+    }
+
+    const media = toAttachment(item, index);
+
+    if (media) {
+      attachments.push(media);
+      return;
+    }
+
+    parts.push({
+      kind: 'text',
+      text: typeof item.text === 'string' ? item.text : JSON.stringify(item, null, 2)
+    });
+  });
+
+  return { parts, toolCalls, toolResults, attachments };
+};
+
+/** Flattens tool result content, which may itself be a string or a list of text parts. */
+export const contentText = (content: unknown) =>
+  readContent(content)
+    .parts.map((part) => part.text)
+    .join('\n\n');
@@ -0,0 +1,55 @@
+import { contentText, isRecord, readContent, readString, toToolCalls } from './content';
+import type { PayloadNormalizer } from './registry';
+
+const MESSAGE_TYPES = new Set(['human', 'ai', 'system', 'tool', 'function', 'chat']);
+
+/**
+ * LangChain message dicts: `{ type, content, tool_calls, invalid_tool_calls, additional_kwargs }`.
+ * Chat models that answer in content blocks (e.g. Anthropic) also keep `tool_use` blocks in
+ * `content`; those repeat `tool_calls` and are only added when their id is new.
+ */
+export const langchainNormalizer: PayloadNormalizer = {
+  format: 'langchain',
+  detect: (payload) => typeof payload.type === 'string' && MESSAGE_TYPES.has(payload.type),
+  normalize: (payload) => {
+    const type = String(payload.type);
+    const name = readString(payload.name);
+    const content = readContent(payload.content);
+
+    if (type === 'tool' || type === 'function') {
+      return {
+        role: 'tool',
+        ...(name ? { name } : {}),
+        parts: [],
+        toolCalls: [],
+        toolResults: [
+          {
+            callId: readString(payload.tool_call_id) ?? null,
+            ...(name ? { name } : {}),
+            content: contentText(payload.content),
+            isError: payload.status === 'error'
+          }
+        ],
+        attachments: content.attachments
+      };
+    }
+
+    const kwargs = isRecord(payload.additional_kwargs) ? payload.additional_kwargs : {};
+    const declaredCalls = toToolCalls(payload.tool_calls);
+    const validCalls = declaredCalls.length > 0 ? declaredCalls : toToolCalls(kwargs.tool_calls);
+    const knownIds = new Set(validCalls.map((call) => call.id));
+
+    return {
+      role: type === 'chat' ? (readString(payload.role) ?? 'chat') : type,
+      ...(name ? { name } : {}),
+      parts: content.parts,
+      toolCalls: [
+        ...validCalls,
+        ...content.toolCalls.filter((call) => !knownIds.has(call.id)),
+        ...toToolCalls(payload.invalid_tool_calls, true)
+      ],
+      toolResults: content.toolResults,
+      attachments: content.attachments
+    };
+  }
+};
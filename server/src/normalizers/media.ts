@@ -0,0 +1,56 @@
+import type { ChatMessage, ChatMessagePayload } from '../types';
+import { inlineMediaOf, isRecord } from './content';
+
+// Shorter strings are left alone; they cannot hold media worth keeping out of a response.
+const ELIDE_MIN_LENGTH = 256;
+const BASE64_TEXT = /^[A-Za-z0-9+/=_\s-]+$/;
+
+/** The decoded media embedded in one content part of a payload. */
+export const readInlineMedia = (payload: ChatMessagePayload, part: number) => {
+  const { content } = payload;
+  const media = Array.isArray(content) ? inlineMediaOf(content[part]) : undefined;
+
+  return media && { mimeType: media.mimeType, data: Buffer.from(media.base64, 'base64') };
+};
+
+const elideValue = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return value.length >= ELIDE_MIN_LENGTH &&
+      (value.startsWith('data:') || BASE64_TEXT.test(value))
+      ? `[inline data, ${value.length.toLocaleString('en-US')} characters]`
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(elideValue);
+  }
+
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, elideValue(item)]));
+  }
+
+  return value;
+};
+
+/**
+ * Swaps the embedded data of inline media parts for a short placeholder so message responses stay
+ * small; clients load the media from the media endpoint instead. The view is left as it was.
+ */
+export const elideInlineMedia = (message: ChatMessage): ChatMessage => {
+  const { content } = message.payload;
+  const inlineParts = new Set(
+    message.view.attachments.filter((item) => item.inline).map((item) => item.part)
+  );
+
+  if (inlineParts.size === 0 || !Array.isArray(content)) {
+    return message;
+  }
+
+  return {
+    ...message,
+    payload: {
+      ...message.payload,
+      content: content.map((item, index) => (inlineParts.has(index) ? elideValue(item) : item))
+    }
+  };
+};
@@ -0,0 +1,57 @@
+import { contentText, isRecord, readContent, readString, toToolCall, toToolCalls } from './content';
+import type { PayloadNormalizer } from './registry';
+
+const ROLES: Record<string, string> = {
+  user: 'human',
+  assistant: 'ai',
+  system: 'system',
+  developer: 'system',
+  tool: 'tool',
+  function: 'tool'
+};
+
+/**
+ * OpenAI chat completion messages: `{ role, content, tool_calls }`, tool results as
+ * `{ role: 'tool', tool_call_id, content }`, plus the older `function_call` / `role: 'function'`.
+ */
+export const openaiNormalizer: PayloadNormalizer = {
+  format: 'openai',
+  detect: (payload) => typeof payload.role === 'string' && payload.role in ROLES,
+  normalize: (payload) => {
+    const role = ROLES[String(payload.role)];
+    const name = readString(payload.name);
+    const content = readContent(payload.content);
+
+    if (role === 'tool') {
+      return {
+        role,
+        ...(name ? { name } : {}),
+        parts: [],
+        toolCalls: [],
+        toolResults: [
+          {
+            callId: readString(payload.tool_call_id) ?? null,
+            ...(name ? { name } : {}),
+            content: contentText(payload.content),
+            isError: false
+          }
+        ],
+        attachments: content.attachments
+      };
+    }
+
+    const functionCall = isRecord(payload.function_call)
+      ? toToolCall({ function: payload.function_call })
+      : null;
+    const refusal = readString(payload.refusal);
+
+    return {
+      role,
+      ...(name ? { name } : {}),
+      parts: [...content.parts, ...(refusal ? [{ kind: 'text' as const, text: refusal }] : [])],
+      toolCalls: [...toToolCalls(payload.tool_calls), ...(functionCall ? [functionCall] : [])],
+      toolResults: content.toolResults,
+      attachments: content.attachments
+    };
+  }
+};
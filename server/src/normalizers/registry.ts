@@ -0,0 +1,41 @@
+import type { ChatMessagePayload, MessageView, PayloadFormat } from '../types';
+import { anthropicNormalizer } from './anthropic';
+import { isRecord, readContent, readString, toToolCalls } from './content';
+import { langchainNormalizer } from './langchain';
+import { openaiNormalizer } from './openai';
+
+export interface PayloadNormalizer {
+  format: PayloadFormat;
+  /** Whether the payload is in this normalizer's format; the first match wins. */
+  detect: (payload: Record<string, unknown>) => boolean;
+  normalize: (payload: Record<string, unknown>) => Omit<MessageView, 'format'>;
+}
+
+// Anthropic is tried before OpenAI: both use `role`, but only Anthropic has content blocks such as
+// `tool_use`, and a plain text message reads the same either way.
+const normalizers: PayloadNormalizer[] = [
+  langchainNormalizer,
+  anthropicNormalizer,
+  openaiNormalizer
+];
+
+/** Adds a normalizer ahead of the built-in ones, for table-specific payload shapes. */
+export const registerPayloadNormalizer = (normalizer: PayloadNormalizer) => {
+  normalizers.unshift(normalizer);
+};
+
+const normalizeUnknown = (payload: Record<string, unknown>): MessageView => ({
+  format: 'unknown',
+  role: readString(payload.type) ?? readString(payload.role) ?? 'unknown',
+  ...readContent(payload.content),
+  toolCalls: toToolCalls(payload.tool_calls)
+});
+
+export const normalizeMessagePayload = (payload: ChatMessagePayload): MessageView => {
+  const record: Record<string, unknown> = isRecord(payload) ? payload : {};
+  const normalizer = normalizers.find((candidate) => candidate.detect(record));
+
+  return normalizer
+    ? { format: normalizer.format, ...normalizer.normalize(record) }
+    : normalizeUnknown(record);
+};
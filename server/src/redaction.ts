@@ -0,0 +1,72 @@
+import { config } from './config';
+import { normalizeMessagePayload } from './normalizers/registry';
+import type { ChatMessage, ChatMessagePayload } from './types';
+
+const KEY_PATH_REPLACEMENT = '[REDACTED]';
+
+export interface Redactor {
+  text: (text: string) => string;
+  payload: (payload: ChatMessagePayload) => ChatMessagePayload;
+  message: (message: ChatMessage) => ChatMessage;
+}
+
+const redactText = (text: string) =>
+  config.redaction.patterns.reduce(
+    (current, rule) => current.replace(rule.pattern, rule.replacement),
+    text
+  );
+
+const matchesKeyPath = (path: string[]) =>
+  config.redaction.keyPaths.some(
+    (keyPath) =>
+      keyPath.length === path.length &&
+      keyPath.every((segment, index) => segment === '*' || segment === path[index])
+  );
+
+/**
+ * Values at a configured key path are replaced wholesale; every other string, however deeply
+ * nested (content parts, tool call arguments, metadata), goes through the text patterns.
+ */
+const redactValue = (value: unknown, path: string[]): unknown => {
+  if (path.length > 0 && matchesKeyPath(path)) {
+    return KEY_PATH_REPLACEMENT;
+  }
+
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => redactValue(item, [...path, String(index)]));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, [...path, key])])
+    );
+  }
+
+  return value;
+};
+
+const redactPayload = (payload: ChatMessagePayload) =>
+  redactValue(payload, []) as ChatMessagePayload;
+
+export const redactingRedactor: Redactor = {
+  text: redactText,
+  payload: redactPayload,
+  message: (message) => {
+    const payload = redactPayload(message.payload);
+    // The view is rebuilt from the redacted payload rather than redacted separately.
+    return { ...message, payload, view: normalizeMessagePayload(payload) };
+  }
+};
+
+export const passthroughRedactor: Redactor = {
+  text: (text) => text,
+  payload: (payload) => payload,
+  message: (message) => message
+};
+
+/** The redactor for responses when the request has not been granted unredacted access. */
+export const defaultRedactor = config.redaction.enabled ? redactingRedactor : passthroughRedactor;
@@ -0,0 +1,144 @@
+import type {
+  ActivityBucket,
+  ActivityBucketSize,
+  ActivityTotals,
+  ChatFacets,
+  ChatListItem,
+  ChatMessage,
+  ChatSearchResult,
+  ChatSummary,
+  ModelUsage,
+  TagCount
+} from '../types';
+
+export type ListDateField = 'lastMessageAt' | 'firstMessageAt';
+
+export interface ListDateRange {
+  field: ListDateField;
+  from?: Date;
+  to?: Date;
+}
+
+export interface SessionFilters {
+  search?: string;
+  classificationIds: string[];
+  excludedClassificationIds: string[];
+  types: string[];
+  tags: string[];
+  dateRange: ListDateRange;
+}
+
+export interface SessionListQuery {
+  filters: SessionFilters;
+  /** Restricts the list to these sessions, e.g. the ones a live update touched. */
+  sessionIds?: string[];
+  /** Continues after the session with this last activity (and id, to break ties). */
+  cursor?: { lastMessageAt: Date; sessionId?: string };
+  limit?: number;
+}
+
+/** Position of a message in its session's `(createdAt, id)` order. */
+export interface MessageCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface MessagePageQuery {
+  sessionId: string;
+  direction: 'older' | 'newer';
+  limit: number;
+  cursor?: MessageCursor;
+  /** Include the message at `cursor` itself (only for `newer`). */
+  inclusive?: boolean;
+}
+
+export interface MessagePage {
+  /** Chronological, whatever the direction of travel. */
+  entries: Array<{ message: ChatMessage; cursor: MessageCursor }>;
+  /** Whether further messages exist beyond the page in the direction of travel. */
+  hasMore: boolean;
+}
+
+export interface ContentSearchQuery {
+  text: string;
+  limit: number;
+  matchesPerSession: number;
+  classificationIds: string[];
+  excludedClassificationIds: string[];
+  types: string[];
+}
+
+export interface ActivityQuery {
+  from: Date;
+  to: Date;
+  bucket: ActivityBucketSize;
+}
+
+/** Session and message counts of an activity range; routes add the averages. */
+export type ActivityCount = Omit<ActivityTotals, 'avgMessagesPerSession'>;
+
+/** Sessions active in the range, overall and per bucket (every bucket, including empty ones). */
+export interface ActivityCounts {
+  totals: ActivityCount;
+  series: Array<ActivityCount & Pick<ActivityBucket, 'bucket'>>;
+}
+
+/** Token counts of one model's messages; routes add the estimated cost. */
+export type ModelTokenCounts = Omit<ModelUsage, 'estimatedCost'>;
+
+export interface ExportTotals {
+  sessionCount: number;
+  messageCount: number;
+}
+
+/** A message of a bulk export together with the session it belongs to. */
+export interface ExportedMessage {
+  message: ChatMessage;
+  session: { messageCount: number; lastMessageAt: string | null; classifications: string[] };
+}
+
+/** A message with up to the requested number of neighbours on each side, chronological. */
+export interface MessageContext {
+  message: ChatMessage;
+  before: ChatMessage[];
+  after: ChatMessage[];
+}
+
+/**
+ * Read access to stored chats. Results are unredacted; routes apply the request's redactor.
+ */
+export interface ChatRepository {
+  /** Sessions matching the filters, most recently active first. */
+  listSessions(query: SessionListQuery): Promise<ChatListItem[]>;
+  getSessionSummary(sessionId: string): Promise<ChatSummary | undefined>;
+  /** Summaries of the `limit` most recently active sessions whose id starts with `prefix`. */
+  findSessionSummaries(prefix: string, limit: number): Promise<ChatSummary[]>;
+  countMessages(sessionId: string): Promise<number>;
+  getMessagePage(query: MessagePageQuery): Promise<MessagePage>;
+  findMessageCursor(sessionId: string, messageId: string): Promise<MessageCursor | undefined>;
+  /** The given messages of one session, in chronological order; unknown ids are skipped. */
+  getMessages(sessionId: string, messageIds: string[]): Promise<ChatMessage[]>;
+  getSessionMessages(sessionId: string): Promise<ChatMessage[]>;
+  /** Full-text search over message content, best matching sessions first. */
+  searchMessages(query: ContentSearchQuery): Promise<ChatSearchResult[]>;
+  /**
+   * Session counts per visitor type, classification and tag under the filters, with at most
+   * `valueLimit` types and tags.
+   */
+  getFacets(filters: SessionFilters, valueLimit: number): Promise<ChatFacets>;
+  /** Every tag in use with its session count, most used first. */
+  listTagCounts(): Promise<TagCount[]>;
+  getActivity(query: ActivityQuery): Promise<ActivityCounts>;
+  /** Token usage of messages created in `[from, to)`, per UTC day and model. */
+  getDailyUsage(from: Date, to: Date): Promise<Array<ModelTokenCounts & { day: string }>>;
+  /** Token usage per model, most tokens first. */
+  getSessionUsage(sessionId: string): Promise<ModelTokenCounts[]>;
+  countExport(filters: SessionFilters): Promise<ExportTotals>;
+  /**
+   * Messages of the sessions matching the filters in batches, sessions in list order and each
+   * session's messages in chronological order. Stopping the iteration early releases the query.
+   */
+  exportMessages(filters: SessionFilters): AsyncIterable<ExportedMessage[]>;
+  /** Context around each of the given messages, keyed by message id; unknown ids are skipped. */
+  getMessageContext(messageIds: string[], size: number): Promise<Map<string, MessageContext>>;
+}
@@ -0,0 +1,729 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { normalizeTag } from '../annotations';
+import {
+  listClassifications,
+  sessionClassificationIds,
+  toClassificationCounts
+} from '../classification';
+import { normalizeMessagePayload } from '../normalizers/registry';
+import type {
+  ActivityBucketSize,
+  ChatListItem,
+  ChatMessage,
+  ChatMessagePayload,
+  ChatSearchHighlight,
+  ChatSearchResult,
+  ChatSummary,
+  TagCount
+} from '../types';
+import { messageUsage } from '../usage';
+import type {
+  ActivityCount,
+  ChatRepository,
+  MessageContext,
+  MessageCursor,
+  ModelTokenCounts,
+  SessionFilters,
+  SessionListQuery
+} from './chatRepository';
+
+interface FixtureSession {
+  sessionId: string;
+  /** Sorted by `(createdAt, id)`. */
+  messages: ChatMessage[];
+  visitorSettings: Record<string, unknown>;
+  classifications: string[];
+  tags: string[];
+  firstMessageAt: string;
+  lastMessageAt: string;
+}
+
+interface FixtureData {
+  /** Most recently active first, ties broken by descending session id like the Postgres list. */
+  sessions: FixtureSession[];
+  sessionsById: Map<string, FixtureSession>;
+  /** Each message's session and its position in the session's messages. */
+  messagesById: Map<string, { session: FixtureSession; index: number }>;
+}
+
+const SNIPPET_CONTEXT_CHARS = 80;
+const SNIPPET_MAX_CHARS = 240;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readId = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+
+const readTimestamp = (value: unknown) => {
+  const parsed = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  return parsed && !Number.isNaN(parsed.getTime()) ? parsed.toISOString() : undefined;
+};
+
+// Numeric ids compare as numbers, matching the order of a bigint primary key.
+const compareIds = (a: string, b: string) => {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b) && a.length !== b.length) {
+    return a.length - b.length;
+  }
+
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const compareToCursor = (message: ChatMessage, cursor: MessageCursor) => {
+  const timeDifference = Date.parse(message.createdAt) - Date.parse(cursor.createdAt);
+  return timeDifference !== 0 ? timeDifference : compareIds(message.id, cursor.id);
+};
+
+const toCursor = (message: ChatMessage): MessageCursor => ({
+  createdAt: message.createdAt,
+  id: message.id
+});
+
+/**
+ * Mirrors the `chat_message_text` SQL function: string content as-is, arrays of parts
+ * joined by their `text` fields.
+ */
+const messageText = (payload: ChatMessagePayload) => {
+  const { content } = payload as { content?: unknown };
+
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  if (!Array.isArray(content)) {
+    return null;
+  }
+
+  return content
+    .map((part) => (typeof part === 'string' ? part : isRecord(part) ? part.text : undefined))
+    .filter((text): text is string => typeof text === 'string')
+    .join('\n\n');
+};
+
+const previewOf = (payload: ChatMessagePayload) => {
+  const { content } = payload as { content?: unknown };
+
+  if (content === undefined || content === null) {
+    return null;
+  }
+
+  return typeof content === 'string' ? content : JSON.stringify(content);
+};
+
+interface SessionDraft {
+  messages: ChatMessage[];
+  visitorSettings: Record<string, unknown>;
+  tags: Set<string>;
+}
+
+/**
+ * Accepts one record per message (`{id, sessionId, createdAt, payload}`, as in database dumps and
+ * message-level bulk exports, snake_case and `message` for the payload also work) or one per
+ * session (`{sessionId, messages: [...]}`, as in session-level bulk exports). Either may carry
+ * `visitorSettings` and `tags`, which are merged per session.
+ */
+const addRecord = (drafts: Map<string, SessionDraft>, record: unknown, location: string) => {
+  const fields = isRecord(record) ? record : {};
+  const sessionId = readId(fields.sessionId ?? fields.session_id);
+
+  if (!sessionId) {
+    throw new Error(`${location}: expected an object with a sessionId.`);
+  }
+
+  let draft = drafts.get(sessionId);
+
+  if (!draft) {
+    draft = { messages: [], visitorSettings: {}, tags: new Set() };
+    drafts.set(sessionId, draft);
+  }
+
+  const visitorSettings = fields.visitorSettings ?? fields.visitor_settings;
+
+  if (isRecord(visitorSettings)) {
+    Object.assign(draft.visitorSettings, visitorSettings);
+  }
+
+  if (Array.isArray(fields.tags)) {
+    for (const tag of fields.tags.map(normalizeTag)) {
+      if (tag) {
+        draft.tags.add(tag);
+      }
+    }
+  }
+
+  const messages = Array.isArray(fields.messages)
+    ? fields.messages
+    : 'id' in fields
+      ? [fields]
+      : [];
+
+  for (const message of messages) {
+    const messageFields = isRecord(message) ? message : {};
+    const id = readId(messageFields.id);
+    const createdAt = readTimestamp(messageFields.createdAt ?? messageFields.created_at);
+    const payload = messageFields.payload ?? messageFields.message;
+
+    if (!id || !createdAt || !isRecord(payload)) {
+      throw new Error(`${location}: messages need an id, a createdAt date and a payload object.`);
+    }
+
+    draft.messages.push({
+      id,
+      sessionId,
+      createdAt,
+      payload: payload as ChatMessagePayload,
+      view: normalizeMessagePayload(payload as ChatMessagePayload)
+    });
+  }
+};
+
+const parseRecords = (filePath: string, contents: string) => {
+  if (path.extname(filePath).toLowerCase() === '.json') {
+    const parsed: unknown = JSON.parse(contents);
+
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${filePath}: expected a JSON array of messages or sessions.`);
+    }
+
+    return parsed.map((record, index) => ({ record, location: `${filePath}[${index}]` }));
+  }
+
+  return contents.split('\n').flatMap((line, index) => {
+    const location = `${filePath}:${index + 1}`;
+
+    if (!line.trim()) {
+      return [];
+    }
+
+    try {
+      return [{ record: JSON.parse(line) as unknown, location }];
+    } catch {
+      throw new Error(`${location}: invalid JSON.`);
+    }
+  });
+};
+
+const readFixture = async (filePath: string): Promise<FixtureData> => {
+  const drafts = new Map<string, SessionDraft>();
+
+  for (const { record, location } of parseRecords(filePath, await readFile(filePath, 'utf8'))) {
+    addRecord(drafts, record, location);
+  }
+
+  const sessions: FixtureSession[] = [];
+
+  for (const [sessionId, draft] of drafts) {
+    if (draft.messages.length === 0) {
+      continue;
+    }
+
+    const messages = draft.messages.sort(
+      (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt) || compareIds(a.id, b.id)
+    );
+
+    sessions.push({
+      sessionId,
+      messages,
+      visitorSettings: draft.visitorSettings,
+      classifications: sessionClassificationIds(sessionId, draft.visitorSettings),
+      tags: [...draft.tags].sort(),
+      firstMessageAt: messages[0].createdAt,
+      lastMessageAt: messages[messages.length - 1].createdAt
+    });
+  }
+
+  sessions.sort(
+    (a, b) =>
+      Date.parse(b.lastMessageAt) - Date.parse(a.lastMessageAt) ||
+      compareIds(b.sessionId, a.sessionId)
+  );
+
+  return {
+    sessions,
+    sessionsById: new Map(sessions.map((session) => [session.sessionId, session])),
+    messagesById: new Map(
+      sessions.flatMap((session) =>
+        session.messages.map((message, index) => [message.id, { session, index }] as const)
+      )
+    )
+  };
+};
+
+const startsWithIgnoringCase = (value: string, prefix: string) =>
+  value.toLowerCase().startsWith(prefix.toLowerCase());
+
+const matchesClassifications = (
+  session: FixtureSession,
+  classificationIds: string[],
+  excludedClassificationIds: string[]
+) =>
+  classificationIds.every((id) => session.classifications.includes(id)) &&
+  !excludedClassificationIds.some((id) => session.classifications.includes(id));
+
+const matchesType = (session: FixtureSession, types: string[]) =>
+  types.length === 0 || types.includes(String(session.visitorSettings.type ?? ''));
+
+const matchesFilters = (session: FixtureSession, filters: SessionFilters) => {
+  const { field, from, to } = filters.dateRange;
+  const time = Date.parse(
+    field === 'firstMessageAt' ? session.firstMessageAt : session.lastMessageAt
+  );
+
+  return (
+    (!filters.search || startsWithIgnoringCase(session.sessionId, filters.search)) &&
+    matchesClassifications(session, filters.classificationIds, filters.excludedClassificationIds) &&
+    matchesType(session, filters.types) &&
+    filters.tags.every((tag) => session.tags.includes(tag)) &&
+    (!from || time >= from.getTime()) &&
+    (!to || time < to.getTime())
+  );
+};
+
+const isAfterListCursor = (
+  session: FixtureSession,
+  cursor: NonNullable<SessionListQuery['cursor']>
+) => {
+  const difference = Date.parse(session.lastMessageAt) - cursor.lastMessageAt.getTime();
+
+  if (difference !== 0 || !cursor.sessionId) {
+    return difference < 0;
+  }
+
+  return compareIds(session.sessionId, cursor.sessionId) < 0;
+};
+
+const toListItem = (session: FixtureSession): ChatListItem => ({
+  sessionId: session.sessionId,
+  lastMessageAt: session.lastMessageAt,
+  messageCount: session.messages.length,
+  classifications: session.classifications,
+  tags: session.tags
+});
+
+const toSummary = (session: FixtureSession): ChatSummary => {
+  const lastMessage = session.messages[session.messages.length - 1];
+  const { type } = lastMessage.payload as { type?: unknown };
+
+  return {
+    sessionId: session.sessionId,
+    lastMessagePreview: previewOf(lastMessage.payload),
+    lastMessageType: typeof type === 'string' ? type : null,
+    lastMessageAt: session.lastMessageAt,
+    messageCount: session.messages.length,
+    classifications: session.classifications
+  };
+};
+
+/** Counts each value once per session, most frequent first and ties in value order. */
+const countPerSession = (
+  sessions: FixtureSession[],
+  valuesOf: (session: FixtureSession) => string[]
+) => {
+  const counts = new Map<string, number>();
+
+  for (const session of sessions) {
+    for (const value of new Set(valuesOf(session))) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  return [...counts].sort(([a, aCount], [b, bCount]) => bCount - aCount || (a < b ? -1 : 1));
+};
+
+const toTagCounts = (counts: Array<[string, number]>): TagCount[] =>
+  counts.map(([tag, sessionCount]) => ({ tag, sessionCount }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start of the UTC day or week (weeks start on Monday, as `date_trunc` does). */
+const bucketStart = (time: number, bucket: ActivityBucketSize) => {
+  const day = Math.floor(time / DAY_MS);
+  // The epoch was a Thursday, three days after a Monday.
+  return (bucket === 'day' ? day : day - ((day + 3) % 7)) * DAY_MS;
+};
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/** Counts sessions by the number of their messages in the range, per classification. */
+const countActivity = (sessions: Array<{ session: FixtureSession; messageCount: number }>) => {
+  const counts: ActivityCount = {
+    sessionCount: sessions.length,
+    messageCount: 0,
+    classificationSessionCounts: toClassificationCounts(undefined)
+  };
+
+  for (const { session, messageCount } of sessions) {
+    counts.messageCount += messageCount;
+
+    for (const id of session.classifications) {
+      counts.classificationSessionCounts[id] += 1;
+    }
+  }
+
+  return counts;
+};
+
+/** Sums token usage per key; `SUM` in SQL likewise skips messages missing a count. */
+const addUsage = (
+  totals: Map<string, ModelTokenCounts>,
+  key: string,
+  usage: NonNullable<ReturnType<typeof messageUsage>>
+) => {
+  const entry = totals.get(key) ?? {
+    model: usage.model,
+    messageCount: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0
+  };
+
+  entry.messageCount += 1;
+  entry.promptTokens += usage.promptTokens ?? 0;
+  entry.completionTokens += usage.completionTokens ?? 0;
+  entry.totalTokens += usage.totalTokens ?? 0;
+  totals.set(key, entry);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Cuts a window of the text around its first match and highlights every term inside it, in the
+ * shape `ts_headline` results are returned in.
+ */
+const buildSnippet = (text: string, pattern: RegExp) => {
+  const firstMatch = text.search(pattern);
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(text.length, start + SNIPPET_MAX_CHARS);
+  const prefix = start > 0 ? '… ' : '';
+  const window = text.slice(start, end);
+  const highlights: ChatSearchHighlight[] = Array.from(window.matchAll(pattern), (match) => ({
+    start: prefix.length + (match.index ?? 0),
+    length: match[0].length
+  }));
+
+  return { snippet: `${prefix}${window}${end < text.length ? ' …' : ''}`, highlights };
+};
+
+/**
+ * Serves chats from a JSON array or NDJSON file, read on first use and kept in memory. Search is
+ * a case-insensitive match on every word of the query rather than Postgres full-text search.
+ */
+export const createFixtureChatRepository = (filePath: string): ChatRepository => {
+  let loading: Promise<FixtureData> | undefined;
+
+  const load = () => {
+    loading ??= readFixture(filePath).catch((error) => {
+      loading = undefined;
+      throw error;
+    });
+
+    return loading;
+  };
+
+  return {
+    listSessions: async ({ filters, sessionIds, cursor, limit }) => {
+      const { sessions } = await load();
+      const items = sessions.filter(
+        (session) =>
+          (!sessionIds || sessionIds.includes(session.sessionId)) &&
+          (!cursor || isAfterListCursor(session, cursor)) &&
+          matchesFilters(session, filters)
+      );
+
+      return items.slice(0, limit).map(toListItem);
+    },
+
+    getSessionSummary: async (sessionId) => {
+      const session = (await load()).sessionsById.get(sessionId);
+      return session ? toSummary(session) : undefined;
+    },
+
+    findSessionSummaries: async (prefix, limit) =>
+      (await load()).sessions
+        .filter((session) => startsWithIgnoringCase(session.sessionId, prefix))
+        .slice(0, limit)
+        .map(toSummary),
+
+    countMessages: async (sessionId) =>
+      (await load()).sessionsById.get(sessionId)?.messages.length ?? 0,
+
+    getMessagePage: async ({ sessionId, direction, limit, cursor, inclusive = false }) => {
+      const messages = (await load()).sessionsById.get(sessionId)?.messages ?? [];
+      let candidates = messages;
+
+      if (cursor && direction === 'older') {
+        candidates = messages.filter((message) => compareToCursor(message, cursor) < 0);
+      } else if (cursor) {
+        const minimum = inclusive ? 0 : 1;
+        candidates = messages.filter((message) => compareToCursor(message, cursor) >= minimum);
+      }
+
+      const page =
+        direction === 'older'
+          ? candidates.slice(Math.max(candidates.length - limit, 0))
+          : candidates.slice(0, limit);
+
+      return {
+        entries: page.map((message) => ({ message, cursor: toCursor(message) })),
+        hasMore: candidates.length > limit
+      };
+    },
+
+    findMessageCursor: async (sessionId, messageId) => {
+      const message = (await load()).sessionsById
+        .get(sessionId)
+        ?.messages.find((candidate) => candidate.id === messageId);
+
+      return message ? toCursor(message) : undefined;
+    },
+
+    getMessages: async (sessionId, messageIds) =>
+      ((await load()).sessionsById.get(sessionId)?.messages ?? []).filter((message) =>
+        messageIds.includes(message.id)
+      ),
+
+    getSessionMessages: async (sessionId) =>
+      (await load()).sessionsById.get(sessionId)?.messages ?? [],
+
+    searchMessages: async ({
+      text,
+      limit,
+      matchesPerSession,
+      classificationIds,
+      excludedClassificationIds,
+      types
+    }) => {
+      const terms = [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])];
+
+      if (terms.length === 0) {
+        return [];
+      }
+
+      const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+      const ranked = (await load()).sessions.flatMap((session) => {
+        if (
+          !matchesClassifications(session, classificationIds, excludedClassificationIds) ||
+          !matchesType(session, types)
+        ) {
+          return [];
+        }
+
+        const matches = session.messages.flatMap((message) => {
+          const content = messageText(message.payload);
+          const lowered = content?.toLowerCase();
+
+          if (!content || !lowered || !terms.every((term) => lowered.includes(term))) {
+            return [];
+          }
+
+          return [{ message, content, rank: content.match(pattern)?.length ?? 0 }];
+        });
+
+        return matches.length > 0 ? [{ session, matches }] : [];
+      });
+
+      const bestRank = (entry: (typeof ranked)[number]) =>
+        Math.max(...entry.matches.map((match) => match.rank));
+      const lastMatchAt = (entry: (typeof ranked)[number]) =>
+        Date.parse(entry.matches[entry.matches.length - 1].message.createdAt);
+
+      return ranked
+        .sort(
+          (a, b) =>
+            bestRank(b) - bestRank(a) ||
+            lastMatchAt(b) - lastMatchAt(a) ||
+            compareIds(b.session.sessionId, a.session.sessionId)
+        )
+        .slice(0, limit)
+        .map(({ session, matches }): ChatSearchResult => ({
+          sessionId: session.sessionId,
+          matchCount: matches.length,
+          lastMatchAt: matches[matches.length - 1].message.createdAt,
+          classifications: session.classifications,
+          matches: [...matches]
+            .sort(
+              (a, b) =>
+                b.rank - a.rank || Date.parse(b.message.createdAt) - Date.parse(a.message.createdAt)
+            )
+            .slice(0, matchesPerSession)
+            .map(({ message, content }) => {
+              const { type } = message.payload as { type?: unknown };
+
+              return {
+                messageId: message.id,
+                messageType: typeof type === 'string' ? type : null,
+                createdAt: message.createdAt,
+                ...buildSnippet(content, pattern)
+              };
+            })
+        }));
+    },
+
+    getFacets: async (filters, valueLimit) => {
+      const { sessions } = await load();
+      const matching = sessions.filter((session) => matchesFilters(session, filters));
+      const typeCandidates = sessions.filter((session) =>
+        matchesFilters(session, { ...filters, types: [] })
+      );
+
+      return {
+        sessionCount: matching.length,
+        types: countPerSession(typeCandidates, (session) => {
+          const type = String(session.visitorSettings.type ?? '');
+          return type ? [type] : [];
+        })
+          .slice(0, valueLimit)
+          .map(([value, sessionCount]) => ({ value, sessionCount })),
+        classifications: listClassifications().map((classification) => {
+          const isKept = (id: string) => id !== classification.id;
+          const candidates = sessions.filter((session) =>
+            matchesFilters(session, {
+              ...filters,
+              classificationIds: filters.classificationIds.filter(isKept),
+              excludedClassificationIds: filters.excludedClassificationIds.filter(isKept)
+            })
+          );
+          const matchingCount = candidates.filter((session) =>
+            session.classifications.includes(classification.id)
+          ).length;
+
+          return {
+            ...classification,
+            matchingCount,
+            otherCount: candidates.length - matchingCount
+          };
+        }),
+        tags: toTagCounts(countPerSession(matching, (session) => session.tags).slice(0, valueLimit))
+      };
+    },
+
+    listTagCounts: async () =>
+      toTagCounts(countPerSession((await load()).sessions, (session) => session.tags)),
+
+    getActivity: async ({ from, to, bucket }) => {
+      const buckets = new Map<number, Array<{ session: FixtureSession; messageCount: number }>>();
+      const totals: Array<{ session: FixtureSession; messageCount: number }> = [];
+      const step = bucket === 'day' ? DAY_MS : 7 * DAY_MS;
+
+      for (
+        let start = bucketStart(from.getTime(), bucket);
+        start <= bucketStart(to.getTime() - 1, bucket);
+        start += step
+      ) {
+        buckets.set(start, []);
+      }
+
+      for (const session of (await load()).sessions) {
+        const counts = new Map<number, number>();
+
+        for (const message of session.messages) {
+          const time = Date.parse(message.createdAt);
+
+          if (time >= from.getTime() && time < to.getTime()) {
+            const start = bucketStart(time, bucket);
+            counts.set(start, (counts.get(start) ?? 0) + 1);
+          }
+        }
+
+        for (const [start, messageCount] of counts) {
+          buckets.get(start)?.push({ session, messageCount });
+        }
+
+        if (counts.size > 0) {
+          const messageCount = [...counts.values()].reduce((sum, count) => sum + count, 0);
+          totals.push({ session, messageCount });
+        }
+      }
+
+      return {
+        totals: countActivity(totals),
+        series: [...buckets].map(([start, sessions]) => ({
+          bucket: toDay(start),
+          ...countActivity(sessions)
+        }))
+      };
+    },
+
+    getDailyUsage: async (from, to) => {
+      const totals = new Map<string, ModelTokenCounts>();
+
+      for (const session of (await load()).sessions) {
+        for (const message of session.messages) {
+          const time = Date.parse(message.createdAt);
+          const usage = messageUsage(message.payload);
+
+          if (usage && time >= from.getTime() && time < to.getTime()) {
+            addUsage(totals, `${toDay(time)} ${usage.model}`, usage);
+          }
+        }
+      }
+
+      return [...totals]
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, usage]) => ({ day: key.slice(0, 10), ...usage }));
+    },
+
+    getSessionUsage: async (sessionId) => {
+      const totals = new Map<string, ModelTokenCounts>();
+
+      for (const message of (await load()).sessionsById.get(sessionId)?.messages ?? []) {
+        const usage = messageUsage(message.payload);
+
+        if (usage) {
+          addUsage(totals, usage.model, usage);
+        }
+      }
+
+      return [...totals.values()].sort(
+        (a, b) => b.totalTokens - a.totalTokens || (a.model < b.model ? -1 : 1)
+      );
+    },
+
+    countExport: async (filters) => {
+      const sessions = (await load()).sessions.filter((session) =>
+        matchesFilters(session, filters)
+      );
+
+      return {
+        sessionCount: sessions.length,
+        messageCount: sessions.reduce((sum, session) => sum + session.messages.length, 0)
+      };
+    },
+
+    async *exportMessages(filters) {
+      for (const session of (await load()).sessions) {
+        if (matchesFilters(session, filters)) {
+          const details = {
+            messageCount: session.messages.length,
+            lastMessageAt: session.lastMessageAt,
+            classifications: session.classifications
+          };
+
+          yield session.messages.map((message) => ({ message, session: details }));
+        }
+      }
+    },
+
+    getMessageContext: async (messageIds, size) => {
+      const { messagesById } = await load();
+      const context = new Map<string, MessageContext>();
+
+      for (const id of messageIds) {
+        const entry = messagesById.get(id);
+
+        if (entry) {
+          const { messages } = entry.session;
+
+          context.set(id, {
+            message: messages[entry.index],
+            before: messages.slice(Math.max(entry.index - size, 0), entry.index),
+            after: messages.slice(entry.index + 1, entry.index + 1 + size)
+          });
+        }
+      }
+
+      return context;
+    }
+  };
+};
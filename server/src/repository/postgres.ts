@@ -0,0 +1,1113 @@
+import { sessionTagsSql, tagFilterConditionSql } from '../annotations';
+import {
+  classificationConditionSql,
+  classificationCountColumnsSql,
+  classificationExclusionConditions,
+  classificationFilterConditions,
+  listClassifications,
+  sessionClassificationsSql,
+  toClassificationCounts
+} from '../classification';
+import { config } from '../config';
+import type { ChatSourceConfig } from '../config';
+import type { Database } from '../db';
+import { normalizeMessagePayload } from '../normalizers/registry';
+import type {
+  ChatListItem,
+  ChatMessage,
+  ChatMessagePayload,
+  ChatSearchHighlight,
+  ChatSearchResult,
+  ChatSummary
+} from '../types';
+import { USAGE_PRESENT_CONDITION, usageColumnsSql } from '../usage';
+import type {
+  ActivityCount,
+  ChatRepository,
+  ListDateField,
+  ListDateRange,
+  MessageContext,
+  MessageCursor,
+  MessagePageQuery,
+  ModelTokenCounts,
+  SessionFilters
+} from './chatRepository';
+
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS = [
+  `StartSel="${HIGHLIGHT_START}"`,
+  `StopSel="${HIGHLIGHT_STOP}"`,
+  'MaxWords=35',
+  'MinWords=12',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "'
+].join(', ');
+
+const normalizeCount = (value: string | number | null | undefined) => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : 0;
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+
+  return 0;
+};
+
+/**
+ * Searchable text of a message payload, from the `chat_message_text` function in
+ * `server/sql/schema.sql`: string content as-is, arrays of parts joined by their `text` fields.
+ */
+const messageTextSql = (alias: string) => `chat_message_text(${alias}.message)`;
+
+/**
+ * The search document. The language is inlined (it is validated as an identifier) so the
+ * expression matches the `idx_chat_messages_search` GIN index instead of scanning every row.
+ */
+const searchVectorSql = (alias: string) =>
+  `to_tsvector('${config.search.language}'::regconfig, ${messageTextSql(alias)})`;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const escapeForILike = (input: string) => input.replace(/([_%\\])/g, '\\$1');
+
+const parseHighlightedSnippet = (raw: string | null) => {
+  const highlights: ChatSearchHighlight[] = [];
+  let snippet = '';
+  let highlightStart: number | null = null;
+
+  for (const char of raw ?? '') {
+    if (char === HIGHLIGHT_START) {
+      highlightStart = snippet.length;
+    } else if (char === HIGHLIGHT_STOP) {
+      if (highlightStart !== null && snippet.length > highlightStart) {
+        highlights.push({ start: highlightStart, length: snippet.length - highlightStart });
+      }
+      highlightStart = null;
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+};
+
+const LIST_DATE_COLUMNS: Record<ListDateField, string> = {
+  lastMessageAt: 'ss.last_message_at',
+  firstMessageAt: 'ss.first_message_at'
+};
+
+const dateRangeConditions = (range: ListDateRange, params: unknown[]) => {
+  const column = LIST_DATE_COLUMNS[range.field];
+  const conditions: string[] = [];
+
+  if (range.from) {
+    params.push(range.from.toISOString());
+    conditions.push(`${column} >= $${params.length}`);
+  }
+
+  if (range.to) {
+    params.push(range.to.toISOString());
+    conditions.push(`${column} < $${params.length}`);
+  }
+
+  return conditions;
+};
+
+/** Condition on the raw chat rows, applied before messages are grouped into sessions. */
+const sessionSearchConditions = (filters: SessionFilters, params: unknown[]) => {
+  if (!filters.search) {
+    return [];
+  }
+
+  params.push(`${escapeForILike(filters.search)}%`);
+  return [`session_id ILIKE $${params.length}`];
+};
+
+interface MessageRow {
+  id: string;
+  session_id: string;
+  message: unknown;
+  created_at: Date;
+  cursor_time: string;
+}
+
+// Cursors keep Postgres' microsecond precision; a millisecond ISO string would repeat rows.
+const MESSAGE_COLUMNS = `
+  id,
+  session_id,
+  message,
+  created_at,
+  to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_time
+`;
+
+const toChatMessage = (row: Omit<MessageRow, 'cursor_time'>): ChatMessage => ({
+  id: row.id,
+  sessionId: row.session_id,
+  createdAt: row.created_at.toISOString(),
+  payload: row.message as ChatMessagePayload,
+  view: normalizeMessagePayload(row.message as ChatMessagePayload)
+});
+
+const toMessageCursor = (row: MessageRow): MessageCursor => ({
+  createdAt: row.cursor_time,
+  id: row.id
+});
+
+interface SummaryRow {
+  session_id: string;
+  message_count: string;
+  last_message_content: string | null;
+  last_message_type: string | null;
+  last_message_at: Date | null;
+  classifications: string[] | null;
+}
+
+const toChatSummary = (row: SummaryRow): ChatSummary => ({
+  sessionId: row.session_id,
+  lastMessagePreview: row.last_message_content,
+  lastMessageType: row.last_message_type,
+  lastMessageAt: row.last_message_at ? row.last_message_at.toISOString() : null,
+  messageCount: normalizeCount(row.message_count),
+  classifications: row.classifications ?? []
+});
+
+interface UsageRow {
+  model: string;
+  message_count: string | number;
+  prompt_tokens: string | number | null;
+  completion_tokens: string | number | null;
+  total_tokens: string | number | null;
+}
+
+const toModelTokenCounts = (row: UsageRow): ModelTokenCounts => ({
+  model: row.model,
+  messageCount: normalizeCount(row.message_count),
+  promptTokens: normalizeCount(row.prompt_tokens),
+  completionTokens: normalizeCount(row.completion_tokens),
+  totalTokens: normalizeCount(row.total_tokens)
+});
+
+interface ActivityRow {
+  session_count: string | number | null;
+  message_count: string | number | null;
+  /** `classification_<index>` counts, see `classificationCountColumnsSql`. */
+  [classificationCount: string]: string | number | null;
+}
+
+const toActivityCount = (row: ActivityRow | undefined): ActivityCount => ({
+  sessionCount: normalizeCount(row?.session_count),
+  messageCount: normalizeCount(row?.message_count),
+  classificationSessionCounts: toClassificationCounts(row)
+});
+
+/** Reads chats from a source's Postgres chat table, joined with visitor settings and tags. */
+export const createPostgresChatRepository = (
+  {
+    chatTableSql: chatTable,
+    visitorSettingsTableSql: visitorSettingsTable,
+    sessionAnnotationsTable: annotationsTableName,
+    sessionAnnotationsTableSql: annotationsTable
+  }: ChatSourceConfig,
+  { query, queryCursor }: Database
+): ChatRepository => {
+  let annotationsTableLookup: Promise<boolean> | undefined;
+
+  /**
+   * Whether the annotations table exists, checked once per source. Without it no session has tags,
+   * so tag columns come back empty and tag filters match nothing instead of failing the query.
+   */
+  const hasAnnotationsTable = () => {
+    if (!annotationsTableLookup) {
+      annotationsTableLookup = query<{ has_table: boolean }>(
+        'SELECT to_regclass($1) IS NOT NULL AS has_table',
+        [annotationsTableName]
+      )
+        .then((result) => result.rows[0]?.has_table === true)
+        .catch((error) => {
+          annotationsTableLookup = undefined;
+          throw error;
+        });
+    }
+
+    return annotationsTableLookup;
+  };
+
+  /**
+   * Conditions on the grouped sessions (`ss`) and their visitor settings (`vs`). Facet counts use
+   * `omit` to drop the filter of the facet being counted, so its unselected values still report
+   * how many sessions selecting them would add. `annotated` tells whether the annotations table
+   * exists.
+   */
+  const sessionFilterConditions = (
+    filters: SessionFilters,
+    params: unknown[],
+    annotated: boolean,
+    omit: { types?: boolean; classificationId?: string } = {}
+  ) => {
+    const isKept = (id: string) => id !== omit.classificationId;
+    const conditions = [
+      ...classificationFilterConditions(filters.classificationIds.filter(isKept), 'ss.session_id'),
+      ...classificationExclusionConditions(
+        filters.excludedClassificationIds.filter(isKept),
+        'ss.session_id'
+      )
+    ];
+
+    if (!omit.types && filters.types.length > 0) {
+      params.push(filters.types);
+      conditions.push(`vs.type::text = ANY($${params.length}::text[])`);
+    }
+
+    if (filters.tags.length > 0 && !annotated) {
+      conditions.push('FALSE');
+    } else if (filters.tags.length > 0) {
+      params.push(filters.tags);
+      conditions.push(tagFilterConditionSql(annotationsTable, 'ss.session_id', params.length));
+    }
+
+    conditions.push(...dateRangeConditions(filters.dateRange, params));
+    return conditions;
+  };
+
+  /** Sessions matching the filters with their message count, last activity and classifications. */
+  const selectedSessionsSql = (filters: SessionFilters, params: unknown[], annotated: boolean) => {
+    const whereConditions = sessionSearchConditions(filters, params);
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+    const filterConditions = sessionFilterConditions(filters, params, annotated);
+    const filterClause = filterConditions.length > 0 ? `AND ${filterConditions.join(' AND ')}` : '';
+
+    return `
+      SELECT
+        ss.session_id,
+        ss.message_count,
+        ss.last_message_at,
+        ${sessionClassificationsSql('ss.session_id')} AS classifications
+      FROM (
+        SELECT
+          session_id,
+          COUNT(*) AS message_count,
+          MIN(created_at) AS first_message_at,
+          MAX(created_at) AS last_message_at
+        FROM ${chatTable}
+        ${whereClause}
+        GROUP BY session_id
+      ) ss
+      LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = ss.session_id
+      WHERE 1=1
+      ${filterClause}
+    `;
+  };
+
+  const listSessions: ChatRepository['listSessions'] = async ({
+    filters,
+    sessionIds,
+    cursor,
+    limit
+  }) => {
+    const annotated = await hasAnnotationsTable();
+    const params: unknown[] = [];
+    const whereConditions = sessionSearchConditions(filters, params);
+
+    if (sessionIds) {
+      params.push(sessionIds);
+      whereConditions.push(`session_id = ANY($${params.length}::text[])`);
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    const cursorConditions: string[] = [];
+
+    if (cursor) {
+      params.push(cursor.lastMessageAt.toISOString());
+      const dateIndex = params.length;
+
+      if (cursor.sessionId) {
+        params.push(cursor.sessionId);
+        const sessionIndex = params.length;
+        cursorConditions.push(
+          `(ss.last_message_at < $${dateIndex} OR (ss.last_message_at = $${dateIndex} AND ss.session_id < $${sessionIndex}))`
+        );
+      } else {
+        cursorConditions.push(`ss.last_message_at < $${dateIndex}`);
+      }
+    }
+
+    const filterConditions = sessionFilterConditions(filters, params, annotated);
+    const tagsSql = annotated
+      ? sessionTagsSql(annotationsTable, 'ss.session_id')
+      : 'ARRAY[]::text[]';
+
+    const cursorClause = cursorConditions.length > 0 ? `AND ${cursorConditions.join(' AND ')}` : '';
+    const filterClause = filterConditions.length > 0 ? `AND ${filterConditions.join(' AND ')}` : '';
+    let limitClause = '';
+
+    if (limit !== undefined) {
+      params.push(limit);
+      limitClause = `LIMIT $${params.length}`;
+    }
+
+    const result = await query<{
+      session_id: string;
+      message_count: string | number;
+      last_message_at: Date | null;
+      classifications: string[] | null;
+      tags: string[] | null;
+    }>(
+      `
+        WITH session_stats AS (
+          SELECT
+            session_id,
+            COUNT(*) AS message_count,
+            MIN(created_at) AS first_message_at,
+            MAX(created_at) AS last_message_at
+          FROM ${chatTable}
+          ${whereClause}
+          GROUP BY session_id
+        )
+        SELECT
+          ss.session_id,
+          ss.message_count,
+          ss.last_message_at,
+          ${sessionClassificationsSql('ss.session_id')} AS classifications,
+          ${tagsSql} AS tags
+        FROM session_stats ss
+        LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = ss.session_id
+        WHERE 1=1
+        ${cursorClause}
+        ${filterClause}
+        ORDER BY last_message_at DESC NULLS LAST, session_id DESC
+        ${limitClause}
+      `,
+      params
+    );
+
+    return result.rows.map((row): ChatListItem => ({
+      sessionId: row.session_id,
+      lastMessageAt: row.last_message_at ? row.last_message_at.toISOString() : null,
+      messageCount: normalizeCount(row.message_count),
+      classifications: row.classifications ?? [],
+      tags: row.tags ?? []
+    }));
+  };
+
+  const getSessionSummary: ChatRepository['getSessionSummary'] = async (sessionId) => {
+    const result = await query<SummaryRow>(
+      `
+        SELECT
+          s.*,
+          ${sessionClassificationsSql('s.session_id')} AS classifications
+        FROM (
+          SELECT
+            cm.session_id,
+            COUNT(*) AS message_count,
+            MAX(cm.created_at) AS last_message_at,
+            (ARRAY_AGG(cm.message ->> 'content' ORDER BY cm.created_at DESC, cm.id DESC))[1] AS last_message_content,
+            (ARRAY_AGG(cm.message ->> 'type' ORDER BY cm.created_at DESC, cm.id DESC))[1] AS last_message_type
+          FROM ${chatTable} cm
+          WHERE cm.session_id = $1
+          GROUP BY cm.session_id
+        ) s
+        LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = s.session_id
+      `,
+      [sessionId]
+    );
+
+    return result.rows[0] ? toChatSummary(result.rows[0]) : undefined;
+  };
+
+  const findSessionSummaries: ChatRepository['findSessionSummaries'] = async (prefix, limit) => {
+    const result = await query<SummaryRow>(
+      `
+        WITH session_stats AS (
+          SELECT
+            session_id,
+            COUNT(*) AS message_count,
+            MAX(created_at) AS last_message_at
+          FROM ${chatTable}
+          WHERE session_id ILIKE $1
+          GROUP BY session_id
+        ),
+        limited_sessions AS (
+          SELECT *
+          FROM session_stats
+          ORDER BY last_message_at DESC
+          LIMIT $2
+        ),
+        last_messages AS (
+          SELECT
+            id,
+            session_id,
+            message,
+            created_at
+          FROM ${chatTable}
+          WHERE session_id IN (SELECT session_id FROM limited_sessions)
+          ORDER BY session_id, created_at DESC, id DESC
+        ),
+        ranked_last_messages AS (
+          SELECT
+            session_id,
+            message,
+            created_at,
+            ROW_NUMBER() OVER (PARTITION BY session_id ORDER BY created_at DESC, id DESC) AS row_num
+          FROM last_messages
+        )
+        SELECT
+          ls.session_id,
+          ls.message_count,
+          ls.last_message_at,
+          rlm.message ->> 'content' AS last_message_content,
+          rlm.message ->> 'type' AS last_message_type,
+          ${sessionClassificationsSql('ls.session_id')} AS classifications
+        FROM limited_sessions ls
+        JOIN ranked_last_messages rlm ON rlm.session_id = ls.session_id
+        LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = ls.session_id
+        WHERE rlm.row_num = 1
+        ORDER BY ls.last_message_at DESC
+      `,
+      [`${escapeForILike(prefix)}%`, limit]
+    );
+
+    return result.rows.map(toChatSummary);
+  };
+
+  const countMessages: ChatRepository['countMessages'] = async (sessionId) => {
+    const result = await query<{ total_count: string | number }>(
+      `SELECT COUNT(*) AS total_count FROM ${chatTable} WHERE session_id = $1`,
+      [sessionId]
+    );
+
+    return normalizeCount(result.rows[0]?.total_count);
+  };
+
+  const getMessagePage = async ({
+    sessionId,
+    direction,
+    limit,
+    cursor,
+    inclusive = false
+  }: MessagePageQuery) => {
+    const params: unknown[] = [sessionId];
+    let cursorCondition = '';
+
+    if (cursor) {
+      params.push(cursor.createdAt, cursor.id);
+      const operator = direction === 'older' ? '<' : inclusive ? '>=' : '>';
+      cursorCondition = `AND (created_at, id) ${operator} ($2::timestamptz, $3)`;
+    }
+
+    params.push(limit + 1);
+    const order = direction === 'older' ? 'DESC' : 'ASC';
+
+    const result = await query<MessageRow>(
+      `
+        SELECT ${MESSAGE_COLUMNS}
+        FROM ${chatTable}
+        WHERE session_id = $1
+        ${cursorCondition}
+        ORDER BY created_at ${order}, id ${order}
+        LIMIT $${params.length}
+      `,
+      params
+    );
+
+    const rows = result.rows.slice(0, limit);
+
+    return {
+      entries: (direction === 'older' ? rows.reverse() : rows).map((row) => ({
+        message: toChatMessage(row),
+        cursor: toMessageCursor(row)
+      })),
+      hasMore: result.rows.length > limit
+    };
+  };
+
+  const findMessageCursor: ChatRepository['findMessageCursor'] = async (sessionId, messageId) => {
+    const result = await query<MessageRow>(
+      `SELECT ${MESSAGE_COLUMNS} FROM ${chatTable} WHERE session_id = $1 AND id::text = $2`,
+      [sessionId, messageId]
+    );
+
+    return result.rows[0] ? toMessageCursor(result.rows[0]) : undefined;
+  };
+
+  const getMessages: ChatRepository['getMessages'] = async (sessionId, messageIds) => {
+    const result = await query<MessageRow>(
+      `
+        SELECT ${MESSAGE_COLUMNS}
+        FROM ${chatTable}
+        WHERE session_id = $1 AND id::text = ANY($2::text[])
+        ORDER BY created_at ASC, id ASC
+      `,
+      [sessionId, messageIds]
+    );
+
+    return result.rows.map(toChatMessage);
+  };
+
+  const getSessionMessages: ChatRepository['getSessionMessages'] = async (sessionId) => {
+    const result = await query<{
+      id: string;
+      session_id: string;
+      message: unknown;
+      created_at: Date;
+    }>(
+      `
+        SELECT id, session_id, message, created_at
+        FROM ${chatTable}
+        WHERE session_id = $1
+        ORDER BY created_at ASC, id ASC
+      `,
+      [sessionId]
+    );
+
+    return result.rows.map(toChatMessage);
+  };
+
+  const searchMessages: ChatRepository['searchMessages'] = async ({
+    text,
+    limit,
+    matchesPerSession,
+    classificationIds,
+    excludedClassificationIds,
+    types
+  }) => {
+    const params: unknown[] = [
+      text,
+      config.search.language,
+      limit,
+      HEADLINE_OPTIONS,
+      matchesPerSession
+    ];
+    const filterConditions = [
+      ...classificationFilterConditions(classificationIds, 'ss.session_id'),
+      ...classificationExclusionConditions(excludedClassificationIds, 'ss.session_id')
+    ];
+
+    if (types.length > 0) {
+      params.push(types);
+      filterConditions.push(`vs.type::text = ANY($${params.length}::text[])`);
+    }
+
+    const filterClause = filterConditions.length > 0 ? `AND ${filterConditions.join(' AND ')}` : '';
+
+    const result = await query<{
+      session_id: string;
+      match_count: string | number;
+      last_match_at: Date | null;
+      classifications: string[] | null;
+      message_id: string;
+      message_type: string | null;
+      created_at: Date;
+      snippet: string | null;
+    }>(
+      `
+        WITH search_query AS (
+          SELECT websearch_to_tsquery($2::regconfig, $1) AS tsq
+        ),
+        matched_messages AS (
+          SELECT
+            cm.id,
+            cm.session_id,
+            cm.created_at,
+            cm.message ->> 'type' AS message_type,
+            ${messageTextSql('cm')} AS content_text,
+            ts_rank(${searchVectorSql('cm')}, sq.tsq) AS rank
+          FROM ${chatTable} cm
+          CROSS JOIN search_query sq
+          WHERE ${searchVectorSql('cm')} @@ sq.tsq
+        ),
+        session_matches AS (
+          SELECT
+            session_id,
+            COUNT(*) AS match_count,
+            MAX(rank) AS best_rank,
+            MAX(created_at) AS last_match_at
+          FROM matched_messages
+          GROUP BY session_id
+        ),
+        limited_sessions AS (
+          SELECT
+            ss.session_id,
+            ss.match_count,
+            ss.best_rank,
+            ss.last_match_at,
+            ${sessionClassificationsSql('ss.session_id')} AS classifications
+          FROM session_matches ss
+          LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = ss.session_id
+          WHERE 1=1
+          ${filterClause}
+          ORDER BY ss.best_rank DESC, ss.last_match_at DESC, ss.session_id DESC
+          LIMIT $3
+        ),
+        ranked_matches AS (
+          SELECT
+            mm.*,
+            ROW_NUMBER() OVER (
+              PARTITION BY mm.session_id
+              ORDER BY mm.rank DESC, mm.created_at DESC, mm.id DESC
+            ) AS row_num
+          FROM matched_messages mm
+          WHERE mm.session_id IN (SELECT session_id FROM limited_sessions)
+        )
+        SELECT
+          ls.session_id,
+          ls.match_count,
+          ls.last_match_at,
+          ls.classifications,
+          rm.id AS message_id,
+          rm.message_type,
+          rm.created_at,
+          ts_headline($2::regconfig, rm.content_text, sq.tsq, $4) AS snippet
+        FROM limited_sessions ls
+        JOIN ranked_matches rm ON rm.session_id = ls.session_id AND rm.row_num <= $5
+        CROSS JOIN search_query sq
+        ORDER BY ls.best_rank DESC, ls.last_match_at DESC, ls.session_id DESC, rm.row_num
+      `,
+      params
+    );
+
+    const resultsBySession = new Map<string, ChatSearchResult>();
+
+    for (const row of result.rows) {
+      let entry = resultsBySession.get(row.session_id);
+
+      if (!entry) {
+        entry = {
+          sessionId: row.session_id,
+          matchCount: normalizeCount(row.match_count),
+          lastMatchAt: row.last_match_at ? row.last_match_at.toISOString() : null,
+          classifications: row.classifications ?? [],
+          matches: []
+        };
+        resultsBySession.set(row.session_id, entry);
+      }
+
+      entry.matches.push({
+        messageId: row.message_id,
+        messageType: row.message_type,
+        createdAt: row.created_at.toISOString(),
+        ...parseHighlightedSnippet(row.snippet)
+      });
+    }
+
+    return Array.from(resultsBySession.values());
+  };
+
+  /**
+   * Types and classifications are counted without their own filter, since selecting more of them
+   * widens the list; tags narrow it, so they are counted within the filtered sessions.
+   */
+  const getFacets: ChatRepository['getFacets'] = async (filters, valueLimit) => {
+    const annotated = await hasAnnotationsTable();
+    const searchParams: unknown[] = [];
+    const whereConditions = sessionSearchConditions(filters, searchParams);
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+    const sessionStatsSql = `
+      session_stats AS (
+        SELECT
+          session_id,
+          MIN(created_at) AS first_message_at,
+          MAX(created_at) AS last_message_at
+        FROM ${chatTable}
+        ${whereClause}
+        GROUP BY session_id
+      )
+    `;
+    const allOf = (conditions: string[]) =>
+      conditions.length > 0 ? conditions.join(' AND ') : 'TRUE';
+
+    const countParams = [...searchParams];
+    const countColumns = [
+      `COUNT(*) FILTER (WHERE ${allOf(sessionFilterConditions(filters, countParams, annotated))}) AS session_count`,
+      ...config.classifications.flatMap((rule, index) => {
+        const condition = classificationConditionSql(rule, 'ss.session_id');
+        const otherFilters = allOf(
+          sessionFilterConditions(filters, countParams, annotated, { classificationId: rule.id })
+        );
+
+        return [
+          `COUNT(*) FILTER (WHERE ${condition} AND ${otherFilters}) AS matching_${index}`,
+          `COUNT(*) FILTER (WHERE NOT ${condition} AND ${otherFilters}) AS other_${index}`
+        ];
+      })
+    ];
+
+    const countResult = await query<Record<string, string | number>>(
+      `
+        WITH ${sessionStatsSql}
+        SELECT ${countColumns.join(',\n')}
+        FROM session_stats ss
+        LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = ss.session_id
+      `,
+      countParams
+    );
+
+    const typeParams = [...searchParams];
+    const typeConditions = [
+      "vs.type IS NOT NULL AND vs.type::text <> ''",
+      ...sessionFilterConditions(filters, typeParams, annotated, { types: true })
+    ];
+    typeParams.push(valueLimit);
+
+    const typeResult = await query<{ value: string; session_count: string | number }>(
+      `
+        WITH ${sessionStatsSql}
+        SELECT vs.type::text AS value, COUNT(*) AS session_count
+        FROM session_stats ss
+        JOIN ${visitorSettingsTable} vs ON vs.session_id = ss.session_id
+        WHERE ${typeConditions.join(' AND ')}
+        GROUP BY vs.type::text
+        ORDER BY COUNT(*) DESC, value ASC
+        LIMIT $${typeParams.length}
+      `,
+      typeParams
+    );
+
+    const tagParams = [...searchParams];
+    const tagConditions = sessionFilterConditions(filters, tagParams, annotated);
+    tagParams.push(valueLimit);
+
+    // Without an annotations table there are no tags to count.
+    const tagResult = annotated
+      ? await query<{ tag: string; session_count: string | number }>(
+          `
+            WITH ${sessionStatsSql}
+            SELECT sa.body AS tag, COUNT(*) AS session_count
+            FROM session_stats ss
+            LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = ss.session_id
+            JOIN ${annotationsTable} sa ON sa.session_id = ss.session_id AND sa.kind = 'tag'
+            WHERE ${allOf(tagConditions)}
+            GROUP BY sa.body
+            ORDER BY COUNT(*) DESC, sa.body ASC
+            LIMIT $${tagParams.length}
+          `,
+          tagParams
+        )
+      : { rows: [] };
+
+    const counts = countResult.rows[0];
+
+    return {
+      sessionCount: normalizeCount(counts?.session_count),
+      types: typeResult.rows.map((row) => ({
+        value: row.value,
+        sessionCount: normalizeCount(row.session_count)
+      })),
+      classifications: listClassifications().map((classification, index) => ({
+        ...classification,
+        matchingCount: normalizeCount(counts?.[`matching_${index}`]),
+        otherCount: normalizeCount(counts?.[`other_${index}`])
+      })),
+      tags: tagResult.rows.map((row) => ({
+        tag: row.tag,
+        sessionCount: normalizeCount(row.session_count)
+      }))
+    };
+  };
+
+  // Only this source's sessions count, even when another source shares the annotations table.
+  const listTagCounts: ChatRepository['listTagCounts'] = async () => {
+    if (!(await hasAnnotationsTable())) {
+      return [];
+    }
+
+    const result = await query<{ tag: string; session_count: string | number }>(
+      `
+        SELECT sa.body AS tag, COUNT(*) AS session_count
+        FROM ${annotationsTable} sa
+        WHERE sa.kind = 'tag'
+          AND EXISTS (SELECT 1 FROM ${chatTable} cm WHERE cm.session_id = sa.session_id)
+        GROUP BY sa.body
+        ORDER BY COUNT(*) DESC, sa.body ASC
+      `
+    );
+
+    return result.rows.map((row) => ({
+      tag: row.tag,
+      sessionCount: normalizeCount(row.session_count)
+    }));
+  };
+
+  // Sessions are counted once per bucket they were active in; classification counts use the
+  // same rules as the classifications returned by the list.
+  const getActivity: ChatRepository['getActivity'] = async ({ from, to, bucket }) => {
+    const classificationColumns = [
+      'COUNT(*) AS session_count',
+      'SUM(s.message_count) AS message_count',
+      ...classificationCountColumnsSql('s.session_id')
+    ].join(',\n');
+    const bucketColumns = [
+      'bs.session_count',
+      'bs.message_count',
+      ...config.classifications.map((_rule, index) => `bs.classification_${index}`)
+    ];
+    const params = [from.toISOString(), to.toISOString(), bucket];
+
+    const seriesResult = await query<ActivityRow & { bucket: string }>(
+      `
+        WITH buckets AS (
+          SELECT generate_series(
+            date_trunc($3, $1::timestamptz AT TIME ZONE 'UTC'),
+            date_trunc($3, ($2::timestamptz - interval '1 microsecond') AT TIME ZONE 'UTC'),
+            ('1 ' || $3)::interval
+          ) AS bucket
+        ),
+        session_buckets AS (
+          SELECT
+            date_trunc($3, created_at AT TIME ZONE 'UTC') AS bucket,
+            session_id,
+            COUNT(*) AS message_count
+          FROM ${chatTable}
+          WHERE created_at >= $1 AND created_at < $2
+          GROUP BY 1, session_id
+        ),
+        bucket_stats AS (
+          SELECT
+            s.bucket,
+            ${classificationColumns}
+          FROM session_buckets s
+          LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = s.session_id
+          GROUP BY s.bucket
+        )
+        SELECT
+          to_char(b.bucket, 'YYYY-MM-DD') AS bucket,
+          ${bucketColumns.join(',\n')}
+        FROM buckets b
+        LEFT JOIN bucket_stats bs ON bs.bucket = b.bucket
+        ORDER BY b.bucket ASC
+      `,
+      params
+    );
+
+    const totalsResult = await query<ActivityRow>(
+      `
+        SELECT ${classificationColumns}
+        FROM (
+          SELECT session_id, COUNT(*) AS message_count
+          FROM ${chatTable}
+          WHERE created_at >= $1 AND created_at < $2
+          GROUP BY session_id
+        ) s
+        LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = s.session_id
+      `,
+      params.slice(0, 2)
+    );
+
+    return {
+      totals: toActivityCount(totalsResult.rows[0]),
+      series: seriesResult.rows.map((row) => ({ bucket: row.bucket, ...toActivityCount(row) }))
+    };
+  };
+
+  const getDailyUsage: ChatRepository['getDailyUsage'] = async (from, to) => {
+    const result = await query<UsageRow & { day: string }>(
+      `
+        SELECT
+          to_char(day, 'YYYY-MM-DD') AS day,
+          model,
+          COUNT(*) AS message_count,
+          SUM(prompt_tokens) AS prompt_tokens,
+          SUM(completion_tokens) AS completion_tokens,
+          SUM(total_tokens) AS total_tokens
+        FROM (
+          SELECT
+            date_trunc('day', cm.created_at AT TIME ZONE 'UTC') AS day,
+            ${usageColumnsSql('cm')}
+          FROM ${chatTable} cm
+          WHERE cm.created_at >= $1 AND cm.created_at < $2
+        ) message_usage
+        WHERE ${USAGE_PRESENT_CONDITION}
+        GROUP BY day, model
+        ORDER BY day ASC, model ASC
+      `,
+      [from.toISOString(), to.toISOString()]
+    );
+
+    return result.rows.map((row) => ({ day: row.day, ...toModelTokenCounts(row) }));
+  };
+
+  const getSessionUsage: ChatRepository['getSessionUsage'] = async (sessionId) => {
+    const result = await query<UsageRow>(
+      `
+        SELECT
+          model,
+          COUNT(*) AS message_count,
+          SUM(prompt_tokens) AS prompt_tokens,
+          SUM(completion_tokens) AS completion_tokens,
+          SUM(total_tokens) AS total_tokens
+        FROM (
+          SELECT ${usageColumnsSql('cm')}
+          FROM ${chatTable} cm
+          WHERE cm.session_id = $1
+        ) message_usage
+        WHERE ${USAGE_PRESENT_CONDITION}
+        GROUP BY model
+        ORDER BY SUM(total_tokens) DESC NULLS LAST, model ASC
+      `,
+      [sessionId]
+    );
+
+    return result.rows.map(toModelTokenCounts);
+  };
+
+  const countExport: ChatRepository['countExport'] = async (filters) => {
+    const params: unknown[] = [];
+    const annotated = await hasAnnotationsTable();
+    const result = await query<{
+      session_count: string | number;
+      message_count: string | number;
+    }>(
+      `
+        SELECT
+          COUNT(*) AS session_count,
+          COALESCE(SUM(message_count), 0) AS message_count
+        FROM (${selectedSessionsSql(filters, params, annotated)}) selected_sessions
+      `,
+      params
+    );
+
+    return {
+      sessionCount: normalizeCount(result.rows[0]?.session_count),
+      messageCount: normalizeCount(result.rows[0]?.message_count)
+    };
+  };
+
+  async function* exportMessages(filters: SessionFilters) {
+    const params: unknown[] = [];
+    const annotated = await hasAnnotationsTable();
+    const batches = queryCursor<{
+      id: string;
+      session_id: string;
+      message: unknown;
+      created_at: Date;
+      message_count: string | number;
+      last_message_at: Date | null;
+      classifications: string[] | null;
+    }>(
+      `
+        WITH selected_sessions AS (${selectedSessionsSql(filters, params, annotated)})
+        SELECT
+          cm.id,
+          cm.session_id,
+          cm.message,
+          cm.created_at,
+          s.message_count,
+          s.last_message_at,
+          s.classifications
+        FROM selected_sessions s
+        JOIN ${chatTable} cm ON cm.session_id = s.session_id
+        ORDER BY s.last_message_at DESC NULLS LAST, s.session_id DESC, cm.created_at ASC, cm.id ASC
+      `,
+      params
+    );
+
+    for await (const rows of batches) {
+      yield rows.map((row) => ({
+        message: toChatMessage(row),
+        session: {
+          messageCount: normalizeCount(row.message_count),
+          lastMessageAt: row.last_message_at ? row.last_message_at.toISOString() : null,
+          classifications: row.classifications ?? []
+        }
+      }));
+    }
+  }
+
+  const getMessageContext: ChatRepository['getMessageContext'] = async (messageIds, size) => {
+    const context = new Map<string, MessageContext>();
+    // Ids that are not UUIDs name no message. Dropping them lets the lookup compare `uuid`s and
+    // use the primary key instead of casting every row's id to text.
+    const targetIds = messageIds.filter((id) => UUID_PATTERN.test(id));
+
+    if (targetIds.length === 0) {
+      return context;
+    }
+
+    const result = await query<
+      Omit<MessageRow, 'cursor_time'> & { target_id: string; side: 'message' | 'before' | 'after' }
+    >(
+      `
+        SELECT
+          target.id::text AS target_id,
+          ctx.side,
+          ctx.id,
+          ctx.session_id,
+          ctx.message,
+          ctx.created_at
+        FROM ${chatTable} target
+        CROSS JOIN LATERAL (
+          (
+            SELECT 'before' AS side, c.id::text AS id, c.session_id, c.message, c.created_at
+            FROM ${chatTable} c
+            WHERE c.session_id = target.session_id
+              AND (c.created_at, c.id) < (target.created_at, target.id)
+            ORDER BY c.created_at DESC, c.id DESC
+            LIMIT $2
+          )
+          UNION ALL
+          SELECT
+            'message' AS side,
+            target.id::text AS id,
+            target.session_id,
+            target.message,
+            target.created_at
+          UNION ALL
+          (
+            SELECT 'after' AS side, c.id::text AS id, c.session_id, c.message, c.created_at
+            FROM ${chatTable} c
+            WHERE c.session_id = target.session_id
+              AND (c.created_at, c.id) > (target.created_at, target.id)
+            ORDER BY c.created_at ASC, c.id ASC
+            LIMIT $2
+          )
+        ) ctx
+        WHERE target.id = ANY($1::uuid[])
+        ORDER BY target_id, ctx.created_at ASC, ctx.id ASC
+      `,
+      [targetIds, size]
+    );
+
+    const sides = new Map<string, Pick<MessageContext, 'before' | 'after'>>();
+    const targets = new Map<string, ChatMessage>();
+
+    for (const row of result.rows) {
+      if (row.side === 'message') {
+        targets.set(row.target_id, toChatMessage(row));
+      } else {
+        const entry = sides.get(row.target_id) ?? { before: [], after: [] };
+        entry[row.side].push(toChatMessage(row));
+        sides.set(row.target_id, entry);
+      }
+    }
+
+    for (const [id, message] of targets) {
+      context.set(id, { message, before: [], after: [], ...sides.get(id) });
+    }
+
+    return context;
+  };
+
+  return {
+    listSessions,
+    getSessionSummary,
+    findSessionSummaries,
+    countMessages,
+    getMessagePage,
+    findMessageCursor,
+    getMessages,
+    getSessionMessages,
+    searchMessages,
+    getFacets,
+    listTagCounts,
+    getActivity,
+    getDailyUsage,
+    getSessionUsage,
+    countExport,
+    exportMessages,
+    getMessageContext
+  };
+};
@@ -0,0 +1,283 @@
+import { Router } from 'express';
+import type { Request } from 'express';
+import { MAX_NOTE_LENGTH, MAX_TAG_LENGTH, normalizeTag } from '../annotations';
+import type { Database } from '../db';
+import { hasRole, requireRole } from '../middleware/auth';
+import { chatSourceFor, requireDatabase } from '../middleware/chatSource';
+import type { AuthUser, SessionNote, SessionTag } from '../types';
+
+const router = Router();
+
+/** The request's source database and the quoted name of its annotations table. */
+const annotationsStore = (req: Request) => {
+  const { db, config: sourceConfig } = chatSourceFor(req);
+  return { db, annotationsTable: sourceConfig.sessionAnnotationsTableSql };
+};
+
+interface NoteRow {
+  id: string | number;
+  session_id: string;
+  body: string;
+  author_email: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const toSessionNote = (row: NoteRow): SessionNote => ({
+  id: String(row.id),
+  sessionId: row.session_id,
+  body: row.body,
+  authorEmail: row.author_email,
+  createdAt: row.created_at.toISOString(),
+  updatedAt: row.updated_at.toISOString()
+});
+
+const readNoteBody = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length <= MAX_NOTE_LENGTH ? trimmed : undefined;
+};
+
+// Notes belong to their author; admins can moderate anyone's notes.
+const canModifyNote = (user: AuthUser | undefined, authorEmail: string) =>
+  Boolean(user && (user.email === authorEmail || hasRole(user, 'admin')));
+
+const fetchSessionTags = async (
+  db: Database,
+  annotationsTable: string,
+  sessionId: string
+): Promise<SessionTag[]> => {
+  const result = await db.query<{ body: string; author_email: string; created_at: Date }>(
+    `
+      SELECT body, author_email, created_at
+      FROM ${annotationsTable}
+      WHERE session_id = $1 AND kind = 'tag'
+      ORDER BY body ASC
+    `,
+    [sessionId]
+  );
+
+  return result.rows.map((row) => ({
+    tag: row.body,
+    authorEmail: row.author_email,
+    createdAt: row.created_at.toISOString()
+  }));
+};
+
+const fetchNoteAuthor = async (
+  db: Database,
+  annotationsTable: string,
+  sessionId: string,
+  noteId: string
+) => {
+  const result = await db.query<{ author_email: string }>(
+    `
+      SELECT author_email
+      FROM ${annotationsTable}
+      WHERE id = $1 AND session_id = $2 AND kind = 'note'
+    `,
+    [noteId, sessionId]
+  );
+
+  return result.rows[0]?.author_email;
+};
+
+// Scoped to this router's paths: it is mounted after the chats router, so other unmatched chat
+// paths pass through here on their way to a 404.
+router.use(['/:sessionId/notes', '/:sessionId/tags'], requireDatabase);
+
+router.get('/:sessionId/notes', async (req, res, next) => {
+  const { db, annotationsTable } = annotationsStore(req);
+
+  try {
+    const result = await db.query<NoteRow>(
+      `
+        SELECT id, session_id, body, author_email, created_at, updated_at
+        FROM ${annotationsTable}
+        WHERE session_id = $1 AND kind = 'note'
+        ORDER BY created_at ASC, id ASC
+      `,
+      [req.params.sessionId]
+    );
+
+    res.json({ data: result.rows.map(toSessionNote) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:sessionId/notes', requireRole('reviewer'), async (req, res, next) => {
+  const { db, annotationsTable } = annotationsStore(req);
+  const body = readNoteBody(req.body?.body);
+
+  if (!body) {
+    res.status(400).json({ error: `Note body must be 1-${MAX_NOTE_LENGTH} characters long.` });
+    return;
+  }
+
+  try {
+    const result = await db.query<NoteRow>(
+      `
+        INSERT INTO ${annotationsTable} (session_id, kind, body, author_email)
+        VALUES ($1, 'note', $2, $3)
+        RETURNING id, session_id, body, author_email, created_at, updated_at
+      `,
+      [req.params.sessionId, body, req.authUser?.email]
+    );
+
+    res.status(201).json({ data: toSessionNote(result.rows[0]) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/:sessionId/notes/:noteId', requireRole('reviewer'), async (req, res, next) => {
+  const { db, annotationsTable } = annotationsStore(req);
+  const { sessionId, noteId } = req.params;
+  const body = readNoteBody(req.body?.body);
+
+  if (!/^\d+$/.test(noteId)) {
+    res.status(404).json({ error: 'Note not found' });
+    return;
+  }
+
+  if (!body) {
+    res.status(400).json({ error: `Note body must be 1-${MAX_NOTE_LENGTH} characters long.` });
+    return;
+  }
+
+  try {
+    const authorEmail = await fetchNoteAuthor(db, annotationsTable, sessionId, noteId);
+
+    if (!authorEmail) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    if (!canModifyNote(req.authUser, authorEmail)) {
+      res.status(403).json({ error: 'Only the author or an admin can edit this note.' });
+      return;
+    }
+
+    const result = await db.query<NoteRow>(
+      `
+        UPDATE ${annotationsTable}
+        SET body = $3, updated_at = now()
+        WHERE id = $1 AND session_id = $2 AND kind = 'note'
+        RETURNING id, session_id, body, author_email, created_at, updated_at
+      `,
+      [noteId, sessionId, body]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json({ data: toSessionNote(result.rows[0]) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/:sessionId/notes/:noteId', requireRole('reviewer'), async (req, res, next) => {
+  const { db, annotationsTable } = annotationsStore(req);
+  const { sessionId, noteId } = req.params;
+
+  if (!/^\d+$/.test(noteId)) {
+    res.status(404).json({ error: 'Note not found' });
+    return;
+  }
+
+  try {
+    const authorEmail = await fetchNoteAuthor(db, annotationsTable, sessionId, noteId);
+
+    if (!authorEmail) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    if (!canModifyNote(req.authUser, authorEmail)) {
+      res.status(403).json({ error: 'Only the author or an admin can delete this note.' });
+      return;
+    }
+
+    await db.query(
+      `
+        DELETE FROM ${annotationsTable}
+        WHERE id = $1 AND session_id = $2 AND kind = 'note'
+      `,
+      [noteId, sessionId]
+    );
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:sessionId/tags', async (req, res, next) => {
+  const { db, annotationsTable } = annotationsStore(req);
+
+  try {
+    res.json({ data: await fetchSessionTags(db, annotationsTable, req.params.sessionId) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Adding a tag is idempotent; both tag routes respond with the session's full tag list.
+router.put('/:sessionId/tags/:tag', requireRole('reviewer'), async (req, res, next) => {
+  const { db, annotationsTable } = annotationsStore(req);
+  const { sessionId } = req.params;
+  const tag = normalizeTag(req.params.tag);
+
+  if (!tag) {
+    res.status(400).json({
+      error: `Tags must be 1-${MAX_TAG_LENGTH} characters long and cannot contain commas.`
+    });
+    return;
+  }
+
+  try {
+    await db.query(
+      `
+        INSERT INTO ${annotationsTable} (session_id, kind, body, author_email)
+        VALUES ($1, 'tag', $2, $3)
+        ON CONFLICT (session_id, body) WHERE kind = 'tag' DO NOTHING
+      `,
+      [sessionId, tag, req.authUser?.email]
+    );
+
+    res.json({ data: await fetchSessionTags(db, annotationsTable, sessionId) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/:sessionId/tags/:tag', requireRole('reviewer'), async (req, res, next) => {
+  const { db, annotationsTable } = annotationsStore(req);
+  const { sessionId } = req.params;
+  const tag = normalizeTag(req.params.tag);
+
+  try {
+    if (tag) {
+      await db.query(
+        `
+          DELETE FROM ${annotationsTable}
+          WHERE session_id = $1 AND kind = 'tag' AND body = $2
+        `,
+        [sessionId, tag]
+      );
+    }
+
+    res.json({ data: await fetchSessionTags(db, annotationsTable, sessionId) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,140 @@
+import { Router } from 'express';
+import { tryParseIsoDate } from '../dates';
+import { chatSourceFor, requireDatabase } from '../middleware/chatSource';
+import type { AuditAction, AuditLogEntry, AuditLogResponse, UserRole } from '../types';
+
+const router = Router();
+router.use(requireDatabase);
+
+const AUDIT_DEFAULT_LIMIT = 100;
+const AUDIT_MAX_LIMIT = 500;
+
+const parseAuditLimit = (rawLimit: unknown) => {
+  if (typeof rawLimit !== 'string') {
+    return AUDIT_DEFAULT_LIMIT;
+  }
+
+  const parsed = Number.parseInt(rawLimit, 10);
+
+  if (!Number.isFinite(parsed)) {
+    return AUDIT_DEFAULT_LIMIT;
+  }
+
+  return Math.min(Math.max(parsed, 1), AUDIT_MAX_LIMIT);
+};
+
+const readString = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+router.get('/', async (req, res, next) => {
+  const { db, config: sourceConfig } = chatSourceFor(req);
+  const user = readString(req.query.user)?.toLowerCase();
+  const sessionId = readString(req.query.sessionId);
+  const action = readString(req.query.action);
+  const rawFrom = readString(req.query.from);
+  const rawTo = readString(req.query.to);
+  const rawCursor = readString(req.query.cursor);
+  const from = tryParseIsoDate(rawFrom);
+  const to = tryParseIsoDate(rawTo);
+  const limit = parseAuditLimit(req.query.limit);
+
+  if ((rawFrom && !from) || (rawTo && !to)) {
+    res.status(400).json({ error: 'from and to must be valid ISO 8601 dates.' });
+    return;
+  }
+
+  if (rawCursor && !/^\d+$/.test(rawCursor)) {
+    res.status(400).json({ error: 'cursor must be a numeric audit entry id.' });
+    return;
+  }
+
+  try {
+    const params: unknown[] = [];
+    const whereConditions: string[] = [];
+
+    if (user) {
+      params.push(user);
+      whereConditions.push(`user_email = $${params.length}`);
+    }
+
+    if (sessionId) {
+      params.push(sessionId);
+      whereConditions.push(`session_id = $${params.length}`);
+    }
+
+    if (action) {
+      params.push(action);
+      whereConditions.push(`action = $${params.length}`);
+    }
+
+    if (from) {
+      params.push(from.toISOString());
+      whereConditions.push(`created_at >= $${params.length}`);
+    }
+
+    if (to) {
+      params.push(to.toISOString());
+      whereConditions.push(`created_at < $${params.length}`);
+    }
+
+    if (rawCursor) {
+      params.push(rawCursor);
+      whereConditions.push(`id < $${params.length}`);
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    params.push(limit);
+    const limitIndex = params.length;
+
+    const result = await db.query<{
+      id: string;
+      user_email: string;
+      user_role: UserRole;
+      action: AuditAction;
+      route: string;
+      session_id: string | null;
+      filters: Record<string, unknown> | null;
+      status_code: number | null;
+      created_at: Date;
+    }>(
+      `
+        SELECT id, user_email, user_role, action, route, session_id, filters, status_code, created_at
+        FROM ${sourceConfig.auditLogTableSql}
+        ${whereClause}
+        ORDER BY id DESC
+        LIMIT $${limitIndex}
+      `,
+      params
+    );
+
+    const items: AuditLogEntry[] = result.rows.map((row) => ({
+      id: String(row.id),
+      userEmail: row.user_email,
+      userRole: row.user_role,
+      action: row.action,
+      route: row.route,
+      sessionId: row.session_id,
+      filters: row.filters ?? {},
+      statusCode: row.status_code,
+      createdAt: row.created_at.toISOString()
+    }));
+
+    const payload: AuditLogResponse = {
+      items,
+      ...(items.length === limit ? { nextCursor: items[items.length - 1].id } : {})
+    };
+
+    res.json({ data: payload });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,19 +1,46 @@
 import { Router } from 'express';
+import { parseTagFilter } from '../annotations';
+import { listClassifications, parseClassificationFilter } from '../classification';
 import { config } from '../config';
-import { query } from '../db';
+import { tryParseIsoDate } from '../dates';
+import { createNdjsonWriter } from '../export/ndjson';
+import { isTranscriptFormat, renderTranscript } from '../export/transcript';
+import { getLiveSourceMode, subscribeToChatChanges } from '../live';
+import type { ChatChange } from '../live';
+import { auditAccess } from '../middleware/audit';
+import { chatSourceFor } from '../middleware/chatSource';
+import { redactionPolicy, redactorFor } from '../middleware/redaction';
+import { elideInlineMedia, readInlineMedia } from '../normalizers/media';
+import type { Redactor } from '../redaction';
 import type {
+  ActivityCount,
+  ListDateRange,
+  MessageCursor,
+  MessagePage,
+  ModelTokenCounts,
+  SessionFilters
+} from '../repository/chatRepository';
+import { isDatabaseSource } from '../sources';
+import { estimateCost, sumUsage } from '../usage';
+import type {
+  ActivityBucket,
+  ActivityStats,
+  ActivityTotals,
+  BulkExportGranularity,
+  BulkExportMessageLine,
+  BulkExportSessionLine,
+  ChatFacets,
   ChatListResponse,
-  ChatMessage,
-  ChatMessagePayload,
-  ChatSummary
+  ChatMessagePage,
+  ChatSearchHighlight,
+  ChatSummary,
+  ModelUsage,
+  SessionUsage,
+  TagCount,
+  UsageBucket
 } from '../types';
 
 const router = Router();
-const chatTable = config.chatTableSql;
-const visitorSettingsTable = config.visitorSettingsTableSql;
-const SALES_TYPE_CONDITION = "vs.type = 'sales'";
-const WHATSAPP_CONDITION = 'vs.is_whatsapp IS TRUE';
-const SESSION_WHATSAPP_CONDITION = "array_length(string_to_array(ss.session_id, '_'), 1) = 2";
 
 const parseBooleanFlag = (value: unknown) => {
   if (typeof value !== 'string') {
@@ -23,14 +50,15 @@ const parseBooleanFlag = (value: unknown) => {
   const normalized = value.trim().toLowerCase();
   return ['1', 'true', 'yes', 'on'].includes(normalized);
 };
+
 const DEFAULT_SUMMARY_LIMIT = 25;
 const MAX_SUMMARY_LIMIT = 200;
 const LIST_DEFAULT_LIMIT = 50;
 const LIST_MAX_LIMIT = 200;
+const MESSAGE_PAGE_DEFAULT_LIMIT = 100;
+const MESSAGE_PAGE_MAX_LIMIT = 500;
 const MIN_SEARCH_LENGTH = 3;
-
-const escapeForILike = (input: string) => input.replace(/([_%\\])/g, '\\$1');
-
+const MAX_MATCHES_PER_SESSION = 5;
 const parseLimit = (rawLimit: unknown) => {
   if (typeof rawLimit !== 'string') {
     return DEFAULT_SUMMARY_LIMIT;
@@ -45,6 +73,20 @@ const parseLimit = (rawLimit: unknown) => {
   return Math.min(Math.max(parsed, 1), MAX_SUMMARY_LIMIT);
 };
 
+const parseMessagePageLimit = (rawLimit: unknown) => {
+  if (typeof rawLimit !== 'string') {
+    return MESSAGE_PAGE_DEFAULT_LIMIT;
+  }
+
+  const parsed = Number.parseInt(rawLimit, 10);
+
+  if (!Number.isFinite(parsed)) {
+    return MESSAGE_PAGE_DEFAULT_LIMIT;
+  }
+
+  return Math.min(Math.max(parsed, 1), MESSAGE_PAGE_MAX_LIMIT);
+};
+
 const parseListLimit = (rawLimit: unknown) => {
   if (typeof rawLimit !== 'string') {
     return LIST_DEFAULT_LIMIT;
@@ -59,138 +101,191 @@ const parseListLimit = (rawLimit: unknown) => {
   return Math.min(Math.max(parsed, 1), LIST_MAX_LIMIT);
 };
 
-const normalizeCount = (value: string | number | null | undefined) => {
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value : 0;
+const CLASSIFICATION_FILTER_ERROR =
+  'classification must be a comma-separated list of up to 10 configured classification ids.';
+const EXCLUDED_CLASSIFICATION_FILTER_ERROR =
+  'excludeClassification must be a comma-separated list of up to 10 configured classification ids.';
+const TAG_FILTER_ERROR = 'tag must be a comma-separated list of up to 10 valid tags.';
+const TYPE_FILTER_ERROR = 'type must be given at most 20 times, each a non-empty visitor type.';
+const MAX_TYPE_FILTERS = 20;
+const MAX_TYPE_LENGTH = 100;
+const FACET_VALUE_LIMIT = 50;
+
+// `onlySales` / `onlyWhatsapp` predate configurable classifications and select those ids.
+const parseClassificationQuery = (query: Record<string, unknown>) =>
+  parseClassificationFilter(query.classification, [
+    ...(parseBooleanFlag(query.onlySales) ? ['sales'] : []),
+    ...(parseBooleanFlag(query.onlyWhatsapp) ? ['whatsapp'] : [])
+  ]);
+
+/**
+ * Redacts a search snippet while keeping its highlights. Highlighted and plain runs are redacted
+ * separately so offsets can be rebuilt; if that gives a different result than redacting the whole
+ * snippet (a match spanning a run boundary), the whole-snippet result wins and highlights are lost.
+ */
+const redactSnippet = (
+  redactor: Redactor,
+  parsed: { snippet: string; highlights: ChatSearchHighlight[] }
+) => {
+  const whole = redactor.text(parsed.snippet);
+
+  if (whole === parsed.snippet) {
+    return parsed;
   }
 
-  if (typeof value === 'string') {
-    const parsed = Number.parseInt(value, 10);
-    return Number.isFinite(parsed) ? parsed : 0;
+  const boundaries = [
+    0,
+    ...parsed.highlights.flatMap((highlight) => [
+      highlight.start,
+      highlight.start + highlight.length
+    ]),
+    parsed.snippet.length
+  ];
+  const highlights: ChatSearchHighlight[] = [];
+  let snippet = '';
+
+  for (let index = 0; index < boundaries.length - 1; index += 1) {
+    const run = redactor.text(parsed.snippet.slice(boundaries[index], boundaries[index + 1]));
+
+    if (index % 2 === 1 && run.length > 0) {
+      highlights.push({ start: snippet.length, length: run.length });
+    }
+
+    snippet += run;
   }
 
-  return 0;
+  return snippet === whole ? { snippet, highlights } : { snippet: whole, highlights: [] };
 };
 
-const tryParseIsoDate = (value: string | undefined): Date | undefined => {
-  if (!value) {
-    return undefined;
+/**
+ * Reads `from` / `to` (ISO 8601, `to` exclusive) and `dateField`, which picks whether the range
+ * applies to a session's last activity (the default) or to its first message.
+ */
+const parseListDateRange = (
+  rawFrom: unknown,
+  rawTo: unknown,
+  rawField: unknown
+): { range: ListDateRange } | { error: string } => {
+  const fromValue = typeof rawFrom === 'string' ? rawFrom.trim() : '';
+  const toValue = typeof rawTo === 'string' ? rawTo.trim() : '';
+  const field = rawField ?? 'lastMessageAt';
+  const from = tryParseIsoDate(fromValue);
+  const to = tryParseIsoDate(toValue);
+
+  if (field !== 'lastMessageAt' && field !== 'firstMessageAt') {
+    return { error: 'dateField must be either lastMessageAt or firstMessageAt.' };
   }
 
-  const parsed = new Date(value);
+  if ((fromValue && !from) || (toValue && !to)) {
+    return { error: 'from and to must be valid ISO 8601 dates.' };
+  }
 
-  if (Number.isNaN(parsed.getTime())) {
-    return undefined;
+  if (from && to && from >= to) {
+    return { error: 'from must be earlier than to.' };
   }
 
-  return parsed;
+  return { range: { field, from, to } };
 };
 
-router.get('/list', async (req, res, next) => {
-  const limit = parseListLimit(req.query.limit);
-  const cursorLastMessageAt =
-    typeof req.query.cursorLastMessageAt === 'string' ? req.query.cursorLastMessageAt : undefined;
-  const cursorSessionId =
-    typeof req.query.cursorSessionId === 'string' ? req.query.cursorSessionId : undefined;
-  const rawSearch = typeof req.query.search === 'string' ? req.query.search.trim() : undefined;
+/**
+ * Reads the visitor `type` filter. Types are free-form, so several are passed as repeated
+ * parameters rather than split on commas. Returns null for empty, overlong or too many values.
+ */
+const parseTypeFilter = (value: unknown): string[] | null => {
+  const rawValues = Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+  if (rawValues.length > MAX_TYPE_FILTERS) {
+    return null;
+  }
+
+  const types = new Set<string>();
+
+  for (const rawValue of rawValues) {
+    const type = typeof rawValue === 'string' ? rawValue.trim() : '';
+
+    if (type.length === 0 || type.length > MAX_TYPE_LENGTH) {
+      return null;
+    }
+
+    types.add(type);
+  }
+
+  return [...types];
+};
+
+/**
+ * Reads the session list filters shared by `/list`, `/facets`, `/bulk-export` and `/live`.
+ */
+const parseSessionFilters = (
+  query: Record<string, unknown>
+): { filters: SessionFilters } | { error: string } => {
+  const rawSearch = typeof query.search === 'string' ? query.search.trim() : undefined;
   const search = rawSearch && rawSearch.length > 0 ? rawSearch : undefined;
-  const onlySales = parseBooleanFlag(req.query.onlySales);
-  const onlyWhatsapp = parseBooleanFlag(req.query.onlyWhatsapp);
+  const classificationIds = parseClassificationQuery(query);
+  const excludedClassificationIds = parseClassificationFilter(query.excludeClassification);
+  const types = parseTypeFilter(query.type);
+  const tags = parseTagFilter(query.tag);
+  const dateRange = parseListDateRange(query.from, query.to, query.dateField);
 
   if (search && search.length < MIN_SEARCH_LENGTH) {
-    res.status(400).json({
-      error: `Search query must be at least ${MIN_SEARCH_LENGTH} characters long.`
-    });
-    return;
+    return { error: `Search query must be at least ${MIN_SEARCH_LENGTH} characters long.` };
   }
 
-  try {
-    const params: unknown[] = [];
-    const whereConditions: string[] = [];
+  if (!tags) {
+    return { error: TAG_FILTER_ERROR };
+  }
 
-    if (search) {
-      params.push(`${escapeForILike(search)}%`);
-      whereConditions.push(`session_id ILIKE $${params.length}`);
-    }
+  if (!classificationIds) {
+    return { error: CLASSIFICATION_FILTER_ERROR };
+  }
 
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+  if (!excludedClassificationIds) {
+    return { error: EXCLUDED_CLASSIFICATION_FILTER_ERROR };
+  }
 
-    const cursorConditions: string[] = [];
-    const filterConditions: string[] = [];
+  if (!types) {
+    return { error: TYPE_FILTER_ERROR };
+  }
+
+  if ('error' in dateRange) {
+    return dateRange;
+  }
 
-    if (onlySales && onlyWhatsapp) {
-      filterConditions.push(`(${SALES_TYPE_CONDITION} AND ${WHATSAPP_CONDITION})`);
-    } else if (onlySales) {
-      filterConditions.push(SALES_TYPE_CONDITION);
-    } else if (onlyWhatsapp) {
-      filterConditions.push(SESSION_WHATSAPP_CONDITION);
+  return {
+    filters: {
+      search,
+      classificationIds,
+      excludedClassificationIds,
+      types,
+      tags,
+      dateRange: dateRange.range
     }
-    const cursorDate = tryParseIsoDate(cursorLastMessageAt);
+  };
+};
 
-    if (cursorDate) {
-      params.push(cursorDate.toISOString());
-      const dateIndex = params.length;
+router.get('/list', auditAccess('list'), async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
+  const limit = parseListLimit(req.query.limit);
+  const cursorLastMessageAt =
+    typeof req.query.cursorLastMessageAt === 'string' ? req.query.cursorLastMessageAt : undefined;
+  const cursorSessionId =
+    typeof req.query.cursorSessionId === 'string' ? req.query.cursorSessionId : undefined;
+  const parsedFilters = parseSessionFilters(req.query);
 
-      if (cursorSessionId) {
-        params.push(cursorSessionId);
-        const sessionIndex = params.length;
-        cursorConditions.push(
-          `(ss.last_message_at < $${dateIndex} OR (ss.last_message_at = $${dateIndex} AND ss.session_id < $${sessionIndex}))`
-        );
-      } else {
-        cursorConditions.push(`ss.last_message_at < $${dateIndex}`);
-      }
-    }
+  if ('error' in parsedFilters) {
+    res.status(400).json({ error: parsedFilters.error });
+    return;
+  }
 
-    const cursorClause =
-      cursorConditions.length > 0 ? `AND ${cursorConditions.join(' AND ')}` : '';
-    const filterClause =
-      filterConditions.length > 0 ? `AND ${filterConditions.join(' AND ')}` : '';
-
-    params.push(limit);
-    const limitIndex = params.length;
-
-    const result = await query<{
-      session_id: string;
-      message_count: string | number;
-      last_message_at: Date | null;
-      is_sales: boolean | null;
-      is_whatsapp: boolean | null;
-    }>(
-      `
-        WITH session_stats AS (
-          SELECT
-            session_id,
-            COUNT(*) AS message_count,
-            MAX(created_at) AS last_message_at
-          FROM ${chatTable}
-          ${whereClause}
-          GROUP BY session_id
-        )
-        SELECT
-          ss.session_id,
-          ss.message_count,
-          ss.last_message_at,
-          COALESCE(${SALES_TYPE_CONDITION}, false) AS is_sales,
-          COALESCE(vs.is_whatsapp, false) AS is_whatsapp
-        FROM session_stats ss
-        LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = ss.session_id
-        WHERE 1=1
-        ${cursorClause}
-        ${filterClause}
-        ORDER BY last_message_at DESC NULLS LAST, session_id DESC
-        LIMIT $${limitIndex}
-      `,
-      params
-    );
+  const { filters } = parsedFilters;
 
-    const items = result.rows.map((row) => ({
-      sessionId: row.session_id,
-      lastMessageAt: row.last_message_at ? row.last_message_at.toISOString() : null,
-      messageCount: normalizeCount(row.message_count),
-      isSales: Boolean(row.is_sales),
-      isWhatsapp: Boolean(row.is_whatsapp)
-    }));
+  try {
+    const cursorDate = tryParseIsoDate(cursorLastMessageAt);
+    const items = await repository.listSessions({
+      filters,
+      cursor: cursorDate ? { lastMessageAt: cursorDate, sessionId: cursorSessionId } : undefined,
+      limit
+    });
 
     let nextCursor: { lastMessageAt: string; sessionId: string } | undefined;
 
@@ -215,52 +310,291 @@ router.get('/list', async (req, res, next) => {
   }
 });
 
-router.get('/', async (req, res, next) => {
+router.get('/search', auditAccess('search'), redactionPolicy, async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
+  const searchQuery = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const limit = parseLimit(req.query.limit);
+  const classificationIds = parseClassificationQuery(req.query);
+  const excludedClassificationIds = parseClassificationFilter(req.query.excludeClassification);
+  const types = parseTypeFilter(req.query.type);
+
+  if (searchQuery.length < MIN_SEARCH_LENGTH) {
+    res.status(400).json({
+      error: `Search query must be at least ${MIN_SEARCH_LENGTH} characters long.`
+    });
+    return;
+  }
+
+  if (!classificationIds) {
+    res.status(400).json({ error: CLASSIFICATION_FILTER_ERROR });
+    return;
+  }
+
+  if (!excludedClassificationIds) {
+    res.status(400).json({ error: EXCLUDED_CLASSIFICATION_FILTER_ERROR });
+    return;
+  }
+
+  if (!types) {
+    res.status(400).json({ error: TYPE_FILTER_ERROR });
+    return;
+  }
+
+  try {
+    const redactor = redactorFor(req);
+    const results = await repository.searchMessages({
+      text: searchQuery,
+      limit,
+      matchesPerSession: MAX_MATCHES_PER_SESSION,
+      classificationIds,
+      excludedClassificationIds,
+      types
+    });
+
+    res.json({
+      data: results.map((result) => ({
+        ...result,
+        matches: result.matches.map((match) => ({
+          ...match,
+          ...redactSnippet(redactor, match)
+        }))
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/bulk-export', auditAccess('bulk-export'), redactionPolicy, async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
+  const rawGranularity = req.query.granularity ?? 'message';
+  const parsedFilters = parseSessionFilters(req.query);
+
+  if ('error' in parsedFilters) {
+    res.status(400).json({ error: parsedFilters.error });
+    return;
+  }
+
+  if (rawGranularity !== 'message' && rawGranularity !== 'session') {
+    res.status(400).json({ error: 'granularity must be either message or session.' });
+    return;
+  }
+
+  const granularity: BulkExportGranularity = rawGranularity;
+  const { filters } = parsedFilters;
+
+  try {
+    const totals = await repository.countExport(filters);
+
+    const exportDate = new Date().toISOString().slice(0, 10);
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="chats-${exportDate}.ndjson"`);
+    res.setHeader('X-Export-Session-Count', String(totals.sessionCount));
+    res.setHeader('X-Export-Message-Count', String(totals.messageCount));
+    res.flushHeaders();
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  const writer = createNdjsonWriter(res);
+  let currentSession: BulkExportSessionLine | null = null;
+
+  try {
+    const redactor = redactorFor(req);
+
+    for await (const batch of repository.exportMessages(filters)) {
+      for (const { message, session } of batch) {
+        const payload = redactor.payload(message.payload);
+        const { id, sessionId, createdAt } = message;
+
+        if (granularity === 'message') {
+          const line: BulkExportMessageLine = {
+            sessionId,
+            id,
+            createdAt,
+            classifications: session.classifications,
+            payload
+          };
+          await writer.write(line);
+        } else {
+          if (currentSession && currentSession.sessionId !== sessionId) {
+            await writer.write(currentSession);
+            currentSession = null;
+          }
+
+          currentSession ??= { sessionId, ...session, messages: [] };
+          currentSession.messages.push({ id, createdAt, payload });
+        }
+      }
+
+      if (writer.isClosed()) {
+        // The client went away; leaving the loop closes the cursor.
+        break;
+      }
+    }
+
+    if (currentSession && !writer.isClosed()) {
+      await writer.write(currentSession);
+    }
+
+    res.end();
+  } catch (error) {
+    // Headers are already sent, so the only way to signal failure is to cut the stream short.
+    console.error('[api] Bulk export failed', error);
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+});
+
+const USAGE_DEFAULT_RANGE_DAYS = 30;
+const STATS_DEFAULT_RANGE_DAYS = 30;
+const STATS_MAX_RANGE_DAYS = 731;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toModelUsage = (counts: ModelTokenCounts): ModelUsage => ({
+  ...counts,
+  estimatedCost: estimateCost(counts.model, counts.promptTokens, counts.completionTokens)
+});
+
+router.get('/usage', async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
+  const rawFrom = typeof req.query.from === 'string' ? req.query.from : undefined;
+  const rawTo = typeof req.query.to === 'string' ? req.query.to : undefined;
+  const parsedFrom = tryParseIsoDate(rawFrom);
+  const parsedTo = tryParseIsoDate(rawTo);
+
+  if ((rawFrom && !parsedFrom) || (rawTo && !parsedTo)) {
+    res.status(400).json({ error: 'from and to must be valid ISO 8601 dates.' });
+    return;
+  }
+
+  const to = parsedTo ?? new Date();
+  const from = parsedFrom ?? new Date(to.getTime() - USAGE_DEFAULT_RANGE_DAYS * DAY_MS);
+
+  try {
+    const buckets: UsageBucket[] = (await repository.getDailyUsage(from, to)).map(
+      ({ day, ...counts }) => ({ day, ...toModelUsage(counts) })
+    );
+
+    res.json({ data: buckets });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Session counts per visitor type, classification and tag for the current list filters. Types
+ * and classifications are counted without their own filter, since selecting more of them widens
+ * the list; tags narrow it, so they are counted within the filtered sessions.
+ */
+router.get('/facets', async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
+  const parsedFilters = parseSessionFilters(req.query);
+
+  if ('error' in parsedFilters) {
+    res.status(400).json({ error: parsedFilters.error });
+    return;
+  }
+
+  try {
+    const facets: ChatFacets = await repository.getFacets(parsedFilters.filters, FACET_VALUE_LIMIT);
+
+    res.json({ data: facets });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/classifications', (_req, res) => {
+  res.json({ data: listClassifications() });
+});
+
+router.get('/tags', async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
+
+  try {
+    const tags: TagCount[] = await repository.listTagCounts();
+
+    res.json({ data: tags });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const toActivityTotals = (counts: ActivityCount): ActivityTotals => ({
+  ...counts,
+  avgMessagesPerSession: counts.sessionCount > 0 ? counts.messageCount / counts.sessionCount : 0
+});
+
+router.get('/stats', async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
+  const rawFrom = typeof req.query.from === 'string' ? req.query.from : undefined;
+  const rawTo = typeof req.query.to === 'string' ? req.query.to : undefined;
+  const bucket = req.query.bucket ?? 'day';
+  const parsedFrom = tryParseIsoDate(rawFrom);
+  const parsedTo = tryParseIsoDate(rawTo);
+
+  if ((rawFrom && !parsedFrom) || (rawTo && !parsedTo)) {
+    res.status(400).json({ error: 'from and to must be valid ISO 8601 dates.' });
+    return;
+  }
+
+  if (bucket !== 'day' && bucket !== 'week') {
+    res.status(400).json({ error: 'bucket must be either day or week.' });
+    return;
+  }
+
+  const to = parsedTo ?? new Date();
+  const from = parsedFrom ?? new Date(to.getTime() - STATS_DEFAULT_RANGE_DAYS * DAY_MS);
+
+  if (from >= to || to.getTime() - from.getTime() > STATS_MAX_RANGE_DAYS * DAY_MS) {
+    res.status(400).json({
+      error: `from must be before to and the range may span at most ${STATS_MAX_RANGE_DAYS} days.`
+    });
+    return;
+  }
+
+  try {
+    const activity = await repository.getActivity({ from, to, bucket });
+    const series: ActivityBucket[] = activity.series.map((counts) => ({
+      bucket: counts.bucket,
+      ...toActivityTotals(counts)
+    }));
+
+    const payload: ActivityStats = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      bucket,
+      totals: toActivityTotals(activity.totals),
+      series
+    };
+
+    res.json({ data: payload });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/', auditAccess('summary'), redactionPolicy, async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
   const sessionIdQuery =
     typeof req.query.sessionId === 'string' ? req.query.sessionId.trim() : undefined;
   const searchQuery =
     typeof req.query.search === 'string' ? req.query.search.trim() : undefined;
   const limit = parseLimit(req.query.limit);
+  const redactor = redactorFor(req);
+  const redactPreview = (chat: ChatSummary): ChatSummary => ({
+    ...chat,
+    lastMessagePreview:
+      chat.lastMessagePreview === null ? null : redactor.text(chat.lastMessagePreview)
+  });
 
   try {
     if (sessionIdQuery) {
-      const result = await query<{
-        session_id: string;
-        message_count: string;
-        last_message_content: string | null;
-        last_message_type: string | null;
-        last_message_at: Date | null;
-        is_sales: boolean | null;
-        is_whatsapp: boolean | null;
-      }>(
-        `
-          SELECT
-            cm.session_id,
-            COUNT(*) AS message_count,
-            MAX(cm.created_at) AS last_message_at,
-            (ARRAY_AGG(cm.message ->> 'content' ORDER BY cm.created_at DESC))[1] AS last_message_content,
-            (ARRAY_AGG(cm.message ->> 'type' ORDER BY cm.created_at DESC))[1] AS last_message_type,
-            COALESCE(BOOL_OR(${SALES_TYPE_CONDITION}), false) AS is_sales,
-            COALESCE(BOOL_OR(vs.is_whatsapp), false) AS is_whatsapp
-          FROM ${chatTable} cm
-          LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = cm.session_id
-          WHERE cm.session_id = $1
-          GROUP BY cm.session_id
-        `,
-        [sessionIdQuery]
-      );
+      const chat = await repository.getSessionSummary(sessionIdQuery);
 
-      const chats: ChatSummary[] = result.rows.map((row) => ({
-        sessionId: row.session_id,
-        lastMessagePreview: row.last_message_content,
-        lastMessageType: row.last_message_type,
-        lastMessageAt: row.last_message_at ? row.last_message_at.toISOString() : null,
-        messageCount: normalizeCount(row.message_count),
-        isSales: Boolean(row.is_sales),
-        isWhatsapp: Boolean(row.is_whatsapp)
-      }));
-
-      res.json({ data: chats });
+      res.json({ data: chat ? [redactPreview(chat)] : [] });
       return;
     }
 
@@ -278,122 +612,358 @@ router.get('/', async (req, res, next) => {
       return;
     }
 
-    const searchPattern = `${escapeForILike(searchQuery)}%`;
-
-    const result = await query<{
-      session_id: string;
-      message_count: string;
-      last_message_content: string | null;
-      last_message_type: string | null;
-      last_message_at: Date | null;
-      is_sales: boolean | null;
-      is_whatsapp: boolean | null;
-    }>(
-      `
-        WITH session_stats AS (
-          SELECT
-            session_id,
-            COUNT(*) AS message_count,
-            MAX(created_at) AS last_message_at
-          FROM ${chatTable}
-          WHERE session_id ILIKE $1
-          GROUP BY session_id
-        ),
-        limited_sessions AS (
-          SELECT *
-          FROM session_stats
-          ORDER BY last_message_at DESC
-          LIMIT $2
-        ),
-        last_messages AS (
-          SELECT
-            session_id,
-            message,
-            created_at
-          FROM ${chatTable}
-          WHERE session_id IN (SELECT session_id FROM limited_sessions)
-          ORDER BY session_id, created_at DESC
-        ),
-        ranked_last_messages AS (
-          SELECT
-            session_id,
-            message,
-            created_at,
-            ROW_NUMBER() OVER (PARTITION BY session_id ORDER BY created_at DESC) AS row_num
-          FROM last_messages
-        )
-        SELECT
-          ls.session_id,
-          ls.message_count,
-          ls.last_message_at,
-          rlm.message ->> 'content' AS last_message_content,
-          rlm.message ->> 'type' AS last_message_type,
-          COALESCE(${SALES_TYPE_CONDITION}, false) AS is_sales,
-          COALESCE(vs.is_whatsapp, false) AS is_whatsapp
-        FROM limited_sessions ls
-        JOIN ranked_last_messages rlm ON rlm.session_id = ls.session_id
-        LEFT JOIN ${visitorSettingsTable} vs ON vs.session_id = ls.session_id
-        WHERE rlm.row_num = 1
-        ORDER BY ls.last_message_at DESC
-      `,
-      [searchPattern, limit]
-    );
+    const chats = await repository.findSessionSummaries(searchQuery, limit);
 
-    const chats: ChatSummary[] = result.rows.map((row) => ({
-      sessionId: row.session_id,
-      lastMessagePreview: row.last_message_content,
-      lastMessageType: row.last_message_type,
-      lastMessageAt: row.last_message_at ? row.last_message_at.toISOString() : null,
-      messageCount: normalizeCount(row.message_count),
-      isSales: Boolean(row.is_sales),
-      isWhatsapp: Boolean(row.is_whatsapp)
-    }));
+    res.json({ data: chats.map(redactPreview) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const encodeMessageCursor = (cursor: MessageCursor) =>
+  Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+
+const decodeMessageCursor = (value: unknown): MessageCursor | undefined => {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    if (
+      Array.isArray(decoded) &&
+      typeof decoded[0] === 'string' &&
+      typeof decoded[1] === 'string' &&
+      tryParseIsoDate(decoded[0])
+    ) {
+      return { createdAt: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through to the invalid cursor response.
+  }
+
+  return undefined;
+};
+
+router.get(
+  '/:sessionId/messages',
+  auditAccess('messages'),
+  redactionPolicy,
+  async (req, res, next) => {
+    const { repository } = chatSourceFor(req);
+    const { sessionId } = req.params;
+    const limit = parseMessagePageLimit(req.query.limit);
+    const before = decodeMessageCursor(req.query.before);
+    const after = decodeMessageCursor(req.query.after);
+    const around = typeof req.query.around === 'string' ? req.query.around.trim() : undefined;
+    const cursorParams = [req.query.before, req.query.after, around].filter(Boolean);
+
+    if (cursorParams.length > 1) {
+      res.status(400).json({ error: 'Use only one of before, after or around.' });
+      return;
+    }
+
+    if ((req.query.before && !before) || (req.query.after && !after)) {
+      res.status(400).json({ error: 'Invalid message cursor.' });
+      return;
+    }
+
+    const redactor = redactorFor(req);
+
+    try {
+      const totalCount = await repository.countMessages(sessionId);
+
+      if (totalCount === 0) {
+        res.status(404).json({ error: 'Chat session not found' });
+        return;
+      }
 
-    res.json({ data: chats });
+      let entries: MessagePage['entries'];
+      let hasOlder: boolean;
+      let hasNewer: boolean;
+
+      if (before) {
+        const page = await repository.getMessagePage({
+          sessionId,
+          direction: 'older',
+          limit,
+          cursor: before
+        });
+        ({ entries } = page);
+        hasOlder = page.hasMore;
+        hasNewer = true;
+      } else if (after) {
+        const page = await repository.getMessagePage({
+          sessionId,
+          direction: 'newer',
+          limit,
+          cursor: after
+        });
+        ({ entries } = page);
+        hasOlder = true;
+        hasNewer = page.hasMore;
+      } else if (around) {
+        const anchorCursor = await repository.findMessageCursor(sessionId, around);
+
+        if (!anchorCursor) {
+          res.status(404).json({ error: 'Message not found in this chat session' });
+          return;
+        }
+
+        const olderPage = await repository.getMessagePage({
+          sessionId,
+          direction: 'older',
+          limit: Math.floor(limit / 2),
+          cursor: anchorCursor
+        });
+        const newerPage = await repository.getMessagePage({
+          sessionId,
+          direction: 'newer',
+          limit: limit - olderPage.entries.length,
+          cursor: anchorCursor,
+          inclusive: true
+        });
+        entries = [...olderPage.entries, ...newerPage.entries];
+        hasOlder = olderPage.hasMore;
+        hasNewer = newerPage.hasMore;
+      } else {
+        const page = await repository.getMessagePage({ sessionId, direction: 'newer', limit });
+        ({ entries } = page);
+        hasOlder = false;
+        hasNewer = page.hasMore;
+      }
+
+      const firstEntry = entries[0];
+      const lastEntry = entries[entries.length - 1];
+      const payload: ChatMessagePage = {
+        items: entries.map((entry) => elideInlineMedia(redactor.message(entry.message))),
+        totalCount,
+        hasOlder,
+        hasNewer,
+        ...(firstEntry ? { olderCursor: encodeMessageCursor(firstEntry.cursor) } : {}),
+        ...(lastEntry ? { newerCursor: encodeMessageCursor(lastEntry.cursor) } : {})
+      };
+
+      res.json({ data: payload });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get('/:sessionId/usage', async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
+
+  try {
+    const byModel = (await repository.getSessionUsage(req.params.sessionId)).map(toModelUsage);
+    const { unpricedModels, ...totals } = sumUsage(byModel);
+    const payload: SessionUsage = { totals, byModel, unpricedModels };
+
+    res.json({ data: payload });
   } catch (error) {
     next(error);
   }
 });
 
-router.get('/:sessionId/messages', async (req, res, next) => {
+router.get('/:sessionId/export', auditAccess('export'), redactionPolicy, async (req, res, next) => {
+  const { repository } = chatSourceFor(req);
   const { sessionId } = req.params;
+  const format = typeof req.query.format === 'string' ? req.query.format : 'md';
+  const includeSystem =
+    req.query.includeSystem === undefined ? true : parseBooleanFlag(req.query.includeSystem);
+  const includeToolCalls =
+    req.query.includeToolCalls === undefined ? true : parseBooleanFlag(req.query.includeToolCalls);
+
+  if (!isTranscriptFormat(format)) {
+    res.status(400).json({ error: 'format must be one of md, html, csv or json.' });
+    return;
+  }
 
   try {
-    const result = await query<{
-      id: string;
-      session_id: string;
-      message: unknown;
-      created_at: Date;
-    }>(
-      `
-        SELECT id, session_id, message, created_at
-        FROM ${chatTable}
-        WHERE session_id = $1
-        ORDER BY created_at ASC
-      `,
-      [sessionId]
-    );
+    const messages = (await repository.getSessionMessages(sessionId)).map(redactorFor(req).message);
 
-    if (result.rowCount === 0) {
+    if (messages.length === 0) {
       res.status(404).json({ error: 'Chat session not found' });
       return;
     }
 
-    const messages: ChatMessage[] = result.rows.map((row) => {
-      const payload = row.message as ChatMessagePayload;
+    const transcript = renderTranscript(sessionId, messages, format, {
+      includeSystem,
+      includeToolCalls
+    });
 
-      return {
-        id: row.id,
-        sessionId: row.session_id,
-        createdAt: row.created_at.toISOString(),
-        payload
-      };
+    res.setHeader('Content-Type', transcript.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${transcript.filename}"`);
+    res.send(transcript.body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Serves the media embedded in one content part of a message (`part` is its index in `content`),
+ * so message responses can leave base64 data out. Media stored as a remote URL is not served;
+ * clients load it from the attachment's `url`.
+ */
+router.get(
+  '/:sessionId/messages/:messageId/media/:part',
+  auditAccess('media'),
+  async (req, res, next) => {
+    const { repository } = chatSourceFor(req);
+    const { sessionId, messageId } = req.params;
+
+    if (!/^\d+$/.test(req.params.part)) {
+      res.status(400).json({ error: 'part must be a content part index.' });
+      return;
+    }
+
+    const part = Number.parseInt(req.params.part, 10);
+
+    try {
+      const [message] = await repository.getMessages(sessionId, [messageId]);
+
+      if (!message) {
+        res.status(404).json({ error: 'Message not found in this chat session' });
+        return;
+      }
+
+      const attachment = message.view.attachments.find((item) => item.part === part);
+      const media = attachment?.inline ? readInlineMedia(message.payload, part) : undefined;
+
+      if (!media) {
+        res.status(404).json({ error: 'The message has no inline media at this part.' });
+        return;
+      }
+
+      res.setHeader(
+        'Content-Type',
+        attachment?.mimeType ?? media.mimeType ?? 'application/octet-stream'
+      );
+      res.setHeader('Content-Length', String(media.data.length));
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      // The bytes come from chat payloads; never let a browser sniff or run them as a page.
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Security-Policy', "default-src 'none'; sandbox");
+      res.end(media.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const LIVE_HEARTBEAT_MS = 25_000;
+
+/**
+ * Server-Sent Events feed. `sessionId` streams new messages for the open conversation as `message`
+ * events; `list=true` streams `session` events for chats matching the list filters.
+ */
+router.get('/live', auditAccess('live'), redactionPolicy, async (req, res, next) => {
+  const source = chatSourceFor(req);
+  const { repository } = source;
+  const rawSessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId.trim() : '';
+  const sessionId = rawSessionId.length > 0 ? rawSessionId : undefined;
+  const includeList = parseBooleanFlag(req.query.list);
+  const parsedFilters = parseSessionFilters(req.query);
+  const redactor = redactorFor(req);
+
+  if (config.live.mode === 'off') {
+    res.status(503).json({ error: 'Live updates are disabled on this server.' });
+    return;
+  }
+
+  if (!isDatabaseSource(source)) {
+    res.status(503).json({ error: 'Live updates need a Postgres chat source.' });
+    return;
+  }
+
+  if (!sessionId && !includeList) {
+    res.status(400).json({ error: 'Provide a sessionId, list=true, or both.' });
+    return;
+  }
+
+  if ('error' in parsedFilters) {
+    res.status(400).json({ error: parsedFilters.error });
+    return;
+  }
+
+  const { filters } = parsedFilters;
+
+  const writeEvent = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  const publishChanges = async (changes: ChatChange[]) => {
+    const messageIds = changes
+      .filter((change) => change.sessionId === sessionId)
+      .map((change) => change.id);
+
+    if (sessionId && messageIds.length > 0) {
+      const messages = await repository.getMessages(sessionId, messageIds);
+
+      for (const message of messages) {
+        writeEvent('message', elideInlineMedia(redactor.message(message)));
+      }
+    }
+
+    if (includeList) {
+      const sessionIds = [...new Set(changes.map((change) => change.sessionId))];
+      // Sessions that no longer match the subscriber's filters are dropped.
+      const items = await repository.listSessions({ filters, sessionIds });
+
+      for (const item of items) {
+        writeEvent('session', item);
+      }
+    }
+  };
+
+  let closed = false;
+  let unsubscribe: (() => void) | undefined;
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  req.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  });
+
+  try {
+    const mode = await getLiveSourceMode(source);
+    // Batches are published one at a time so events reach the client in insertion order.
+    let publishing = Promise.resolve();
+
+    unsubscribe = await subscribeToChatChanges(source, (changes) => {
+      publishing = publishing
+        .then(() => publishChanges(changes))
+        .catch((error) => console.error('[live] Failed to publish chat changes', error));
     });
 
-    res.json({ data: messages });
+    if (closed) {
+      unsubscribe();
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    writeEvent('ready', { mode });
   } catch (error) {
+    unsubscribe?.();
     next(error);
+    return;
   }
+
+  // Comment lines keep proxies from closing an otherwise idle stream.
+  heartbeat = setInterval(() => {
+    if (!res.writableEnded) {
+      res.write(': ping\n\n');
+    }
+  }, LIVE_HEARTBEAT_MS);
 });
 
 export default router;
@@ -0,0 +1,338 @@
+import { Router } from 'express';
+import type { Request } from 'express';
+import { config } from '../config';
+import { tryParseIsoDate } from '../dates';
+import { auditAccess } from '../middleware/audit';
+import { requireRole } from '../middleware/auth';
+import { chatSourceFor, requireDatabase } from '../middleware/chatSource';
+import { redactionPolicy, redactorFor } from '../middleware/redaction';
+import { elideInlineMedia } from '../normalizers/media';
+import type {
+  ChatMessage,
+  LabeledMessage,
+  LabeledMessagesResponse,
+  MessageLabel,
+  MessageRating
+} from '../types';
+
+const router = Router();
+const LABELS_DEFAULT_LIMIT = 50;
+const LABELS_MAX_LIMIT = 200;
+const CONTEXT_DEFAULT_SIZE = 2;
+const CONTEXT_MAX_SIZE = 5;
+const MAX_COMMENT_LENGTH = 2000;
+
+/** The request's source database and repository, with the quoted name of its labels table. */
+const labelsStore = (req: Request) => {
+  const { db, repository, config: sourceConfig } = chatSourceFor(req);
+  return { db, repository, labelsTable: sourceConfig.messageLabelsTableSql };
+};
+
+const LABEL_COLUMNS = `
+  ml.id,
+  ml.message_id::text AS message_id,
+  ml.session_id,
+  ml.rating,
+  ml.categories,
+  ml.comment,
+  ml.reviewer_email,
+  ml.created_at,
+  ml.updated_at
+`;
+
+interface LabelRow {
+  id: string | number;
+  message_id: string;
+  session_id: string;
+  rating: MessageRating | null;
+  categories: string[] | null;
+  comment: string | null;
+  reviewer_email: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const toMessageLabel = (row: LabelRow): MessageLabel => ({
+  id: String(row.id),
+  messageId: row.message_id,
+  sessionId: row.session_id,
+  rating: row.rating,
+  categories: row.categories ?? [],
+  comment: row.comment,
+  reviewerEmail: row.reviewer_email,
+  createdAt: row.created_at.toISOString(),
+  updatedAt: row.updated_at.toISOString()
+});
+
+const readString = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+const parseBoundedInteger = (value: unknown, fallback: number, min: number, max: number) => {
+  if (typeof value !== 'string') {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+const isMessageRating = (value: unknown): value is MessageRating =>
+  value === 'good' || value === 'bad';
+
+// Scoped to this router's paths, like the annotations router it follows.
+router.use(
+  ['/labels', '/:sessionId/labels', '/:sessionId/messages/:messageId/label'],
+  requireDatabase
+);
+
+router.get('/labels/categories', (_req, res) => {
+  res.json({ data: config.labels.categories });
+});
+
+router.get('/labels', auditAccess('labels'), redactionPolicy, async (req, res, next) => {
+  const { db, repository, labelsTable } = labelsStore(req);
+  const rating = readString(req.query.rating);
+  const category = readString(req.query.category)?.toLowerCase();
+  const reviewer = readString(req.query.reviewer)?.toLowerCase();
+  const sessionId = readString(req.query.sessionId);
+  const rawFrom = readString(req.query.from);
+  const rawTo = readString(req.query.to);
+  const rawCursor = readString(req.query.cursor);
+  const from = tryParseIsoDate(rawFrom);
+  const to = tryParseIsoDate(rawTo);
+  const limit = parseBoundedInteger(req.query.limit, LABELS_DEFAULT_LIMIT, 1, LABELS_MAX_LIMIT);
+  const contextSize = parseBoundedInteger(
+    req.query.context,
+    CONTEXT_DEFAULT_SIZE,
+    0,
+    CONTEXT_MAX_SIZE
+  );
+
+  if (rating && !isMessageRating(rating)) {
+    res.status(400).json({ error: 'rating must be either good or bad.' });
+    return;
+  }
+
+  if ((rawFrom && !from) || (rawTo && !to)) {
+    res.status(400).json({ error: 'from and to must be valid ISO 8601 dates.' });
+    return;
+  }
+
+  if (rawCursor && !/^\d+$/.test(rawCursor)) {
+    res.status(400).json({ error: 'cursor must be a numeric label id.' });
+    return;
+  }
+
+  try {
+    const params: unknown[] = [];
+    const whereConditions: string[] = [];
+
+    if (rating) {
+      params.push(rating);
+      whereConditions.push(`ml.rating = $${params.length}`);
+    }
+
+    if (category) {
+      params.push(category);
+      whereConditions.push(`$${params.length} = ANY(ml.categories)`);
+    }
+
+    if (reviewer) {
+      params.push(reviewer);
+      whereConditions.push(`ml.reviewer_email = $${params.length}`);
+    }
+
+    if (sessionId) {
+      params.push(sessionId);
+      whereConditions.push(`ml.session_id = $${params.length}`);
+    }
+
+    if (from) {
+      params.push(from.toISOString());
+      whereConditions.push(`ml.updated_at >= $${params.length}`);
+    }
+
+    if (to) {
+      params.push(to.toISOString());
+      whereConditions.push(`ml.updated_at < $${params.length}`);
+    }
+
+    if (rawCursor) {
+      params.push(rawCursor);
+      whereConditions.push(`ml.id < $${params.length}`);
+    }
+
+    params.push(limit + 1);
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    const result = await db.query<LabelRow>(
+      `
+        SELECT ${LABEL_COLUMNS}
+        FROM ${labelsTable} ml
+        ${whereClause}
+        ORDER BY ml.id DESC
+        LIMIT $${params.length}
+      `,
+      params
+    );
+
+    const rows = result.rows.slice(0, limit);
+    const context = await repository.getMessageContext(
+      [...new Set(rows.map((row) => row.message_id))],
+      contextSize
+    );
+
+    const redactor = redactorFor(req);
+    const present = (message: ChatMessage) => elideInlineMedia(redactor.message(message));
+    // Labels whose message is no longer stored are left out.
+    const items: LabeledMessage[] = rows.flatMap((row) => {
+      const entry = context.get(row.message_id);
+
+      return entry
+        ? [
+            {
+              label: toMessageLabel(row),
+              message: present(entry.message),
+              before: entry.before.map(present),
+              after: entry.after.map(present)
+            }
+          ]
+        : [];
+    });
+
+    const payload: LabeledMessagesResponse = {
+      items,
+      ...(result.rows.length > limit ? { nextCursor: String(rows[rows.length - 1].id) } : {})
+    };
+
+    res.json({ data: payload });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:sessionId/labels', async (req, res, next) => {
+  const { db, labelsTable } = labelsStore(req);
+
+  try {
+    const result = await db.query<LabelRow>(
+      `
+        SELECT ${LABEL_COLUMNS}
+        FROM ${labelsTable} ml
+        WHERE ml.session_id = $1
+        ORDER BY ml.created_at ASC, ml.id ASC
+      `,
+      [req.params.sessionId]
+    );
+
+    res.json({ data: result.rows.map(toMessageLabel) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Each reviewer keeps one label per message; saving again replaces it.
+router.put(
+  '/:sessionId/messages/:messageId/label',
+  requireRole('reviewer'),
+  async (req, res, next) => {
+    const { db, repository, labelsTable } = labelsStore(req);
+    const { sessionId, messageId } = req.params;
+    const rating = req.body?.rating ?? null;
+    const rawCategories: unknown = req.body?.categories ?? [];
+    const comment = readString(req.body?.comment) ?? null;
+
+    if (rating !== null && !isMessageRating(rating)) {
+      res.status(400).json({ error: 'rating must be good, bad or null.' });
+      return;
+    }
+
+    if (
+      !Array.isArray(rawCategories) ||
+      rawCategories.some(
+        (category) => typeof category !== 'string' || !config.labels.categories.includes(category)
+      )
+    ) {
+      res.status(400).json({
+        error: `categories must be a list drawn from: ${config.labels.categories.join(', ')}.`
+      });
+      return;
+    }
+
+    const categories = [...new Set(rawCategories as string[])];
+
+    if (rating === null && categories.length === 0) {
+      res.status(400).json({ error: 'A label needs a rating or at least one category.' });
+      return;
+    }
+
+    if (comment && comment.length > MAX_COMMENT_LENGTH) {
+      res.status(400).json({
+        error: `comment must be at most ${MAX_COMMENT_LENGTH} characters long.`
+      });
+      return;
+    }
+
+    try {
+      if (!(await repository.findMessageCursor(sessionId, messageId))) {
+        res.status(404).json({ error: 'Message not found in this chat session' });
+        return;
+      }
+
+      const result = await db.query<LabelRow>(
+        `
+          INSERT INTO ${labelsTable} AS ml
+            (message_id, session_id, rating, categories, comment, reviewer_email)
+          VALUES ($1::uuid, $2, $3, $4::text[], $5, $6)
+          ON CONFLICT (message_id, reviewer_email) DO UPDATE
+          SET
+            rating = EXCLUDED.rating,
+            categories = EXCLUDED.categories,
+            comment = EXCLUDED.comment,
+            updated_at = now()
+          RETURNING ${LABEL_COLUMNS}
+        `,
+        [messageId, sessionId, rating, categories, comment, req.authUser?.email]
+      );
+
+      res.json({ data: toMessageLabel(result.rows[0]) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/:sessionId/messages/:messageId/label',
+  requireRole('reviewer'),
+  async (req, res, next) => {
+    const { db, labelsTable } = labelsStore(req);
+
+    try {
+      await db.query(
+        `
+          DELETE FROM ${labelsTable}
+          WHERE session_id = $1 AND message_id::text = $2 AND reviewer_email = $3
+        `,
+        [req.params.sessionId, req.params.messageId, req.authUser?.email]
+      );
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
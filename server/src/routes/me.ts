@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { config } from '../config';
+import { hasRole } from '../middleware/auth';
+import { chatSourceFor } from '../middleware/chatSource';
+import { isDatabaseSource } from '../sources';
+import type { CurrentUser } from '../types';
+
+const router = Router();
+
+router.get('/', (req, res) => {
+  const user: CurrentUser | undefined = req.authUser && {
+    ...req.authUser,
+    // Unredacted reads are audited first, which fixture sources cannot do.
+    canViewUnredacted:
+      config.redaction.enabled &&
+      isDatabaseSource(chatSourceFor(req)) &&
+      hasRole(req.authUser, config.redaction.unredactedRole)
+  };
+
+  res.json({ data: user });
+});
+
+export default router;
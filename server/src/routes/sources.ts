@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { listChatSources } from '../sources';
+
+const router = Router();
+
+router.get('/', (_req, res) => {
+  res.json({ data: listChatSources() });
+});
+
+export default router;
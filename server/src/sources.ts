@@ -0,0 +1,56 @@
+import { assertDatabaseConfig, config } from './config';
+import type { ChatSourceConfig } from './config';
+import { createDatabase } from './db';
+import type { Database } from './db';
+import type { ChatRepository } from './repository/chatRepository';
+import { createFixtureChatRepository } from './repository/fixture';
+import { createPostgresChatRepository } from './repository/postgres';
+import type { ChatSourceSummary } from './types';
+
+export interface ChatSource {
+  id: string;
+  label: string;
+  config: ChatSourceConfig;
+  /** Connects lazily; only used when the source reads from Postgres. */
+  db: Database;
+  repository: ChatRepository;
+}
+
+const createChatSource = (sourceConfig: ChatSourceConfig): ChatSource => {
+  const db = createDatabase(sourceConfig.db);
+
+  if (sourceConfig.dataSource.kind === 'postgres') {
+    assertDatabaseConfig(sourceConfig);
+  }
+
+  return {
+    id: sourceConfig.id,
+    label: sourceConfig.label,
+    config: sourceConfig,
+    db,
+    repository:
+      sourceConfig.dataSource.kind === 'fixture'
+        ? createFixtureChatRepository(sourceConfig.dataSource.path)
+        : createPostgresChatRepository(sourceConfig, db)
+  };
+};
+
+export const chatSources = config.sources.map(createChatSource);
+
+export const defaultChatSource = chatSources[0];
+
+export const findChatSource = (id: string) => chatSources.find((source) => source.id === id);
+
+export const isDatabaseSource = (source: ChatSource) =>
+  source.config.dataSource.kind === 'postgres';
+
+export const listChatSources = (): ChatSourceSummary[] =>
+  chatSources.map(({ id, label, config: sourceConfig }) => ({
+    id,
+    label,
+    kind: sourceConfig.dataSource.kind
+  }));
+
+export const disconnectChatSources = async () => {
+  await Promise.all(chatSources.map((source) => source.db.disconnect()));
+};
@@ -1,3 +1,34 @@
+export type UserRole = 'viewer' | 'reviewer' | 'admin';
+
+export interface AuthUser {
+  email: string;
+  name?: string;
+  picture?: string;
+  role: UserRole;
+}
+
+/** The signed-in user as returned by `/api/me`. */
+export interface CurrentUser extends AuthUser {
+  /** Whether the user may pass `unredacted=true` to read message data without PII redaction. */
+  canViewUnredacted: boolean;
+}
+
+export type ClassificationKind = 'channel' | 'segment';
+
+export interface SessionClassification {
+  id: string;
+  label: string;
+  kind: ClassificationKind;
+}
+
+/** A configured chat database or fixture; API routes are scoped by its `id`. */
+export interface ChatSourceSummary {
+  id: string;
+  label: string;
+  /** Fixture sources are read-only: notes, tags, labels and live updates need Postgres. */
+  kind: 'postgres' | 'fixture';
+}
+
 export type ChatAuthorType = 'ai' | 'human' | 'system' | string;
 
 export interface ChatSummary {
@@ -6,13 +37,17 @@ export interface ChatSummary {
   lastMessageType: ChatAuthorType | null;
   lastMessageAt: string | null;
   messageCount: number;
-  isSales: boolean;
-  isWhatsapp: boolean;
+  /** Ids of the configured session classifications this session matches. */
+  classifications: string[];
 }
 
+/**
+ * The stored message JSON. Fields are typed for the LangChain shape; OpenAI and Anthropic rows
+ * carry `role` instead of `type`, so read it through the message's `view`.
+ */
 export interface ChatMessagePayload {
   type: ChatAuthorType;
-  content: string | null;
+  content: unknown;
   tool_calls?: unknown;
   additional_kwargs?: unknown;
   response_metadata?: unknown;
@@ -20,19 +55,81 @@ export interface ChatMessagePayload {
   [key: string]: unknown;
 }
 
+/** Payload shapes the normalizer registry recognises; `unknown` payloads get a best effort. */
+export type PayloadFormat = 'langchain' | 'openai' | 'anthropic' | 'unknown';
+
+export interface MessageTextPart {
+  /** `thinking` holds model reasoning (Anthropic thinking blocks), shown apart from the answer. */
+  kind: 'text' | 'thinking';
+  text: string;
+}
+
+export interface MessageToolCall {
+  id: string | null;
+  name: string;
+  args: unknown;
+  /** Set for LangChain `invalid_tool_calls`, which failed to parse. */
+  invalid: boolean;
+  error?: string;
+}
+
+export interface MessageToolResult {
+  /** Id of the tool call this result answers, when the payload names one. */
+  callId: string | null;
+  name?: string;
+  content: string;
+  isError: boolean;
+}
+
+export interface MessageAttachment {
+  kind: 'image' | 'audio' | 'file';
+  /** Index of the part in the payload's `content` array. */
+  part: number;
+  mimeType?: string;
+  name?: string;
+  /** Whether the payload embeds the data, which the media endpoint serves. */
+  inline: boolean;
+  /** Decoded size in bytes of embedded data. */
+  size?: number;
+  /** Remote http(s) location. */
+  url?: string;
+}
+
+/** Format-independent reading of a payload, derived on the server for every message. */
+export interface MessageView {
+  format: PayloadFormat;
+  role: ChatAuthorType;
+  /** The tool (or named participant) that produced the message. */
+  name?: string;
+  parts: MessageTextPart[];
+  toolCalls: MessageToolCall[];
+  toolResults: MessageToolResult[];
+  attachments: MessageAttachment[];
+}
+
 export interface ChatMessage {
   id: string;
   sessionId: string;
   createdAt: string;
   payload: ChatMessagePayload;
+  view: MessageView;
+}
+
+export interface ChatMessagePage {
+  items: ChatMessage[];
+  totalCount: number;
+  hasOlder: boolean;
+  hasNewer: boolean;
+  olderCursor?: string;
+  newerCursor?: string;
 }
 
 export interface ChatListItem {
   sessionId: string;
   lastMessageAt: string | null;
   messageCount: number;
-  isSales: boolean;
-  isWhatsapp: boolean;
+  classifications: string[];
+  tags: string[];
 }
 
 export interface ChatListCursor {
@@ -44,3 +141,182 @@ export interface ChatListResponse {
   items: ChatListItem[];
   nextCursor?: ChatListCursor;
 }
+
+export type BulkExportGranularity = 'message' | 'session';
+
+export interface BulkExportMessageLine {
+  sessionId: string;
+  id: string;
+  createdAt: string;
+  classifications: string[];
+  payload: ChatMessagePayload;
+}
+
+export interface BulkExportSessionLine {
+  sessionId: string;
+  messageCount: number;
+  lastMessageAt: string | null;
+  classifications: string[];
+  messages: Array<{ id: string; createdAt: string; payload: ChatMessagePayload }>;
+}
+
+export interface ChatSearchHighlight {
+  start: number;
+  length: number;
+}
+
+export interface ChatSearchMatch {
+  messageId: string;
+  messageType: ChatAuthorType | null;
+  createdAt: string;
+  snippet: string;
+  highlights: ChatSearchHighlight[];
+}
+
+export interface ChatSearchResult {
+  sessionId: string;
+  matchCount: number;
+  lastMatchAt: string | null;
+  classifications: string[];
+  matches: ChatSearchMatch[];
+}
+
+export type AuditAction =
+  | 'list'
+  | 'summary'
+  | 'search'
+  | 'messages'
+  | 'export'
+  | 'bulk-export'
+  | 'labels'
+  | 'live'
+  | 'media'
+  | 'unredacted';
+
+export interface AuditLogEntry {
+  id: string;
+  userEmail: string;
+  userRole: UserRole;
+  action: AuditAction;
+  route: string;
+  sessionId: string | null;
+  filters: Record<string, unknown>;
+  statusCode: number | null;
+  createdAt: string;
+}
+
+export interface AuditLogResponse {
+  items: AuditLogEntry[];
+  nextCursor?: string;
+}
+
+export interface TokenUsageTotals {
+  messageCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Estimated USD cost; `null` when no model involved has a configured price. */
+  estimatedCost: number | null;
+}
+
+export interface ModelUsage extends TokenUsageTotals {
+  model: string;
+}
+
+export interface SessionUsage {
+  totals: TokenUsageTotals;
+  byModel: ModelUsage[];
+  unpricedModels: string[];
+}
+
+export interface UsageBucket extends ModelUsage {
+  day: string;
+}
+
+export type ActivityBucketSize = 'day' | 'week';
+
+export interface ActivityTotals {
+  sessionCount: number;
+  messageCount: number;
+  /** Sessions per classification id. */
+  classificationSessionCounts: Record<string, number>;
+  avgMessagesPerSession: number;
+}
+
+export interface ActivityBucket extends ActivityTotals {
+  /** Bucket start date (UTC, `YYYY-MM-DD`); weeks start on Monday. */
+  bucket: string;
+}
+
+export interface ActivityStats {
+  from: string;
+  to: string;
+  bucket: ActivityBucketSize;
+  totals: ActivityTotals;
+  series: ActivityBucket[];
+}
+
+export interface SessionNote {
+  id: string;
+  sessionId: string;
+  body: string;
+  authorEmail: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionTag {
+  tag: string;
+  authorEmail: string;
+  createdAt: string;
+}
+
+export interface TagCount {
+  tag: string;
+  sessionCount: number;
+}
+
+export interface FacetValueCount {
+  value: string;
+  sessionCount: number;
+}
+
+/** Sessions that would match, or not match, the classification under the other filters. */
+export interface ClassificationFacet extends SessionClassification {
+  matchingCount: number;
+  otherCount: number;
+}
+
+export interface ChatFacets {
+  sessionCount: number;
+  types: FacetValueCount[];
+  classifications: ClassificationFacet[];
+  tags: TagCount[];
+}
+
+export type MessageRating = 'good' | 'bad';
+
+export interface MessageLabel {
+  id: string;
+  messageId: string;
+  sessionId: string;
+  rating: MessageRating | null;
+  categories: string[];
+  comment: string | null;
+  reviewerEmail: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LabeledMessage {
+  label: MessageLabel;
+  message: ChatMessage;
+  /** Up to `context` messages immediately before and after the labeled one, oldest first. */
+  before: ChatMessage[];
+  after: ChatMessage[];
+}
+
+export interface LabeledMessagesResponse {
+  items: LabeledMessage[];
+  nextCursor?: string;
+}
@@ -0,0 +1,17 @@
+import type { Redactor } from '../redaction';
+import type { ChatSource } from '../sources';
+import type { AuthUser } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      authUser?: AuthUser;
+      /** Set by `resolveChatSource`; see `chatSourceFor`. */
+      chatSource?: ChatSource;
+      /** Set when the request was granted unredacted access; see `redactorFor`. */
+      redactor?: Redactor;
+    }
+  }
+}
+
+export {};
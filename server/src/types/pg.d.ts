@@ -8,9 +8,23 @@ declare module 'pg' {
     [key: string]: unknown;
   }
 
+  export interface Notification {
+    channel: string;
+    payload?: string;
+  }
+
+  export class PoolClient {
+    query<T = unknown>(text: string, params?: unknown[]): Promise<QueryResult<T>>;
+    release(error?: Error | boolean): void;
+    on(event: 'notification', listener: (message: Notification) => void): this;
+    on(event: 'error', listener: (error: Error) => void): this;
+    removeAllListeners(event?: string): this;
+  }
+
   export class Pool {
     constructor(config?: PoolConfig);
     query<T = unknown>(text: string, params?: unknown[]): Promise<QueryResult<T>>;
+    connect(): Promise<PoolClient>;
     end(): Promise<void>;
   }
 }
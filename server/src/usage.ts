@@ -0,0 +1,176 @@
+import { config } from './config';
+import type { ModelPrice } from './config';
+import type { ChatMessagePayload, ModelUsage, TokenUsageTotals } from './types';
+
+const numberAt = (path: string) =>
+  `CASE WHEN jsonb_typeof(${path}) = 'number' THEN (${path})::numeric END`;
+
+/**
+ * Per-message usage columns for a chat table aliased as `alias`. Covers LangChain's
+ * `usage_metadata`, OpenAI-style `response_metadata.token_usage` and Anthropic-style
+ * `response_metadata.usage`.
+ */
+export const usageColumnsSql = (alias: string) => {
+  const message = `${alias}.message`;
+  const prompt = `COALESCE(
+    ${numberAt(`${message} -> 'usage_metadata' -> 'input_tokens'`)},
+    ${numberAt(`${message} -> 'response_metadata' -> 'token_usage' -> 'prompt_tokens'`)},
+    ${numberAt(`${message} -> 'response_metadata' -> 'usage' -> 'input_tokens'`)},
+    ${numberAt(`${message} -> 'response_metadata' -> 'usage' -> 'prompt_tokens'`)}
+  )`;
+  const completion = `COALESCE(
+    ${numberAt(`${message} -> 'usage_metadata' -> 'output_tokens'`)},
+    ${numberAt(`${message} -> 'response_metadata' -> 'token_usage' -> 'completion_tokens'`)},
+    ${numberAt(`${message} -> 'response_metadata' -> 'usage' -> 'output_tokens'`)},
+    ${numberAt(`${message} -> 'response_metadata' -> 'usage' -> 'completion_tokens'`)}
+  )`;
+  const total = `COALESCE(
+    ${numberAt(`${message} -> 'usage_metadata' -> 'total_tokens'`)},
+    ${numberAt(`${message} -> 'response_metadata' -> 'token_usage' -> 'total_tokens'`)},
+    ${numberAt(`${message} -> 'response_metadata' -> 'usage' -> 'total_tokens'`)},
+    ${prompt} + ${completion}
+  )`;
+
+  return `
+    COALESCE(
+      ${message} -> 'response_metadata' ->> 'model_name',
+      ${message} -> 'response_metadata' ->> 'model',
+      'unknown'
+    ) AS model,
+    ${prompt} AS prompt_tokens,
+    ${completion} AS completion_tokens,
+    ${total} AS total_tokens
+  `;
+};
+
+export const USAGE_PRESENT_CONDITION =
+  'prompt_tokens IS NOT NULL OR completion_tokens IS NOT NULL OR total_tokens IS NOT NULL';
+
+const pathValue = (value: unknown, path: string[]) =>
+  path.reduce<unknown>(
+    (current, key) =>
+      typeof current === 'object' && current !== null && !Array.isArray(current)
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value
+  );
+
+const firstNumber = (payload: ChatMessagePayload, paths: string[][]) => {
+  for (const path of paths) {
+    const value = pathValue(payload, path);
+
+    if (typeof value === 'number') {
+      return value;
+    }
+  }
+
+  return null;
+};
+
+const firstString = (payload: ChatMessagePayload, paths: string[][]) => {
+  for (const path of paths) {
+    const value = pathValue(payload, path);
+
+    if (typeof value === 'string') {
+      return value;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * In-memory counterpart of `usageColumnsSql` for messages that do not come from Postgres.
+ * Returns undefined when the message reports no token usage.
+ */
+export const messageUsage = (payload: ChatMessagePayload) => {
+  const promptTokens = firstNumber(payload, [
+    ['usage_metadata', 'input_tokens'],
+    ['response_metadata', 'token_usage', 'prompt_tokens'],
+    ['response_metadata', 'usage', 'input_tokens'],
+    ['response_metadata', 'usage', 'prompt_tokens']
+  ]);
+  const completionTokens = firstNumber(payload, [
+    ['usage_metadata', 'output_tokens'],
+    ['response_metadata', 'token_usage', 'completion_tokens'],
+    ['response_metadata', 'usage', 'output_tokens'],
+    ['response_metadata', 'usage', 'completion_tokens']
+  ]);
+  const totalTokens =
+    firstNumber(payload, [
+      ['usage_metadata', 'total_tokens'],
+      ['response_metadata', 'token_usage', 'total_tokens'],
+      ['response_metadata', 'usage', 'total_tokens']
+    ]) ??
+    (promptTokens !== null && completionTokens !== null ? promptTokens + completionTokens : null);
+
+  if (promptTokens === null && completionTokens === null && totalTokens === null) {
+    return undefined;
+  }
+
+  return {
+    model:
+      firstString(payload, [
+        ['response_metadata', 'model_name'],
+        ['response_metadata', 'model']
+      ]) ?? 'unknown',
+    promptTokens,
+    completionTokens,
+    totalTokens
+  };
+};
+
+/**
+ * Looks up the exact model name first, otherwise the longest configured prefix, so `gpt-4o`
+ * prices `gpt-4o-2024-08-06`.
+ */
+const findModelPrice = (model: string): ModelPrice | undefined => {
+  const prices = config.usage.modelPrices;
+
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : undefined;
+};
+
+export const estimateCost = (model: string, promptTokens: number, completionTokens: number) => {
+  const price = findModelPrice(model);
+
+  if (!price) {
+    return null;
+  }
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
+
+export const sumUsage = (rows: ModelUsage[]): TokenUsageTotals & { unpricedModels: string[] } => {
+  const totals = rows.reduce(
+    (acc, row) => ({
+      messageCount: acc.messageCount + row.messageCount,
+      promptTokens: acc.promptTokens + row.promptTokens,
+      completionTokens: acc.completionTokens + row.completionTokens,
+      totalTokens: acc.totalTokens + row.totalTokens,
+      estimatedCost:
+        row.estimatedCost === null
+          ? acc.estimatedCost
+          : (acc.estimatedCost ?? 0) + row.estimatedCost
+    }),
+    {
+      messageCount: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimatedCost: null as number | null
+    }
+  );
+
+  return {
+    ...totals,
+    unpricedModels: rows.filter((row) => row.estimatedCost === null).map((row) => row.model)
+  };
+};
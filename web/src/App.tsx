@@ -1,8 +1,58 @@
-import type { FormEvent } from 'react';
+import type { FormEvent, ReactNode } from 'react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { fetchChatList, fetchChatMessages, UnauthorizedError } from './api';
-import { initializeAuthToken, persistAuthToken } from './auth';
-import type { ChatListCursor, ChatListItem, ChatMessage } from './types';
+import {
+  downloadChatTranscript,
+  fetchChatFacets,
+  fetchChatList,
+  fetchChatSources,
+  fetchClassifications,
+  fetchCurrentUser,
+  fetchLabelCategories,
+  fetchSessionLabels,
+  fetchSessionUsage,
+  fetchTagCounts,
+  deleteMessageLabel,
+  ForbiddenError,
+  saveMessageLabel,
+  searchChatContent,
+  UnauthorizedError
+} from './api';
+import type { BulkExportGranularity, FacetFilterOptions, TranscriptFormat } from './api';
+import { hasRole, initializeAuthToken, persistAuthToken } from './auth';
+import { getChatSourceId, initializeChatSource, persistChatSource } from './chatSource';
+import CompareView from './CompareView';
+import Dashboard from './Dashboard';
+import DateRangePicker from './DateRangePicker';
+import { triggerDownload } from './download';
+import FacetFilters from './FacetFilters';
+import FindBar from './FindBar';
+import type { ClassificationSide } from './FacetFilters';
+import { findMatches, findMatchKey } from './findInConversation';
+import type { FindMatch } from './findInConversation';
+import { formatDateTime, MessageCard } from './MessageCard';
+import MessageLabelPicker from './MessageLabelPicker';
+import { buildRouteUrl, parseRoute, readLocationRoute } from './routing';
+import type { AppRoute } from './routing';
+import SessionAnnotations from './SessionAnnotations';
+import { buildToolCallIndex } from './toolCalls';
+import type {
+  ChatDateRange,
+  ChatFacets,
+  ChatListCursor,
+  ChatListItem,
+  ChatSearchMatch,
+  ChatSearchResult,
+  ChatSourceSummary,
+  CurrentUser,
+  MessageLabel,
+  MessageLabelInput,
+  SessionClassification,
+  SessionUsage,
+  TagCount
+} from './types';
+import { useBulkExport } from './useBulkExport';
+import { useLiveUpdates } from './useLiveUpdates';
+import { useMessagePages } from './useMessagePages';
 
 type GoogleCredentialResponse = {
   credential?: string;
@@ -29,43 +79,38 @@ declare global {
   }
 }
 
-const formatDateTime = (value: string | null) => {
-  if (!value) {
-    return 'Unknown';
-  }
-
-  return new Date(value).toLocaleString();
-};
+const formatTokens = (value: number) => value.toLocaleString();
 
-const formatMessageContent = (message: ChatMessage) => {
-  const { content } = message.payload;
+const formatCost = (value: number) =>
+  value.toLocaleString(undefined, {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value < 1 ? 4 : 2
+  });
 
-  if (content == null) {
-    return '';
-  }
+const renderHighlightedSnippet = (match: ChatSearchMatch): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
 
-  if (typeof content === 'string') {
-    return content;
-  }
+  match.highlights.forEach((highlight, index) => {
+    if (highlight.start > cursor) {
+      nodes.push(match.snippet.slice(cursor, highlight.start));
+    }
 
-  if (Array.isArray(content)) {
-    return content
-      .map((item) => {
-        if (
-          item &&
-          typeof item === 'object' &&
-          'text' in item &&
-          typeof item.text === 'string'
-        ) {
-          return item.text;
-        }
+    nodes.push(
+      <mark key={index}>
+        {match.snippet.slice(highlight.start, highlight.start + highlight.length)}
+      </mark>
+    );
+    cursor = highlight.start + highlight.length;
+  });
 
-        return JSON.stringify(item, null, 2);
-      })
-      .join('\n\n');
+  if (cursor < match.snippet.length) {
+    nodes.push(match.snippet.slice(cursor));
   }
 
-  return JSON.stringify(content, null, 2);
+  return nodes;
 };
 
 const decodeEmailFromToken = (token: string): string | null => {
@@ -84,33 +129,182 @@ const decodeEmailFromToken = (token: string): string | null => {
 };
 
 const initialAuthToken = typeof window === 'undefined' ? null : initializeAuthToken();
+const initialRoute = readLocationRoute();
+const initialChatSourceId = initializeChatSource(initialRoute.source);
 
 const CHAT_PAGE_SIZE = 50;
+const CONTENT_SEARCH_LIMIT = 50;
 const MIN_CHAT_SEARCH_LENGTH = 3;
 
+type SearchMode = 'session' | 'content';
+
+type AppView = 'chats' | 'dashboard' | 'compare';
+
+const EXPORT_FORMATS: Array<{ format: TranscriptFormat; label: string }> = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' }
+];
+
 const App = () => {
   const [authToken, setAuthTokenState] = useState<string | null>(initialAuthToken);
   const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
   const [authError, setAuthError] = useState<string | null>(null);
   const [authReady, setAuthReady] = useState(Boolean(initialAuthToken));
+  const [chatSources, setChatSources] = useState<ChatSourceSummary[]>([]);
+  // `null` until a source is picked, meaning the server's first source.
+  const [chatSourceId, setChatSourceId] = useState<string | null>(initialChatSourceId);
   const [chatList, setChatList] = useState<ChatListItem[]>([]);
   const [listCursor, setListCursor] = useState<ChatListCursor | null>(null);
-  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(initialRoute.sessionId);
+  const [sessionUsage, setSessionUsage] = useState<SessionUsage | null>(null);
+  const [messageLabels, setMessageLabels] = useState<MessageLabel[]>([]);
+  const [labelCategories, setLabelCategories] = useState<string[]>([]);
   const [listLoading, setListLoading] = useState(false);
-  const [loadingMessages, setLoadingMessages] = useState(false);
   const [listError, setListError] = useState<string | null>(null);
-  const [messagesError, setMessagesError] = useState<string | null>(null);
   const [includeSystemMessages, setIncludeSystemMessages] = useState(true);
+  const [unredactedSessionId, setUnredactedSessionId] = useState<string | null>(null);
   const [expandedMessageIds, setExpandedMessageIds] = useState<Record<string, boolean>>({});
-  const [searchInput, setSearchInput] = useState('');
-  const [appliedSearch, setAppliedSearch] = useState('');
+  const [searchInput, setSearchInput] = useState(initialRoute.search);
+  const [appliedSearch, setAppliedSearch] = useState(initialRoute.search);
   const [searchFeedback, setSearchFeedback] = useState<string | null>(null);
-  const [showSalesOnly, setShowSalesOnly] = useState(false);
-  const [showWhatsappOnly, setShowWhatsappOnly] = useState(false);
+  const [classifications, setClassifications] = useState<SessionClassification[]>([]);
+  const [classificationFilter, setClassificationFilter] = useState<string[]>(
+    initialRoute.classifications
+  );
+  const [excludedClassificationFilter, setExcludedClassificationFilter] = useState<string[]>(
+    initialRoute.excludedClassifications
+  );
+  const [typeFilter, setTypeFilter] = useState<string[]>(initialRoute.types);
+  const [tagFilter, setTagFilter] = useState<string[]>(initialRoute.tags);
+  const [facets, setFacets] = useState<ChatFacets | null>(null);
+  const [dateRange, setDateRange] = useState<ChatDateRange | null>(initialRoute.dateRange);
+  const [knownTags, setKnownTags] = useState<TagCount[]>([]);
+  const [pendingSessions, setPendingSessions] = useState<ChatListItem[]>([]);
+  const [searchMode, setSearchMode] = useState<SearchMode>(initialRoute.searchMode);
+  const [view, setView] = useState<AppView>('chats');
+  const [contentResults, setContentResults] = useState<ChatSearchResult[]>([]);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(initialRoute.messageId);
+  const [findQuery, setFindQuery] = useState('');
+  const [findIncludeRaw, setFindIncludeRaw] = useState(false);
+  const [activeFindIndex, setActiveFindIndex] = useState(0);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [exportIncludeToolCalls, setExportIncludeToolCalls] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Unredacted data is opt-in per session, so switching chats always falls back to redacted.
+  // Fixture sources cannot audit unredacted reads, so switching to one turns the toggle off.
+  const showUnredacted =
+    currentUser?.canViewUnredacted === true &&
+    selectedSessionId !== null &&
+    unredactedSessionId === selectedSessionId;
+  const selectedSessionIdRef = useRef<string | null>(null);
+  // A session opened from a link stays selected even when the first list page does not include it.
+  const linkedSessionIdRef = useRef<string | null>(initialRoute.sessionId);
+  const chatListRef = useRef<ChatListItem[]>([]);
+  const scrolledToMessageIdRef = useRef<string | null>(null);
+  const scrolledToFindMatchRef = useRef<string | null>(null);
   const googleButtonRef = useRef<HTMLDivElement | null>(null);
   const googleClientId = import.meta.env.VITE_GOOGLE_CLIENT_ID as string | undefined;
 
+  // The API client reads the active source, so it is switched before any effect refetches.
+  const handleChatSourceChange = useCallback((sourceId: string | null) => {
+    persistChatSource(sourceId);
+    setChatSourceId(sourceId);
+    linkedSessionIdRef.current = null;
+    setChatList([]);
+    setListCursor(null);
+    setPendingSessions([]);
+    setSelectedSessionId(null);
+    setFocusedMessageId(null);
+    setContentResults([]);
+    // Tags belong to one source's sessions.
+    setTagFilter([]);
+    setKnownTags([]);
+  }, []);
+
+  const handleSignOut = useCallback(() => {
+    setAuthTokenState(null);
+    setCurrentUser(null);
+    setAuthReady(false);
+    setAuthError(null);
+    setChatList([]);
+    setListCursor(null);
+    setSelectedSessionId(null);
+    setListError(null);
+    setExpandedMessageIds({});
+    setSearchInput('');
+    setAppliedSearch('');
+    setClassificationFilter([]);
+    setSearchMode('session');
+    setContentResults([]);
+    setFocusedMessageId(null);
+    window.google?.accounts?.id?.disableAutoSelect?.();
+  }, []);
+
+  const handleUnauthorized = useCallback(() => {
+    handleSignOut();
+    setAuthError('Session expired. Please sign in again.');
+  }, [handleSignOut]);
+
+  const {
+    messages,
+    messagePage,
+    loadingMessages,
+    loadingOlderMessages,
+    loadingNewerMessages,
+    messagesError,
+    setMessagesError,
+    reloadMessages,
+    isMessageLoaded,
+    appendLiveMessage,
+    messagesContainerRef,
+    olderSentinelRef,
+    newerSentinelRef
+  } = useMessagePages({
+    authToken,
+    sessionId: selectedSessionId,
+    focusedMessageId,
+    unredacted: showUnredacted,
+    onUnauthorized: handleUnauthorized
+  });
+
+  const applyRoute = useCallback(
+    (route: AppRoute) => {
+      if (route.source && route.source !== getChatSourceId()) {
+        handleChatSourceChange(route.source);
+      }
+
+      linkedSessionIdRef.current = route.sessionId;
+      scrolledToMessageIdRef.current = null;
+      setView('chats');
+      setSelectedSessionId(route.sessionId);
+      setFocusedMessageId(route.messageId);
+      setSearchInput(route.search);
+      setAppliedSearch(route.search);
+      setSearchFeedback(null);
+      setSearchMode(route.searchMode);
+      setClassificationFilter(route.classifications);
+      setExcludedClassificationFilter(route.excludedClassifications);
+      setTypeFilter(route.types);
+      setTagFilter(route.tags);
+      setDateRange(route.dateRange);
+
+      // The session is already open, so only a reload can bring an unloaded message into view.
+      if (
+        route.sessionId &&
+        route.sessionId === selectedSessionIdRef.current &&
+        route.messageId &&
+        !isMessageLoaded(route.messageId)
+      ) {
+        reloadMessages();
+      }
+    },
+    [handleChatSourceChange, isMessageLoaded, reloadMessages]
+  );
+
   useEffect(() => {
     persistAuthToken(authToken);
     if (authToken) {
@@ -156,6 +350,8 @@ const App = () => {
 
           setAuthTokenState(response.credential);
           setAuthError(null);
+          // Signing out keeps the URL, so signing back in returns to the linked view.
+          applyRoute(readLocationRoute());
         }
       });
 
@@ -193,30 +389,100 @@ const App = () => {
         document.head.removeChild(script);
       }
     };
-  }, [authToken, googleClientId]);
+  }, [applyRoute, authToken, googleClientId]);
 
-  const handleSignOut = useCallback(() => {
-    setAuthTokenState(null);
-    setAuthReady(false);
-    setAuthError(null);
-    setChatList([]);
-    setListCursor(null);
-    setSelectedSessionId(null);
-    setMessages([]);
-    setMessagesError(null);
-    setListError(null);
-    setExpandedMessageIds({});
-    setSearchInput('');
-    setAppliedSearch('');
-    setShowSalesOnly(false);
-    setShowWhatsappOnly(false);
-    window.google?.accounts?.id?.disableAutoSelect?.();
-  }, []);
+  // Reloaded per source: whether unredacted data may be shown depends on the source's audit log.
+  useEffect(() => {
+    if (!authToken) {
+      return;
+    }
 
-  const handleUnauthorized = useCallback(() => {
-    handleSignOut();
-    setAuthError('Session expired. Please sign in again.');
-  }, [handleSignOut]);
+    let isCancelled = false;
+
+    const loadCurrentUser = async () => {
+      try {
+        const user = await fetchCurrentUser();
+        if (!isCancelled) {
+          setCurrentUser(user);
+        }
+      } catch (error) {
+        if (error instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
+        }
+
+        if (error instanceof ForbiddenError) {
+          handleSignOut();
+          setAuthError(error.message);
+          return;
+        }
+
+        console.error('Failed to load current user', error);
+      }
+    };
+
+    void loadCurrentUser();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [authToken, chatSourceId, handleSignOut, handleUnauthorized]);
+
+  useEffect(() => {
+    if (!authToken) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    const loadChatSources = async () => {
+      try {
+        const sources = await fetchChatSources();
+
+        if (isCancelled) {
+          return;
+        }
+
+        setChatSources(sources);
+
+        // A remembered source may have been removed from the server since.
+        const sourceId = getChatSourceId();
+
+        if (sourceId && !sources.some((source) => source.id === sourceId)) {
+          handleChatSourceChange(null);
+        }
+      } catch (error) {
+        if (error instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
+        }
+
+        console.error('Failed to load chat sources', error);
+      }
+    };
+
+    void loadChatSources();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [authToken, handleChatSourceChange, handleUnauthorized]);
+
+  // Checking both sides of a classification matches every session, so neither side is sent.
+  const facetFilters = useMemo<FacetFilterOptions>(() => {
+    const included = classificationFilter.filter(
+      (id) => !excludedClassificationFilter.includes(id)
+    );
+    const excluded = excludedClassificationFilter.filter(
+      (id) => !classificationFilter.includes(id)
+    );
+
+    return {
+      ...(included.length > 0 ? { classifications: included } : {}),
+      ...(excluded.length > 0 ? { excludedClassifications: excluded } : {}),
+      ...(typeFilter.length > 0 ? { types: typeFilter } : {})
+    };
+  }, [classificationFilter, excludedClassificationFilter, typeFilter]);
 
   const loadChatList = useCallback(
     async ({ reset, cursor }: { reset: boolean; cursor?: ChatListCursor | null }) => {
@@ -238,16 +504,25 @@ const App = () => {
           limit: CHAT_PAGE_SIZE,
           ...(reset ? {} : cursor ? { cursor } : {}),
           ...(appliedSearch ? { search: appliedSearch } : {}),
-          ...(showSalesOnly ? { onlySales: true } : {}),
-          ...(showWhatsappOnly ? { onlyWhatsapp: true } : {})
+          ...facetFilters,
+          ...(tagFilter.length > 0 ? { tags: tagFilter } : {}),
+          dateRange
         });
 
         setChatList((prev) => (reset ? response.items : [...prev, ...response.items]));
         setListCursor(response.nextCursor ?? null);
 
+        if (reset) {
+          setPendingSessions([]);
+        }
+
         setSelectedSessionId((prev) => {
           if (reset) {
-            if (prev && response.items.some((item) => item.sessionId === prev)) {
+            if (
+              prev &&
+              (prev === linkedSessionIdRef.current ||
+                response.items.some((item) => item.sessionId === prev))
+            ) {
               return prev;
             }
 
@@ -273,35 +548,70 @@ const App = () => {
         setListLoading(false);
       }
     },
-    [appliedSearch, authToken, handleUnauthorized, showSalesOnly, showWhatsappOnly]
+    [appliedSearch, authToken, chatSourceId, dateRange, facetFilters, handleUnauthorized, tagFilter]
   );
 
+  const loadContentResults = useCallback(async () => {
+    if (!authToken || !appliedSearch) {
+      setContentResults([]);
+      return;
+    }
+
+    setListLoading(true);
+    setListError(null);
+
+    try {
+      const results = await searchChatContent({
+        query: appliedSearch,
+        limit: CONTENT_SEARCH_LIMIT,
+        ...facetFilters
+      });
+
+      setContentResults(results);
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        handleUnauthorized();
+        return;
+      }
+
+      console.error('Failed to search chat content', error);
+      setListError(error instanceof Error ? error.message : 'Unknown error');
+      setContentResults([]);
+    } finally {
+      setListLoading(false);
+    }
+  }, [appliedSearch, authToken, chatSourceId, facetFilters, handleUnauthorized]);
+
   useEffect(() => {
     if (!authToken) {
       return;
     }
 
+    if (searchMode === 'content') {
+      void loadContentResults();
+      return;
+    }
+
     void loadChatList({ reset: true });
-  }, [authToken, loadChatList]);
+  }, [authToken, loadChatList, loadContentResults, searchMode]);
+
+  selectedSessionIdRef.current = selectedSessionId;
+  chatListRef.current = chatList;
 
   useEffect(() => {
+    setSessionUsage(null);
+
     if (!selectedSessionId || !authToken) {
-      setMessages([]);
-      setMessagesError(null);
-      setExpandedMessageIds({});
       return;
     }
 
     let isCancelled = false;
 
-    const loadMessages = async () => {
-      setLoadingMessages(true);
-      setMessagesError(null);
-
+    const loadUsage = async () => {
       try {
-        const data = await fetchChatMessages(selectedSessionId);
+        const usage = await fetchSessionUsage(selectedSessionId);
         if (!isCancelled) {
-          setMessages(data);
+          setSessionUsage(usage);
         }
       } catch (error) {
         if (error instanceof UnauthorizedError) {
@@ -309,29 +619,224 @@ const App = () => {
           return;
         }
 
-        console.error('Failed to load chat messages', error);
+        // Usage is supplementary; the conversation stays usable without it.
+        console.error('Failed to load session usage', error);
+      }
+    };
+
+    void loadUsage();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [selectedSessionId, authToken, handleUnauthorized]);
+
+  const activeChatSource =
+    chatSources.find((source) => source.id === chatSourceId) ?? chatSources[0];
+  // Fixture sources have no Postgres tables to keep notes, tags and labels in.
+  const storesAnnotations = activeChatSource?.kind !== 'fixture';
+
+  useEffect(() => {
+    setMessageLabels([]);
+
+    if (!selectedSessionId || !authToken || !storesAnnotations) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    const loadLabels = async () => {
+      try {
+        const labels = await fetchSessionLabels(selectedSessionId);
         if (!isCancelled) {
-          setMessages([]);
-          setMessagesError(error instanceof Error ? error.message : 'Unknown error');
+          setMessageLabels(labels);
         }
-      } finally {
-        if (!isCancelled) {
-          setLoadingMessages(false);
+      } catch (error) {
+        if (error instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
         }
+
+        console.error('Failed to load message labels', error);
       }
     };
 
-    void loadMessages();
+    void loadLabels();
 
     return () => {
       isCancelled = true;
     };
-  }, [selectedSessionId, authToken, handleUnauthorized]);
+  }, [selectedSessionId, authToken, handleUnauthorized, storesAnnotations]);
+
+  useEffect(() => {
+    if (!authToken || !storesAnnotations) {
+      return;
+    }
+
+    const loadLabelCategories = async () => {
+      try {
+        setLabelCategories(await fetchLabelCategories());
+      } catch (error) {
+        if (error instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
+        }
+
+        console.error('Failed to load label categories', error);
+      }
+    };
+
+    void loadLabelCategories();
+  }, [authToken, handleUnauthorized, storesAnnotations]);
+
+  useEffect(() => {
+    if (!authToken) {
+      return;
+    }
+
+    const loadClassifications = async () => {
+      try {
+        setClassifications(await fetchClassifications());
+      } catch (error) {
+        if (error instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
+        }
+
+        console.error('Failed to load session classifications', error);
+      }
+    };
+
+    void loadClassifications();
+  }, [authToken, handleUnauthorized]);
+
+  const handleToggleClassification = useCallback(
+    (id: string, side: ClassificationSide, checked: boolean) => {
+      const setFilter =
+        side === 'matching' ? setClassificationFilter : setExcludedClassificationFilter;
+      setFilter((prev) =>
+        checked ? [...prev.filter((item) => item !== id), id] : prev.filter((item) => item !== id)
+      );
+    },
+    []
+  );
+
+  const handleToggleType = useCallback((type: string, checked: boolean) => {
+    setTypeFilter((prev) =>
+      checked
+        ? [...prev.filter((item) => item !== type), type]
+        : prev.filter((item) => item !== type)
+    );
+  }, []);
+
+  const classificationLabels = useMemo(
+    () => new Map(classifications.map((item) => [item.id, item.label])),
+    [classifications]
+  );
+
+  const handleSaveMessageLabel = useCallback(
+    async (messageId: string, label: MessageLabelInput | null) => {
+      const sessionId = selectedSessionId;
+      const reviewerEmail = currentUser?.email;
+
+      if (!sessionId || !reviewerEmail) {
+        return;
+      }
+
+      const isOtherLabel = (item: MessageLabel) =>
+        item.messageId !== messageId || item.reviewerEmail !== reviewerEmail;
+
+      try {
+        if (label) {
+          const saved = await saveMessageLabel(sessionId, messageId, label);
+          setMessageLabels((prev) => [...prev.filter(isOtherLabel), saved]);
+        } else {
+          await deleteMessageLabel(sessionId, messageId);
+          setMessageLabels((prev) => prev.filter(isOtherLabel));
+        }
+      } catch (error) {
+        if (error instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
+        }
+
+        console.error('Failed to save message label', error);
+        setMessagesError(error instanceof Error ? error.message : 'Unable to save the label.');
+      }
+    },
+    [currentUser, handleUnauthorized, selectedSessionId]
+  );
+
+  // Sessions already on screen move to the top; unseen ones wait behind the badge so the list
+  // does not shift under the reader.
+  const handleLiveSession = useCallback((session: ChatListItem) => {
+    if (chatListRef.current.some((item) => item.sessionId === session.sessionId)) {
+      setChatList((prev) => [
+        session,
+        ...prev.filter((item) => item.sessionId !== session.sessionId)
+      ]);
+    } else {
+      setPendingSessions((prev) => [
+        session,
+        ...prev.filter((item) => item.sessionId !== session.sessionId)
+      ]);
+    }
+  }, []);
+
+  const liveMode = useLiveUpdates({
+    enabled:
+      Boolean(authToken) &&
+      view === 'chats' &&
+      (searchMode === 'session' || selectedSessionId !== null),
+    chatSourceId,
+    sessionId: selectedSessionId,
+    unredacted: showUnredacted,
+    list: searchMode === 'session',
+    search: appliedSearch,
+    facetFilters,
+    tags: tagFilter,
+    dateRange,
+    onSession: handleLiveSession,
+    onMessage: appendLiveMessage,
+    onUnauthorized: handleUnauthorized
+  });
+
+  const handleShowPendingSessions = useCallback(() => {
+    setChatList((prev) => [
+      ...pendingSessions,
+      ...prev.filter(
+        (item) => !pendingSessions.some((pending) => pending.sessionId === item.sessionId)
+      )
+    ]);
+    setPendingSessions([]);
+  }, [pendingSessions]);
 
   useEffect(() => {
     setExpandedMessageIds({});
   }, [selectedSessionId, includeSystemMessages]);
 
+  useEffect(() => {
+    setExportMenuOpen(false);
+    setExportError(null);
+  }, [selectedSessionId]);
+
+  useEffect(() => {
+    if (
+      !focusedMessageId ||
+      loadingMessages ||
+      scrolledToMessageIdRef.current === focusedMessageId
+    ) {
+      return;
+    }
+
+    const element = document.getElementById(`message-${focusedMessageId}`);
+
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      scrolledToMessageIdRef.current = focusedMessageId;
+    }
+  }, [focusedMessageId, loadingMessages, messages]);
+
   const handleSearchSubmit = useCallback(
     (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
@@ -354,6 +859,115 @@ const App = () => {
     setSearchFeedback(null);
   }, []);
 
+  const loadKnownTags = useCallback(async () => {
+    try {
+      setKnownTags(await fetchTagCounts());
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        handleUnauthorized();
+        return;
+      }
+
+      console.error('Failed to load tags', error);
+    }
+  }, [chatSourceId, handleUnauthorized]);
+
+  useEffect(() => {
+    if (authToken) {
+      void loadKnownTags();
+    }
+  }, [authToken, loadKnownTags]);
+
+  const loadFacets = useCallback(async () => {
+    try {
+      setFacets(
+        await fetchChatFacets({
+          ...(appliedSearch ? { search: appliedSearch } : {}),
+          ...facetFilters,
+          ...(tagFilter.length > 0 ? { tags: tagFilter } : {}),
+          dateRange
+        })
+      );
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        handleUnauthorized();
+        return;
+      }
+
+      console.error('Failed to load filter counts', error);
+      setFacets(null);
+    }
+  }, [appliedSearch, chatSourceId, dateRange, facetFilters, handleUnauthorized, tagFilter]);
+
+  // Counts follow the session list; content search has no facet endpoint, so they are hidden.
+  useEffect(() => {
+    if (!authToken || searchMode !== 'session') {
+      setFacets(null);
+      return;
+    }
+
+    void loadFacets();
+  }, [authToken, loadFacets, searchMode]);
+
+  const handleTagsChange = useCallback(
+    (sessionId: string, tags: string[]) => {
+      setChatList((prev) =>
+        prev.map((item) => (item.sessionId === sessionId ? { ...item, tags } : item))
+      );
+      void loadKnownTags();
+      void loadFacets();
+    },
+    [loadFacets, loadKnownTags]
+  );
+
+  const handleSearchModeChange = useCallback((mode: SearchMode) => {
+    setSearchMode(mode);
+    setAppliedSearch('');
+    setSearchFeedback(null);
+    setContentResults([]);
+    setFocusedMessageId(null);
+  }, []);
+
+  // Tag filters only apply to the session list, so picking one leaves content search.
+  const handleAddTagFilter = useCallback(
+    (tag: string) => {
+      if (searchMode === 'content') {
+        handleSearchModeChange('session');
+      }
+
+      setTagFilter((prev) => (prev.includes(tag) ? prev : [...prev, tag]));
+    },
+    [handleSearchModeChange, searchMode]
+  );
+
+  const handleToggleTagFilter = useCallback(
+    (tag: string, checked: boolean) => {
+      if (checked) {
+        handleAddTagFilter(tag);
+      } else {
+        setTagFilter((prev) => prev.filter((item) => item !== tag));
+      }
+    },
+    [handleAddTagFilter]
+  );
+
+  const handleSelectSession = useCallback(
+    (sessionId: string, messageId?: string) => {
+      setView('chats');
+      linkedSessionIdRef.current = null;
+      scrolledToMessageIdRef.current = null;
+      setFocusedMessageId(messageId ?? null);
+
+      if (sessionId === selectedSessionId && messageId && !isMessageLoaded(messageId)) {
+        reloadMessages();
+        return;
+      }
+
+      setSelectedSessionId(sessionId);
+    },
+    [isMessageLoaded, reloadMessages, selectedSessionId]
+  );
+
   const handleLoadMore = useCallback(() => {
     if (listLoading || !listCursor) {
       return;
@@ -362,49 +976,279 @@ const App = () => {
     void loadChatList({ reset: false, cursor: listCursor });
   }, [listCursor, listLoading, loadChatList]);
 
-  const handleToggleMessageRaw = (messageId: string) => {
+  const handleExport = useCallback(
+    async (format: TranscriptFormat) => {
+      if (!selectedSessionId) {
+        return;
+      }
+
+      setExportMenuOpen(false);
+      setExporting(true);
+      setExportError(null);
+
+      try {
+        const blob = await downloadChatTranscript(selectedSessionId, {
+          format,
+          includeSystem: includeSystemMessages,
+          includeToolCalls: exportIncludeToolCalls,
+          unredacted: showUnredacted
+        });
+        const safeSessionId = selectedSessionId.replace(/[^A-Za-z0-9_.-]+/g, '_');
+        triggerDownload(blob, `chat-${safeSessionId}.${format}`);
+      } catch (error) {
+        if (error instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
+        }
+
+        console.error('Failed to export chat', error);
+        setExportError(error instanceof Error ? error.message : 'Unknown error');
+      } finally {
+        setExporting(false);
+      }
+    },
+    [
+      exportIncludeToolCalls,
+      handleUnauthorized,
+      includeSystemMessages,
+      selectedSessionId,
+      showUnredacted
+    ]
+  );
+
+  const {
+    granularity: bulkExportGranularity,
+    setGranularity: setBulkExportGranularity,
+    progress: bulkExportProgress,
+    error: bulkExportError,
+    startExport: handleBulkExport,
+    cancelExport: handleCancelBulkExport
+  } = useBulkExport({
+    authToken,
+    search: appliedSearch,
+    facetFilters,
+    tags: tagFilter,
+    dateRange,
+    onUnauthorized: handleUnauthorized
+  });
+
+  const handleToggleMessageRaw = useCallback((messageId: string) => {
     setExpandedMessageIds((prev) => ({
       ...prev,
       [messageId]: !prev[messageId]
     }));
-  };
+  }, []);
+
+  const handleJumpToMessage = useCallback(
+    (messageId: string) => {
+      if (selectedSessionId) {
+        handleSelectSession(selectedSessionId, messageId);
+      }
+    },
+    [handleSelectSession, selectedSessionId]
+  );
+
+  const currentRoute = useMemo<AppRoute>(
+    () => ({
+      source: chatSources.length > 1 ? (chatSourceId ?? chatSources[0].id) : null,
+      sessionId: selectedSessionId,
+      messageId: focusedMessageId,
+      search: appliedSearch,
+      searchMode,
+      classifications: classificationFilter,
+      excludedClassifications: excludedClassificationFilter,
+      types: typeFilter,
+      tags: tagFilter,
+      dateRange
+    }),
+    [
+      appliedSearch,
+      chatSourceId,
+      chatSources,
+      classificationFilter,
+      dateRange,
+      excludedClassificationFilter,
+      focusedMessageId,
+      searchMode,
+      selectedSessionId,
+      tagFilter,
+      typeFilter
+    ]
+  );
+
+  // Signed-out state is not written back, so a shared link survives the sign-in screen.
+  useEffect(() => {
+    if (!authToken) {
+      return;
+    }
+
+    const url = buildRouteUrl(currentRoute);
+    const { pathname, search } = window.location;
+
+    if (url === `${pathname}${search}`) {
+      return;
+    }
+
+    // Moving between sessions gets a history entry; filter edits and automatic picks replace it.
+    const previousSessionId = parseRoute(pathname, search).sessionId;
+
+    if (previousSessionId && previousSessionId !== currentRoute.sessionId) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [authToken, currentRoute]);
+
+  useEffect(() => {
+    const handlePopState = () => applyRoute(readLocationRoute());
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [applyRoute]);
 
   const emptyFilterMessage = useMemo(() => {
-    if (showSalesOnly && showWhatsappOnly) {
-      return 'Try relaxing the Sales or WhatsApp filters, or load more results.';
+    if (searchMode === 'content' && !appliedSearch) {
+      return 'Enter words or phrases to search message content.';
+    }
+    if (searchMode === 'session' && tagFilter.length > 0) {
+      return 'Try removing some tag filters or load more results.';
     }
-    if (showSalesOnly) {
-      return 'Try disabling the Sales filter or load more results.';
+    if (searchMode === 'session' && dateRange) {
+      return 'Try widening the date range or load more results.';
     }
-    if (showWhatsappOnly) {
-      return 'Try disabling the WhatsApp filter or load more results.';
+    if (typeFilter.length > 0) {
+      return 'Try selecting more visitor types or load more results.';
+    }
+    const included = facetFilters.classifications ?? [];
+    const excluded = facetFilters.excludedClassifications ?? [];
+    if (included.length > 0 || excluded.length > 0) {
+      const labels = classifications
+        .filter((item) => included.includes(item.id) || excluded.includes(item.id))
+        .map((item) => (excluded.includes(item.id) ? `Not ${item.label}` : item.label));
+      return labels.length > 1
+        ? `Try relaxing the ${labels.join(' or ')} filters, or load more results.`
+        : `Try disabling the ${labels[0] ?? 'classification'} filter or load more results.`;
     }
     return 'Adjust your search to see results.';
-  }, [showSalesOnly, showWhatsappOnly]);
+  }, [appliedSearch, classifications, dateRange, facetFilters, searchMode, tagFilter, typeFilter]);
+
+  const availableSessionIds = useMemo(
+    () =>
+      searchMode === 'content'
+        ? contentResults.map((result) => result.sessionId)
+        : chatList.map((chat) => chat.sessionId),
+    [chatList, contentResults, searchMode]
+  );
 
   useEffect(() => {
-    if (chatList.length === 0) {
+    if (availableSessionIds.length === 0) {
       if (selectedSessionId !== null) {
         setSelectedSessionId(null);
       }
       return;
     }
 
-    if (selectedSessionId && chatList.some((chat) => chat.sessionId === selectedSessionId)) {
+    if (selectedSessionId && availableSessionIds.includes(selectedSessionId)) {
       return;
     }
 
-    setSelectedSessionId(chatList[0].sessionId);
-  }, [chatList, selectedSessionId]);
+    setSelectedSessionId(availableSessionIds[0]);
+    setFocusedMessageId(null);
+  }, [availableSessionIds, selectedSessionId]);
+
+  const toolCallIndex = useMemo(() => buildToolCallIndex(messages), [messages]);
+
+  const labelsByMessageId = useMemo(() => {
+    const grouped = new Map<string, MessageLabel[]>();
+    messageLabels.forEach((label) => {
+      grouped.set(label.messageId, [...(grouped.get(label.messageId) ?? []), label]);
+    });
+    return grouped;
+  }, [messageLabels]);
+
+  const canLabelMessages = hasRole(currentUser, 'reviewer');
 
   const visibleMessages = useMemo(
     () =>
       includeSystemMessages
         ? messages
-        : messages.filter((message) => message.payload.type !== 'system'),
+        : messages.filter((message) => message.view.role !== 'system'),
     [includeSystemMessages, messages]
   );
 
+  const visibleFindMatches = useMemo(
+    () => findMatches(visibleMessages, findQuery, findIncludeRaw),
+    [findIncludeRaw, findQuery, visibleMessages]
+  );
+
+  const hiddenFindMatchCount = useMemo(
+    () =>
+      includeSystemMessages
+        ? 0
+        : findMatches(
+            messages.filter((message) => message.view.role === 'system'),
+            findQuery,
+            findIncludeRaw
+          ).length,
+    [findIncludeRaw, findQuery, includeSystemMessages, messages]
+  );
+
+  const findMatchesByMessageId = useMemo(() => {
+    const grouped = new Map<string, FindMatch[]>();
+
+    visibleFindMatches.forEach((match) => {
+      grouped.set(match.messageId, [...(grouped.get(match.messageId) ?? []), match]);
+    });
+
+    return grouped;
+  }, [visibleFindMatches]);
+
+  const activeFindMatch =
+    visibleFindMatches.length > 0
+      ? visibleFindMatches[Math.min(activeFindIndex, visibleFindMatches.length - 1)]
+      : null;
+
+  useEffect(() => {
+    setActiveFindIndex(0);
+  }, [findIncludeRaw, findQuery, selectedSessionId]);
+
+  // Raw JSON is collapsed by default, so a raw match opens its message's payload before scrolling.
+  useEffect(() => {
+    if (activeFindMatch?.field === 'raw' && !expandedMessageIds[activeFindMatch.messageId]) {
+      setExpandedMessageIds((prev) => ({ ...prev, [activeFindMatch.messageId]: true }));
+    }
+  }, [activeFindMatch, expandedMessageIds]);
+
+  useEffect(() => {
+    const key = activeFindMatch ? findMatchKey(activeFindMatch) : null;
+
+    // Live updates and page loads recompute matches; only a new active match scrolls.
+    if (!key || scrolledToFindMatchRef.current === key) {
+      return;
+    }
+
+    const element = messagesContainerRef.current?.querySelector('.find-match.active');
+
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      scrolledToFindMatchRef.current = key;
+    }
+  }, [activeFindMatch, expandedMessageIds]);
+
+  const handleFindNavigate = useCallback(
+    (step: 1 | -1) => {
+      const count = visibleFindMatches.length;
+
+      if (count === 0) {
+        return;
+      }
+
+      scrolledToFindMatchRef.current = null;
+      setActiveFindIndex((index) => (Math.min(index, count - 1) + step + count) % count);
+    },
+    [visibleFindMatches.length]
+  );
+
   if (!authToken) {
     return (
       <div className="auth-gate">
@@ -430,11 +1274,71 @@ const App = () => {
       <aside className="sidebar">
         <div className="sidebar-header">
           <div className="sidebar-user">
-            <h1 className="sidebar-title">Chats</h1>
-            {userEmail && <span className="sidebar-user-email">{userEmail}</span>}
+            <h1 className="sidebar-title">
+              Chats
+              {liveMode && (
+                <span
+                  className="live-indicator"
+                  title={
+                    liveMode === 'notify'
+                      ? 'Live updates via database notifications'
+                      : 'Live updates via polling'
+                  }
+                >
+                  Live
+                </span>
+              )}
+            </h1>
+            {(currentUser?.email ?? userEmail) && (
+              <span className="sidebar-user-email">{currentUser?.email ?? userEmail}</span>
+            )}
+            {currentUser && <span className="role-badge">{currentUser.role}</span>}
           </div>
-          <button type="button" className="sign-out-button" onClick={handleSignOut}>
-            Sign out
+          <div className="sidebar-header-actions">
+            <button
+              type="button"
+              className={`sign-out-button${view === 'dashboard' ? ' active' : ''}`}
+              onClick={() =>
+                setView((current) => (current === 'dashboard' ? 'chats' : 'dashboard'))
+              }
+              aria-pressed={view === 'dashboard'}
+            >
+              Dashboard
+            </button>
+            <button type="button" className="sign-out-button" onClick={handleSignOut}>
+              Sign out
+            </button>
+          </div>
+        </div>
+        {chatSources.length > 1 && (
+          <label className="source-switcher">
+            <span>Source</span>
+            <select
+              value={chatSourceId ?? chatSources[0].id}
+              onChange={(event) => handleChatSourceChange(event.target.value)}
+            >
+              {chatSources.map((source) => (
+                <option key={source.id} value={source.id}>
+                  {source.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="search-mode" role="group" aria-label="Search mode">
+          <button
+            type="button"
+            className={`search-mode-option${searchMode === 'session' ? ' active' : ''}`}
+            onClick={() => handleSearchModeChange('session')}
+          >
+            Session id
+          </button>
+          <button
+            type="button"
+            className={`search-mode-option${searchMode === 'content' ? ' active' : ''}`}
+            onClick={() => handleSearchModeChange('content')}
+          >
+            Message content
           </button>
         </div>
         <form className="sidebar-search" onSubmit={handleSearchSubmit}>
@@ -442,7 +1346,9 @@ const App = () => {
             <input
               type="text"
               value={searchInput}
-              placeholder="Search session id..."
+              placeholder={
+                searchMode === 'content' ? 'Search message content...' : 'Search session id...'
+              }
               onChange={(event) => setSearchInput(event.target.value)}
             />
             {searchInput && (
@@ -461,27 +1367,128 @@ const App = () => {
           </button>
         </form>
         <div className="sidebar-controls">
-          <label className="toggle">
-            <input
-              type="checkbox"
-              checked={showSalesOnly}
-              onChange={(event) => setShowSalesOnly(event.target.checked)}
-            />
-            <span>Sales</span>
-          </label>
-          <label className="toggle">
-            <input
-              type="checkbox"
-              checked={showWhatsappOnly}
-              onChange={(event) => setShowWhatsappOnly(event.target.checked)}
-            />
-            <span>WhatsApp</span>
-          </label>
+          <FacetFilters
+            facets={facets}
+            classifications={classifications}
+            includedClassifications={classificationFilter}
+            excludedClassifications={excludedClassificationFilter}
+            selectedTypes={typeFilter}
+            selectedTags={tagFilter}
+            showTags={searchMode === 'session'}
+            onToggleClassification={handleToggleClassification}
+            onToggleType={handleToggleType}
+            onToggleTag={handleToggleTagFilter}
+          />
+        </div>
+        {searchMode === 'session' && <DateRangePicker value={dateRange} onChange={setDateRange} />}
+        <div className="bulk-export">
+          <select
+            value={bulkExportGranularity}
+            onChange={(event) =>
+              setBulkExportGranularity(event.target.value as BulkExportGranularity)
+            }
+            disabled={bulkExportProgress !== null}
+            aria-label="Bulk export granularity"
+          >
+            <option value="message">One line per message</option>
+            <option value="session">One line per session</option>
+          </select>
+          <button
+            type="button"
+            className="refresh-button"
+            onClick={() => void handleBulkExport()}
+            disabled={bulkExportProgress !== null || searchMode === 'content'}
+            title={
+              searchMode === 'content'
+                ? 'Bulk export applies to session id searches and filters'
+                : 'Download every chat matching the current search and filters as NDJSON'
+            }
+          >
+            Export all
+          </button>
         </div>
+        {bulkExportProgress && (
+          <div className="info-banner bulk-export-progress">
+            <div className="bulk-export-progress-row">
+              <span>
+                {`Exporting ${bulkExportProgress.lines.toLocaleString()}`}
+                {bulkExportProgress.total !== null
+                  ? ` of ${bulkExportProgress.total.toLocaleString()}`
+                  : ''}
+                {bulkExportGranularity === 'session' ? ' sessions' : ' messages'}
+              </span>
+              <button type="button" className="link-button" onClick={handleCancelBulkExport}>
+                Cancel
+              </button>
+            </div>
+            {bulkExportProgress.total ? (
+              <progress value={bulkExportProgress.lines} max={bulkExportProgress.total} />
+            ) : (
+              <progress />
+            )}
+          </div>
+        )}
+        {bulkExportError && <div className="error-banner">{bulkExportError}</div>}
         {searchFeedback && <div className="info-banner">{searchFeedback}</div>}
         {listError && <div className="error-banner">{listError}</div>}
+        {searchMode === 'session' && pendingSessions.length > 0 && (
+          <button type="button" className="new-chats-badge" onClick={handleShowPendingSessions}>
+            {`${pendingSessions.length} new ${pendingSessions.length === 1 ? 'chat' : 'chats'}`}
+          </button>
+        )}
         <ul className="chat-list">
-          {chatList.length === 0 && !listLoading ? (
+          {searchMode === 'content' ? (
+            contentResults.length === 0 && !listLoading ? (
+              <li className="chat-empty">
+                <div className="empty-state">
+                  <strong>No matching messages</strong>
+                  <span>{emptyFilterMessage}</span>
+                </div>
+              </li>
+            ) : (
+              contentResults.map((result) => {
+                const isActive = result.sessionId === selectedSessionId;
+                return (
+                  <li key={result.sessionId} className="chat-item">
+                    <button
+                      type="button"
+                      className={`chat-button${isActive ? ' active' : ''}`}
+                      onClick={() =>
+                        handleSelectSession(result.sessionId, result.matches[0]?.messageId)
+                      }
+                    >
+                      <span className="chat-session-id">{result.sessionId}</span>
+                      <span className="chat-meta">
+                        {formatDateTime(result.lastMatchAt)}
+                        {` · ${result.matchCount} ${result.matchCount === 1 ? 'match' : 'matches'}`}
+                      </span>
+                    </button>
+                    <ul className="search-matches">
+                      {result.matches.map((match) => (
+                        <li key={match.messageId}>
+                          <button
+                            type="button"
+                            className={`search-match${
+                              isActive && match.messageId === focusedMessageId ? ' active' : ''
+                            }`}
+                            onClick={() => handleSelectSession(result.sessionId, match.messageId)}
+                          >
+                            <span className="search-match-meta">
+                              {(match.messageType ?? 'unknown').toUpperCase()}
+                              {` · ${formatDateTime(match.createdAt)}`}
+                            </span>
+                            <span className="search-match-snippet">
+                              {renderHighlightedSnippet(match)}
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                );
+              })
+            )
+          ) : chatList.length === 0 && !listLoading ? (
             <li className="chat-empty">
               <div className="empty-state">
                 <strong>No chats found</strong>
@@ -496,13 +1503,27 @@ const App = () => {
                   <button
                     type="button"
                     className={`chat-button${isActive ? ' active' : ''}`}
-                    onClick={() => setSelectedSessionId(chat.sessionId)}
+                    onClick={() => handleSelectSession(chat.sessionId)}
                   >
                     <span className="chat-session-id">{chat.sessionId}</span>
                     <span className="chat-meta">
                       {formatDateTime(chat.lastMessageAt)}
                       {` · ${chat.messageCount} msgs`}
                     </span>
+                    {(chat.classifications.length > 0 || chat.tags.length > 0) && (
+                      <span className="tag-row">
+                        {chat.classifications.map((id) => (
+                          <span key={`classification-${id}`} className="classification-chip">
+                            {classificationLabels.get(id) ?? id}
+                          </span>
+                        ))}
+                        {chat.tags.map((tag) => (
+                          <span key={tag} className="tag-chip compact">
+                            {tag}
+                          </span>
+                        ))}
+                      </span>
+                    )}
                   </button>
                 </li>
               );
@@ -512,6 +1533,12 @@ const App = () => {
         <div className="sidebar-footer">
           {listLoading ? (
             <div className="spinner" />
+          ) : searchMode === 'content' ? (
+            <span className="sidebar-end">
+              {contentResults.length > 0
+                ? `${contentResults.length} matching sessions`
+                : 'Full-text search over message content'}
+            </span>
           ) : listCursor ? (
             <button
               type="button"
@@ -528,16 +1555,55 @@ const App = () => {
       </aside>
 
       <main className="main">
-        {selectedSessionId ? (
+        {view === 'dashboard' ? (
+          <Dashboard
+            key={chatSourceId ?? ''}
+            classifications={classifications}
+            onUnauthorized={handleUnauthorized}
+          />
+        ) : view === 'compare' ? (
+          <CompareView
+            key={chatSourceId ?? ''}
+            initialLeftSessionId={selectedSessionId}
+            sessionIds={chatList.map((chat) => chat.sessionId)}
+            onClose={() => setView('chats')}
+            onUnauthorized={handleUnauthorized}
+          />
+        ) : selectedSessionId ? (
           <>
             <div className="main-header">
               <span className="session-id">{selectedSessionId}</span>
               <div className="main-header-meta">
                 <span className="message-count">
                   {includeSystemMessages
-                    ? `${messages.length} messages`
+                    ? `${messagePage?.totalCount ?? messages.length} messages`
                     : `${visibleMessages.length} of ${messages.length} messages`}
+                  {messagePage && messages.length < messagePage.totalCount
+                    ? ` · ${messages.length} loaded`
+                    : ''}
                 </span>
+                {sessionUsage && sessionUsage.totals.messageCount > 0 && (
+                  <span
+                    className="session-usage"
+                    title={sessionUsage.byModel
+                      .map(
+                        (usage) =>
+                          `${usage.model}: ${formatTokens(usage.totalTokens)} tokens` +
+                          (usage.estimatedCost !== null
+                            ? ` (${formatCost(usage.estimatedCost)})`
+                            : ' (no price configured)')
+                      )
+                      .join('\n')}
+                  >
+                    {`${formatTokens(sessionUsage.totals.totalTokens)} tokens`}
+                    {` (${formatTokens(sessionUsage.totals.promptTokens)} in / ${formatTokens(
+                      sessionUsage.totals.completionTokens
+                    )} out)`}
+                    {sessionUsage.totals.estimatedCost !== null &&
+                      ` · ~${formatCost(sessionUsage.totals.estimatedCost)}`}
+                    {sessionUsage.unpricedModels.length > 0 && ' · some models unpriced'}
+                  </span>
+                )}
                 <label className="toggle">
                   <input
                     type="checkbox"
@@ -546,10 +1612,96 @@ const App = () => {
                   />
                   <span>Show system messages</span>
                 </label>
+                {currentUser?.canViewUnredacted && (
+                  <label
+                    className="toggle unredacted-toggle"
+                    title="Shows personal data without redaction. Each request is recorded in the audit log."
+                  >
+                    <input
+                      type="checkbox"
+                      checked={showUnredacted}
+                      onChange={(event) =>
+                        setUnredactedSessionId(event.target.checked ? selectedSessionId : null)
+                      }
+                    />
+                    <span>Show unredacted</span>
+                  </label>
+                )}
+                <button type="button" className="refresh-button" onClick={() => setView('compare')}>
+                  Compare
+                </button>
+                <div className="export-menu">
+                  <button
+                    type="button"
+                    className="refresh-button"
+                    onClick={() => setExportMenuOpen((open) => !open)}
+                    disabled={exporting || messages.length === 0}
+                    aria-expanded={exportMenuOpen}
+                  >
+                    {exporting ? 'Exporting…' : 'Export'}
+                  </button>
+                  {exportMenuOpen && (
+                    <div className="export-menu-panel" role="menu">
+                      {EXPORT_FORMATS.map(({ format, label }) => (
+                        <button
+                          key={format}
+                          type="button"
+                          role="menuitem"
+                          className="export-menu-item"
+                          onClick={() => void handleExport(format)}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <label className="toggle export-menu-option">
+                        <input
+                          type="checkbox"
+                          checked={exportIncludeToolCalls}
+                          onChange={(event) => setExportIncludeToolCalls(event.target.checked)}
+                        />
+                        <span>Include tool calls</span>
+                      </label>
+                      <span className="export-menu-hint">
+                        {includeSystemMessages
+                          ? 'System messages included'
+                          : 'System messages excluded'}
+                      </span>
+                    </div>
+                  )}
+                </div>
               </div>
+              <FindBar
+                query={findQuery}
+                includeRaw={findIncludeRaw}
+                matchCount={visibleFindMatches.length}
+                activeIndex={Math.min(activeFindIndex, Math.max(visibleFindMatches.length - 1, 0))}
+                hiddenMatchCount={hiddenFindMatchCount}
+                partial={Boolean(messagePage?.hasOlder || messagePage?.hasNewer)}
+                onQueryChange={setFindQuery}
+                onIncludeRawChange={setFindIncludeRaw}
+                onNavigate={handleFindNavigate}
+                onShowSystemMessages={() => setIncludeSystemMessages(true)}
+              />
+              {storesAnnotations && (
+                <SessionAnnotations
+                  key={selectedSessionId}
+                  sessionId={selectedSessionId}
+                  currentUser={currentUser}
+                  knownTags={knownTags.map((item) => item.tag)}
+                  onUnauthorized={handleUnauthorized}
+                  onTagsChange={handleTagsChange}
+                  onTagSelect={handleAddTagFilter}
+                />
+              )}
               {messagesError && <div className="error-banner">{messagesError}</div>}
+              {exportError && <div className="error-banner">{exportError}</div>}
             </div>
-            <div className="messages-container">
+            <div className="messages-container" ref={messagesContainerRef}>
+              {!loadingMessages && messagePage?.hasOlder && (
+                <div className="messages-sentinel" ref={olderSentinelRef}>
+                  {loadingOlderMessages ? <div className="spinner" /> : 'Loading older messages…'}
+                </div>
+              )}
               {loadingMessages ? (
                 <div className="spinner" />
               ) : visibleMessages.length === 0 ? (
@@ -562,40 +1714,36 @@ const App = () => {
                   </span>
                 </div>
               ) : (
-                visibleMessages.map((message) => {
-                  const content = formatMessageContent(message);
-                  const messageType = message.payload.type ?? 'unknown';
-                  const isExpanded = !!expandedMessageIds[message.id];
-                  const normalizedType = messageType.toLowerCase();
-                  const alignmentClass =
-                    normalizedType === 'ai' || normalizedType === 'system'
-                      ? 'align-right'
-                      : 'align-left';
-                  return (
-                    <article
-                      key={message.id}
-                      className={`message-card type-${normalizedType} ${alignmentClass}`}
-                    >
-                      <header className="message-meta">
-                        <span>{messageType.toUpperCase()}</span>
-                        <span>{formatDateTime(message.createdAt)}</span>
-                      </header>
-                      <section className="message-content">{content}</section>
-                      <button
-                        type="button"
-                        className="message-json-toggle"
-                        onClick={() => handleToggleMessageRaw(message.id)}
-                      >
-                        {isExpanded ? 'Hide raw message' : 'Show raw message'}
-                      </button>
-                      {isExpanded && (
-                        <pre className="message-json">
-                          {JSON.stringify(message.payload, null, 2)}
-                        </pre>
-                      )}
-                    </article>
-                  );
-                })
+                visibleMessages.map((message) => (
+                  <MessageCard
+                    key={message.id}
+                    message={message}
+                    toolCallIndex={toolCallIndex}
+                    isExpanded={!!expandedMessageIds[message.id]}
+                    isFocused={message.id === focusedMessageId}
+                    onToggleRaw={handleToggleMessageRaw}
+                    onJumpToMessage={handleJumpToMessage}
+                    permalink={buildRouteUrl({ ...currentRoute, messageId: message.id })}
+                    findMatches={findMatchesByMessageId.get(message.id)}
+                    activeFindMatch={activeFindMatch}
+                  >
+                    {storesAnnotations && message.view.role.toLowerCase() === 'ai' && (
+                      <MessageLabelPicker
+                        messageId={message.id}
+                        labels={labelsByMessageId.get(message.id) ?? []}
+                        categories={labelCategories}
+                        currentUserEmail={currentUser?.email ?? null}
+                        canLabel={canLabelMessages}
+                        onSave={handleSaveMessageLabel}
+                      />
+                    )}
+                  </MessageCard>
+                ))
+              )}
+              {!loadingMessages && messagePage?.hasNewer && (
+                <div className="messages-sentinel" ref={newerSentinelRef}>
+                  {loadingNewerMessages ? <div className="spinner" /> : 'Loading newer messages…'}
+                </div>
               )}
             </div>
           </>
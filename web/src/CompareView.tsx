@@ -0,0 +1,430 @@
+import type { FormEvent } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { fetchChatMessages, UnauthorizedError } from './api';
+import {
+  compareToolCalls,
+  diffText,
+  groupTurns,
+  replyText,
+  sumTurnStats,
+  turnStats
+} from './compare';
+import type { ConversationTurn, DiffSegment, TurnStats } from './compare';
+import { formatMessageContent } from './MessageCard';
+import type { ChatMessage, MessageToolCall } from './types';
+
+const PAGE_SIZE = 500;
+const MAX_COMPARED_MESSAGES = 2000;
+
+type Side = 'left' | 'right';
+
+interface LoadedSession {
+  messages: ChatMessage[];
+  truncated: boolean;
+}
+
+interface StatRow {
+  label: string;
+  key: keyof TurnStats;
+  format: (value: number) => string;
+}
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const formatLatency = (value: number) =>
+  value < 1000
+    ? `${value} ms`
+    : `${(value / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })} s`;
+
+const STAT_ROWS: StatRow[] = [
+  { label: 'Prompt tokens', key: 'promptTokens', format: formatNumber },
+  { label: 'Completion tokens', key: 'completionTokens', format: formatNumber },
+  { label: 'Total tokens', key: 'totalTokens', format: formatNumber },
+  { label: 'Latency', key: 'latencyMs', format: formatLatency }
+];
+
+const formatValue = (value: number | null, format: (value: number) => string) =>
+  value === null ? '—' : format(value);
+
+const formatDelta = (
+  left: number | null,
+  right: number | null,
+  format: (value: number) => string
+) => {
+  if (left === null || right === null || left === right) {
+    return '';
+  }
+
+  return `${right > left ? '+' : '−'}${format(Math.abs(right - left))}`;
+};
+
+const formatToolArgs = (args: unknown) =>
+  typeof args === 'string' ? args : JSON.stringify(args ?? {});
+
+/**
+ * Pages forward from the first message until the whole session is loaded, stopping at
+ * MAX_COMPARED_MESSAGES so a runaway session cannot stall the tab.
+ */
+const loadFullSession = async (sessionId: string): Promise<LoadedSession> => {
+  let page = await fetchChatMessages(sessionId, { limit: PAGE_SIZE });
+  let messages = page.items;
+
+  while (page.hasNewer && page.newerCursor && messages.length < MAX_COMPARED_MESSAGES) {
+    page = await fetchChatMessages(sessionId, { after: page.newerCursor, limit: PAGE_SIZE });
+    messages = [...messages, ...page.items];
+  }
+
+  return { messages, truncated: page.hasNewer };
+};
+
+const DiffText = ({ segments, side }: { segments: DiffSegment[]; side: Side }) => {
+  const hidden = side === 'left' ? 'added' : 'removed';
+
+  return (
+    <div className="compare-text">
+      {segments
+        .filter((segment) => segment.kind !== hidden)
+        .map((segment, index) =>
+          segment.kind === 'same' ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <mark key={index} className={`compare-diff-${segment.kind}`}>
+              {segment.text}
+            </mark>
+          )
+        )}
+    </div>
+  );
+};
+
+const ToolCallCell = ({ call }: { call: MessageToolCall | null }) =>
+  call ? (
+    <td>
+      <span className="compare-tool-name">
+        {call.name}
+        {call.invalid && ' (invalid)'}
+      </span>
+      <code className="compare-tool-args">{formatToolArgs(call.args)}</code>
+    </td>
+  ) : (
+    <td className="compare-missing">—</td>
+  );
+
+const StatsTable = ({
+  left,
+  right,
+  className,
+  extraRows = []
+}: {
+  left: TurnStats | null;
+  right: TurnStats | null;
+  className?: string;
+  extraRows?: Array<{ label: string; left: number; right: number }>;
+}) => (
+  <table className={`compare-table${className ? ` ${className}` : ''}`}>
+    <thead>
+      <tr>
+        <th />
+        <th>Left</th>
+        <th>Right</th>
+        <th>Δ</th>
+      </tr>
+    </thead>
+    <tbody>
+      {extraRows.map((row) => (
+        <tr key={row.label}>
+          <th>{row.label}</th>
+          <td>{formatNumber(row.left)}</td>
+          <td>{formatNumber(row.right)}</td>
+          <td className="compare-delta">{formatDelta(row.left, row.right, formatNumber)}</td>
+        </tr>
+      ))}
+      {STAT_ROWS.map((row) => {
+        const leftValue = left?.[row.key] ?? null;
+        const rightValue = right?.[row.key] ?? null;
+
+        return (
+          <tr key={row.key}>
+            <th>{row.label}</th>
+            <td>{formatValue(leftValue, row.format)}</td>
+            <td>{formatValue(rightValue, row.format)}</td>
+            <td className="compare-delta">{formatDelta(leftValue, rightValue, row.format)}</td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
+
+const TurnComparison = ({
+  index,
+  left,
+  right
+}: {
+  index: number;
+  left: ConversationTurn | undefined;
+  right: ConversationTurn | undefined;
+}) => {
+  const promptSegments = diffText(
+    left?.prompt ? formatMessageContent(left.prompt) : '',
+    right?.prompt ? formatMessageContent(right.prompt) : ''
+  );
+  const replySegments = diffText(left ? replyText(left) : '', right ? replyText(right) : '');
+  const toolCalls = compareToolCalls(left?.toolCalls ?? [], right?.toolCalls ?? []);
+  const leftStats = left ? turnStats(left) : null;
+  const rightStats = right ? turnStats(right) : null;
+  const changed =
+    !left ||
+    !right ||
+    promptSegments.some((segment) => segment.kind !== 'same') ||
+    replySegments.some((segment) => segment.kind !== 'same') ||
+    toolCalls.some((call) => call.change !== 'same');
+
+  return (
+    <section className={`compare-turn${changed ? ' changed' : ''}`}>
+      <h3 className="compare-turn-title">
+        Turn {index + 1}
+        {!left && ' · only in right session'}
+        {!right && ' · only in left session'}
+        {left && right && !changed && ' · identical'}
+      </h3>
+      <div className="compare-columns">
+        {(['left', 'right'] as const).map((side) => {
+          const turn = side === 'left' ? left : right;
+
+          return (
+            <div key={side} className="compare-column">
+              {!turn ? (
+                <div className="compare-missing">No matching turn</div>
+              ) : (
+                <>
+                  {turn.prompt && (
+                    <div className="compare-block compare-prompt">
+                      <span className="compare-block-label">User</span>
+                      <DiffText segments={promptSegments} side={side} />
+                    </div>
+                  )}
+                  <div className="compare-block">
+                    <span className="compare-block-label">AI</span>
+                    {turn.replies.length === 0 ? (
+                      <div className="compare-missing">No AI reply</div>
+                    ) : (
+                      <DiffText segments={replySegments} side={side} />
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {toolCalls.length > 0 && (
+        <table className="compare-table compare-tool-calls">
+          <thead>
+            <tr>
+              <th>Left tool calls</th>
+              <th>Right tool calls</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {toolCalls.map((comparison, callIndex) => (
+              <tr key={callIndex} className={`compare-change-${comparison.change}`}>
+                <ToolCallCell call={comparison.left} />
+                <ToolCallCell call={comparison.right} />
+                <td className="compare-change">{comparison.change}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {(leftStats || rightStats) && (
+        <StatsTable left={leftStats} right={rightStats} className="compare-turn-stats" />
+      )}
+    </section>
+  );
+};
+
+interface CompareViewProps {
+  initialLeftSessionId: string | null;
+  sessionIds: string[];
+  onClose: () => void;
+  onUnauthorized: () => void;
+}
+
+/**
+ * Loads two sessions and lines them up turn by turn: each turn starts at a user message, AI
+ * replies are diffed word by word and tool calls are matched by position.
+ */
+const CompareView = ({
+  initialLeftSessionId,
+  sessionIds,
+  onClose,
+  onUnauthorized
+}: CompareViewProps) => {
+  const [leftInput, setLeftInput] = useState(initialLeftSessionId ?? '');
+  const [rightInput, setRightInput] = useState('');
+  const [compared, setCompared] = useState<{ left: string; right: string } | null>(null);
+  const [sessions, setSessions] = useState<{ left: LoadedSession; right: LoadedSession } | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!compared) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    const loadSessions = async () => {
+      setLoading(true);
+      setError(null);
+      setSessions(null);
+
+      try {
+        const left = await loadFullSession(compared.left);
+        const right = await loadFullSession(compared.right);
+
+        if (!isCancelled) {
+          setSessions({ left, right });
+        }
+      } catch (loadError) {
+        if (loadError instanceof UnauthorizedError) {
+          onUnauthorized();
+          return;
+        }
+
+        console.error('Failed to load sessions for comparison', loadError);
+        if (!isCancelled) {
+          setError('Unable to load the sessions. Please check the session ids and try again.');
+        }
+      } finally {
+        if (!isCancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadSessions();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [compared, onUnauthorized]);
+
+  const turns = useMemo(
+    () =>
+      sessions
+        ? { left: groupTurns(sessions.left.messages), right: groupTurns(sessions.right.messages) }
+        : null,
+    [sessions]
+  );
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const left = leftInput.trim();
+    const right = rightInput.trim();
+
+    if (left && right) {
+      setCompared({ left, right });
+    }
+  };
+
+  const turnCount = turns ? Math.max(turns.left.length, turns.right.length) : 0;
+
+  return (
+    <div className="compare">
+      <div className="main-header">
+        <span className="session-id">Compare sessions</span>
+        <div className="main-header-meta">
+          <button type="button" className="refresh-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <form className="compare-form" onSubmit={handleSubmit}>
+          <input
+            type="text"
+            list="compare-session-ids"
+            value={leftInput}
+            onChange={(event) => setLeftInput(event.target.value)}
+            placeholder="Left session id"
+            aria-label="Left session id"
+          />
+          <input
+            type="text"
+            list="compare-session-ids"
+            value={rightInput}
+            onChange={(event) => setRightInput(event.target.value)}
+            placeholder="Right session id"
+            aria-label="Right session id"
+          />
+          <datalist id="compare-session-ids">
+            {sessionIds.map((sessionId) => (
+              <option key={sessionId} value={sessionId} />
+            ))}
+          </datalist>
+          <button
+            type="submit"
+            className="refresh-button"
+            disabled={loading || !leftInput.trim() || !rightInput.trim()}
+          >
+            {loading ? 'Loading…' : 'Compare'}
+          </button>
+        </form>
+        {error && <div className="error-banner">{error}</div>}
+      </div>
+      <div className="compare-content">
+        {loading ? (
+          <div className="spinner" />
+        ) : !sessions || !turns || !compared ? (
+          <div className="empty-state">Pick two sessions to compare them turn by turn.</div>
+        ) : (
+          <>
+            <div className="compare-columns compare-session-ids">
+              {(['left', 'right'] as const).map((side) => (
+                <div key={side} className="compare-column">
+                  <span className="session-id">{compared[side]}</span>
+                  {sessions[side].truncated && (
+                    <span className="compare-truncated">
+                      {`Only the first ${sessions[side].messages.length} messages were compared.`}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+            <StatsTable
+              left={sumTurnStats(turns.left)}
+              right={sumTurnStats(turns.right)}
+              className="compare-summary"
+              extraRows={[
+                { label: 'Turns', left: turns.left.length, right: turns.right.length },
+                {
+                  label: 'Messages',
+                  left: sessions.left.messages.length,
+                  right: sessions.right.messages.length
+                },
+                {
+                  label: 'Tool calls',
+                  left: turns.left.reduce((sum, turn) => sum + turn.toolCalls.length, 0),
+                  right: turns.right.reduce((sum, turn) => sum + turn.toolCalls.length, 0)
+                }
+              ]}
+            />
+            {Array.from({ length: turnCount }, (_, index) => (
+              <TurnComparison
+                key={index}
+                index={index}
+                left={turns.left[index]}
+                right={turns.right[index]}
+              />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
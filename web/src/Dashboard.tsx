@@ -0,0 +1,288 @@
+import { useEffect, useState } from 'react';
+import { fetchActivityStats, UnauthorizedError } from './api';
+import type { ActivityBucketSize, ActivityStats, SessionClassification } from './types';
+
+const RANGE_PRESETS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last year' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLASSIFICATION_SERIES_COLORS = 4;
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 12;
+
+interface ChartSeries {
+  label: string;
+  className: string;
+  values: number[];
+}
+
+interface TimeSeriesChartProps {
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  formatValue?: (value: number) => string;
+}
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const formatAverage = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+const formatShare = (part: number, total: number) =>
+  total > 0 ? `${Math.round((part / total) * 100)}% of sessions` : '—';
+
+const TimeSeriesChart = ({
+  title,
+  labels,
+  series,
+  formatValue = formatNumber
+}: TimeSeriesChartProps) => {
+  const maxValue = Math.max(0, ...series.flatMap((item) => item.values));
+  const scaleMax = maxValue > 0 ? maxValue : 1;
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const step = labels.length > 1 ? plotWidth / (labels.length - 1) : 0;
+
+  const x = (index: number) => (labels.length > 1 ? CHART_PADDING + index * step : CHART_WIDTH / 2);
+  const y = (value: number) => CHART_PADDING + plotHeight - (value / scaleMax) * plotHeight;
+
+  return (
+    <figure className="dashboard-chart">
+      <figcaption className="dashboard-chart-header">
+        <span className="dashboard-chart-title">{title}</span>
+        <span className="dashboard-chart-legend">
+          {series.map((item) => (
+            <span key={item.label} className={`dashboard-legend-item ${item.className}`}>
+              {item.label}
+            </span>
+          ))}
+        </span>
+      </figcaption>
+      <div className="dashboard-chart-body">
+        <span className="dashboard-chart-max">{formatValue(maxValue)}</span>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={title}
+        >
+          <line
+            className="dashboard-chart-grid"
+            x1={CHART_PADDING}
+            x2={CHART_WIDTH - CHART_PADDING}
+            y1={y(0)}
+            y2={y(0)}
+          />
+          <line
+            className="dashboard-chart-grid"
+            x1={CHART_PADDING}
+            x2={CHART_WIDTH - CHART_PADDING}
+            y1={y(scaleMax)}
+            y2={y(scaleMax)}
+          />
+          {series.map((item) => (
+            <g key={item.label} className={`dashboard-series ${item.className}`}>
+              <polyline
+                points={item.values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+              />
+              {item.values.map((value, index) => (
+                <circle key={labels[index]} cx={x(index)} cy={y(value)} r={2.5}>
+                  <title>{`${labels[index]} · ${item.label}: ${formatValue(value)}`}</title>
+                </circle>
+              ))}
+            </g>
+          ))}
+        </svg>
+      </div>
+      {labels.length > 0 && (
+        <div className="dashboard-chart-axis">
+          <span>{labels[0]}</span>
+          {labels.length > 1 && <span>{labels[labels.length - 1]}</span>}
+        </div>
+      )}
+    </figure>
+  );
+};
+
+interface DashboardProps {
+  classifications: SessionClassification[];
+  onUnauthorized: () => void;
+}
+
+const Dashboard = ({ classifications, onUnauthorized }: DashboardProps) => {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [bucket, setBucket] = useState<ActivityBucketSize>('day');
+  const [reloadKey, setReloadKey] = useState(0);
+  const [stats, setStats] = useState<ActivityStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadStats = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const to = new Date();
+        const from = new Date(to.getTime() - rangeDays * DAY_MS);
+        const data = await fetchActivityStats({
+          from: from.toISOString(),
+          to: to.toISOString(),
+          bucket
+        });
+
+        if (!isCancelled) {
+          setStats(data);
+        }
+      } catch (loadError) {
+        if (loadError instanceof UnauthorizedError) {
+          onUnauthorized();
+          return;
+        }
+
+        console.error('Failed to load activity stats', loadError);
+        if (!isCancelled) {
+          setError('Unable to load activity stats. Please try again.');
+        }
+      } finally {
+        if (!isCancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadStats();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [bucket, onUnauthorized, rangeDays, reloadKey]);
+
+  const labels = stats?.series.map((item) => item.bucket) ?? [];
+  const totals = stats?.totals;
+
+  return (
+    <div className="dashboard">
+      <div className="main-header">
+        <span className="session-id">Activity</span>
+        <div className="main-header-meta">
+          <select
+            value={rangeDays}
+            onChange={(event) => setRangeDays(Number(event.target.value))}
+            aria-label="Date range"
+          >
+            {RANGE_PRESETS.map((preset) => (
+              <option key={preset.days} value={preset.days}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={bucket}
+            onChange={(event) => setBucket(event.target.value as ActivityBucketSize)}
+            aria-label="Bucket size"
+          >
+            <option value="day">Per day</option>
+            <option value="week">Per week</option>
+          </select>
+          <button
+            type="button"
+            className="refresh-button"
+            onClick={() => setReloadKey((key) => key + 1)}
+            disabled={loading}
+          >
+            Refresh
+          </button>
+          {stats && (
+            <span>
+              {`${new Date(stats.from).toLocaleDateString()} – ${new Date(
+                stats.to
+              ).toLocaleDateString()} (UTC buckets)`}
+            </span>
+          )}
+        </div>
+        {error && <div className="error-banner">{error}</div>}
+      </div>
+      {loading && !stats ? (
+        <div className="spinner" />
+      ) : stats && totals ? (
+        <div className="dashboard-content">
+          <div className="dashboard-totals">
+            <div className="dashboard-total">
+              <span className="dashboard-total-label">Sessions</span>
+              <strong>{formatNumber(totals.sessionCount)}</strong>
+            </div>
+            <div className="dashboard-total">
+              <span className="dashboard-total-label">Messages</span>
+              <strong>{formatNumber(totals.messageCount)}</strong>
+            </div>
+            <div className="dashboard-total">
+              <span className="dashboard-total-label">Avg messages / session</span>
+              <strong>{formatAverage(totals.avgMessagesPerSession)}</strong>
+            </div>
+            {classifications.map((item) => {
+              const count = totals.classificationSessionCounts[item.id] ?? 0;
+              return (
+                <div key={item.id} className="dashboard-total">
+                  <span className="dashboard-total-label">{`${item.label} sessions`}</span>
+                  <strong>{formatNumber(count)}</strong>
+                  <small>{formatShare(count, totals.sessionCount)}</small>
+                </div>
+              );
+            })}
+          </div>
+          <TimeSeriesChart
+            title="Active sessions"
+            labels={labels}
+            series={[
+              {
+                label: 'All',
+                className: 'series-total',
+                values: stats.series.map((item) => item.sessionCount)
+              },
+              ...classifications.map((classification, index) => ({
+                label: classification.label,
+                className: `series-classification-${index % CLASSIFICATION_SERIES_COLORS}`,
+                values: stats.series.map(
+                  (item) => item.classificationSessionCounts[classification.id] ?? 0
+                )
+              }))
+            ]}
+          />
+          <TimeSeriesChart
+            title="Messages"
+            labels={labels}
+            series={[
+              {
+                label: 'Messages',
+                className: 'series-total',
+                values: stats.series.map((item) => item.messageCount)
+              }
+            ]}
+          />
+          <TimeSeriesChart
+            title="Average messages per session"
+            labels={labels}
+            formatValue={formatAverage}
+            series={[
+              {
+                label: 'Average',
+                className: 'series-average',
+                values: stats.series.map((item) => item.avgMessagesPerSession)
+              }
+            ]}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default Dashboard;
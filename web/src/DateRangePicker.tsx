@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { ChatDateField, ChatDateRange } from './types';
+
+type PresetId = 'any' | 'today' | 'yesterday' | 'last24h' | 'last7d' | 'last30d' | 'custom';
+
+interface DateRangePickerProps {
+  value: ChatDateRange | null;
+  onChange: (range: ChatDateRange | null) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRESETS: Array<{ id: PresetId; label: string }> = [
+  { id: 'any', label: 'Any time' },
+  { id: 'today', label: 'Today' },
+  { id: 'yesterday', label: 'Yesterday' },
+  { id: 'last24h', label: 'Last 24 hours' },
+  { id: 'last7d', label: 'Last 7 days' },
+  { id: 'last30d', label: 'Last 30 days' },
+  { id: 'custom', label: 'Custom range…' }
+];
+
+const startOfLocalDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Presets use the browser's local midnight, which is what "today" means to the reviewer.
+const presetBounds = (
+  preset: PresetId,
+  now = new Date()
+): { from: Date; to: Date | null } | null => {
+  const today = startOfLocalDay(now);
+
+  switch (preset) {
+    case 'today':
+      return { from: today, to: null };
+    case 'yesterday':
+      return {
+        from: new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1),
+        to: today
+      };
+    case 'last24h':
+      return { from: new Date(now.getTime() - DAY_MS), to: null };
+    case 'last7d':
+      return {
+        from: new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6),
+        to: null
+      };
+    case 'last30d':
+      return {
+        from: new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29),
+        to: null
+      };
+    default:
+      return null;
+  }
+};
+
+const toLocalInputValue = (iso: string | null) => {
+  if (!iso) {
+    return '';
+  }
+
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+const fromLocalInputValue = (value: string) => {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const DateRangePicker = ({ value, onChange }: DateRangePickerProps) => {
+  const [preset, setPreset] = useState<PresetId>(value ? 'custom' : 'any');
+  const [field, setField] = useState<ChatDateField>(value?.field ?? 'lastMessageAt');
+  const [fromDraft, setFromDraft] = useState(toLocalInputValue(value?.from ?? null));
+  const [toDraft, setToDraft] = useState(toLocalInputValue(value?.to ?? null));
+  // The range last sent or received, to tell when `value` changes from outside the picker.
+  const [syncedValue, setSyncedValue] = useState(value);
+
+  // Back navigation and cleared filters replace the range; show it as a custom range.
+  if (value !== syncedValue) {
+    setSyncedValue(value);
+    setPreset(value ? 'custom' : 'any');
+    setField(value?.field ?? field);
+    setFromDraft(toLocalInputValue(value?.from ?? null));
+    setToDraft(toLocalInputValue(value?.to ?? null));
+  }
+
+  const emitChange = (range: ChatDateRange | null) => {
+    setSyncedValue(range);
+    onChange(range);
+  };
+
+  const applyPreset = (nextPreset: PresetId, nextField: ChatDateField) => {
+    if (nextPreset === 'any') {
+      emitChange(null);
+      return;
+    }
+
+    const bounds = presetBounds(nextPreset);
+
+    if (bounds) {
+      const range = {
+        field: nextField,
+        from: bounds.from.toISOString(),
+        to: bounds.to ? bounds.to.toISOString() : null
+      };
+      setFromDraft(toLocalInputValue(range.from));
+      setToDraft(toLocalInputValue(range.to));
+      emitChange(range);
+    }
+  };
+
+  const handlePresetChange = (nextPreset: PresetId) => {
+    setPreset(nextPreset);
+    applyPreset(nextPreset, field);
+  };
+
+  const handleFieldChange = (nextField: ChatDateField) => {
+    setField(nextField);
+
+    if (value) {
+      emitChange({ ...value, field: nextField });
+    }
+  };
+
+  const handleCustomSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const from = fromLocalInputValue(fromDraft);
+    const to = fromLocalInputValue(toDraft);
+    emitChange(from || to ? { field, from, to } : null);
+  };
+
+  const customInvalid =
+    Boolean(fromDraft && toDraft) && new Date(fromDraft).getTime() >= new Date(toDraft).getTime();
+
+  return (
+    <div className="date-range">
+      <div className="date-range-row">
+        <select
+          value={preset}
+          onChange={(event) => handlePresetChange(event.target.value as PresetId)}
+          aria-label="Date range"
+        >
+          {PRESETS.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={field}
+          onChange={(event) => handleFieldChange(event.target.value as ChatDateField)}
+          aria-label="Date range applies to"
+        >
+          <option value="lastMessageAt">by last activity</option>
+          <option value="firstMessageAt">by first message</option>
+        </select>
+      </div>
+      {preset === 'custom' && (
+        <form className="date-range-row" onSubmit={handleCustomSubmit}>
+          <input
+            type="datetime-local"
+            value={fromDraft}
+            onChange={(event) => setFromDraft(event.target.value)}
+            aria-label="From"
+          />
+          <input
+            type="datetime-local"
+            value={toDraft}
+            onChange={(event) => setToDraft(event.target.value)}
+            aria-label="To"
+          />
+          <button type="submit" className="refresh-button" disabled={customInvalid}>
+            Apply
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import type { ChatFacets, ClassificationKind, SessionClassification } from './types';
+
+export type ClassificationSide = 'matching' | 'other';
+
+interface FacetFiltersProps {
+  facets: ChatFacets | null;
+  classifications: SessionClassification[];
+  includedClassifications: string[];
+  excludedClassifications: string[];
+  selectedTypes: string[];
+  selectedTags: string[];
+  showTags: boolean;
+  onToggleClassification: (id: string, side: ClassificationSide, checked: boolean) => void;
+  onToggleType: (type: string, checked: boolean) => void;
+  onToggleTag: (tag: string, checked: boolean) => void;
+}
+
+interface FacetOption {
+  key: string;
+  label: string;
+  count: number | undefined;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const COLLAPSED_OPTION_COUNT = 6;
+
+const KIND_LABELS: Record<ClassificationKind, string> = {
+  channel: 'Channel',
+  segment: 'Segment'
+};
+
+// Selected values stay visible, with a zero count, even when the other filters leave no sessions.
+const withSelected = (values: Array<{ value: string; count: number }>, selected: string[]) => [
+  ...values,
+  ...selected
+    .filter((value) => !values.some((item) => item.value === value))
+    .map((value) => ({ value, count: 0 }))
+];
+
+const FacetGroup = ({ title, options }: { title: string; options: FacetOption[] }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hiddenCount = options.length - COLLAPSED_OPTION_COUNT;
+  const visibleOptions =
+    expanded || hiddenCount <= 0 ? options : options.slice(0, COLLAPSED_OPTION_COUNT);
+
+  return (
+    <fieldset className="facet-group">
+      <legend>{title}</legend>
+      {visibleOptions.map((option) => (
+        <label key={option.key} className="toggle facet-option">
+          <input
+            type="checkbox"
+            checked={option.checked}
+            onChange={(event) => option.onChange(event.target.checked)}
+          />
+          <span className="facet-option-label">{option.label}</span>
+          {option.count !== undefined && <span className="facet-count">{option.count}</span>}
+        </label>
+      ))}
+      {hiddenCount > 0 && (
+        <button
+          type="button"
+          className="facet-more"
+          onClick={() => setExpanded((current) => !current)}
+        >
+          {expanded ? 'Show fewer' : `Show ${hiddenCount} more`}
+        </button>
+      )}
+    </fieldset>
+  );
+};
+
+/**
+ * Multi-select filters for the chat list. Checking both sides of a classification, or several
+ * visitor types, widens the list; each checked tag narrows it. Counts come from `facets` and are
+ * omitted while they are unavailable (for example in content search).
+ */
+const FacetFilters = ({
+  facets,
+  classifications,
+  includedClassifications,
+  excludedClassifications,
+  selectedTypes,
+  selectedTags,
+  showTags,
+  onToggleClassification,
+  onToggleType,
+  onToggleTag
+}: FacetFiltersProps) => {
+  const kinds = [...new Set(classifications.map((item) => item.kind))];
+  const types = withSelected(
+    (facets?.types ?? []).map((item) => ({ value: item.value, count: item.sessionCount })),
+    selectedTypes
+  );
+  const tags = withSelected(
+    (facets?.tags ?? []).map((item) => ({ value: item.tag, count: item.sessionCount })),
+    selectedTags
+  );
+
+  return (
+    <div className="facet-filters">
+      {kinds.map((kind) => (
+        <FacetGroup
+          key={kind}
+          title={KIND_LABELS[kind]}
+          options={classifications
+            .filter((item) => item.kind === kind)
+            .flatMap((item) => {
+              const facet = facets?.classifications.find((entry) => entry.id === item.id);
+
+              return [
+                {
+                  key: `${item.id}-matching`,
+                  label: item.label,
+                  count: facet?.matchingCount,
+                  checked: includedClassifications.includes(item.id),
+                  onChange: (checked: boolean) =>
+                    onToggleClassification(item.id, 'matching', checked)
+                },
+                {
+                  key: `${item.id}-other`,
+                  label: `Not ${item.label}`,
+                  count: facet?.otherCount,
+                  checked: excludedClassifications.includes(item.id),
+                  onChange: (checked: boolean) => onToggleClassification(item.id, 'other', checked)
+                }
+              ];
+            })}
+        />
+      ))}
+      {types.length > 0 && (
+        <FacetGroup
+          title="Visitor type"
+          options={types.map((item) => ({
+            key: item.value,
+            label: item.value,
+            count: facets ? item.count : undefined,
+            checked: selectedTypes.includes(item.value),
+            onChange: (checked: boolean) => onToggleType(item.value, checked)
+          }))}
+        />
+      )}
+      {showTags && tags.length > 0 && (
+        <FacetGroup
+          title="Tags"
+          options={tags.map((item) => ({
+            key: item.value,
+            label: item.value,
+            count: facets ? item.count : undefined,
+            checked: selectedTags.includes(item.value),
+            onChange: (checked: boolean) => onToggleTag(item.value, checked)
+          }))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FacetFilters;
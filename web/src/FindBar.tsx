@@ -0,0 +1,101 @@
+import type { KeyboardEvent } from 'react';
+import { MIN_FIND_LENGTH } from './findInConversation';
+
+interface FindBarProps {
+  query: string;
+  includeRaw: boolean;
+  matchCount: number;
+  activeIndex: number;
+  /** Matches that exist only in system messages while those are filtered out. */
+  hiddenMatchCount: number;
+  /** Whether older or newer pages of the session are not loaded yet. */
+  partial: boolean;
+  onQueryChange: (query: string) => void;
+  onIncludeRawChange: (includeRaw: boolean) => void;
+  onNavigate: (step: 1 | -1) => void;
+  onShowSystemMessages: () => void;
+}
+
+/**
+ * Search box for the open conversation. Enter and Shift+Enter move between matches, Escape
+ * clears the query.
+ */
+const FindBar = ({
+  query,
+  includeRaw,
+  matchCount,
+  activeIndex,
+  hiddenMatchCount,
+  partial,
+  onQueryChange,
+  onIncludeRawChange,
+  onNavigate,
+  onShowSystemMessages
+}: FindBarProps) => {
+  const active = query.trim().length >= MIN_FIND_LENGTH;
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onNavigate(event.shiftKey ? -1 : 1);
+    } else if (event.key === 'Escape') {
+      onQueryChange('');
+    }
+  };
+
+  return (
+    <div className="find-bar" role="search">
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => onQueryChange(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in conversation"
+        aria-label="Find in conversation"
+      />
+      {active && (
+        <span className="find-count" aria-live="polite">
+          {matchCount > 0 ? `${activeIndex + 1} of ${matchCount}` : 'No matches'}
+        </span>
+      )}
+      <button
+        type="button"
+        className="refresh-button"
+        onClick={() => onNavigate(-1)}
+        disabled={matchCount === 0}
+        aria-label="Previous match"
+      >
+        ↑
+      </button>
+      <button
+        type="button"
+        className="refresh-button"
+        onClick={() => onNavigate(1)}
+        disabled={matchCount === 0}
+        aria-label="Next match"
+      >
+        ↓
+      </button>
+      <label className="toggle">
+        <input
+          type="checkbox"
+          checked={includeRaw}
+          onChange={(event) => onIncludeRawChange(event.target.checked)}
+        />
+        <span>Raw JSON</span>
+      </label>
+      {active && hiddenMatchCount > 0 && (
+        <span className="find-hint">
+          {hiddenMatchCount === 1 ? '1 match is' : `${hiddenMatchCount} matches are`} hidden in
+          system messages.{' '}
+          <button type="button" className="link-button" onClick={onShowSystemMessages}>
+            Show system messages
+          </button>
+        </span>
+      )}
+      {active && partial && <span className="find-hint">Only loaded messages are searched.</span>}
+    </div>
+  );
+};
+
+export default FindBar;
@@ -0,0 +1,209 @@
+import { Component, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { parseMarkdown } from './markdown';
+import type { MarkdownBlock, MarkdownInline } from './markdown';
+import { highlightCode } from './syntaxHighlight';
+
+const Inlines = ({ nodes }: { nodes: MarkdownInline[] }) => (
+  <>
+    {nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'code':
+          return <code key={index}>{node.text}</code>;
+        case 'strong':
+          return (
+            <strong key={index}>
+              <Inlines nodes={node.children} />
+            </strong>
+          );
+        case 'emphasis':
+          return (
+            <em key={index}>
+              <Inlines nodes={node.children} />
+            </em>
+          );
+        case 'delete':
+          return (
+            <del key={index}>
+              <Inlines nodes={node.children} />
+            </del>
+          );
+        case 'link':
+          return (
+            <a
+              key={index}
+              href={node.href}
+              title={node.title ?? node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+            >
+              <Inlines nodes={node.children} />
+            </a>
+          );
+        case 'break':
+          return <br key={index} />;
+      }
+    })}
+  </>
+);
+
+const CodeBlock = ({ language, text }: { language?: string; text: string }) => {
+  const tokens = useMemo(() => highlightCode(text, language), [text, language]);
+
+  return (
+    <figure className="markdown-code">
+      {language && <figcaption>{language}</figcaption>}
+      <pre>
+        <code>
+          {tokens.map((token, index) =>
+            token.kind === 'plain' ? (
+              token.text
+            ) : (
+              <span key={index} className={`token-${token.kind}`}>
+                {token.text}
+              </span>
+            )
+          )}
+        </code>
+      </pre>
+    </figure>
+  );
+};
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+
+const Blocks = ({ blocks }: { blocks: MarkdownBlock[] }) => (
+  <>
+    {blocks.map((block, index) => {
+      switch (block.type) {
+        case 'paragraph':
+          return (
+            <p key={index}>
+              <Inlines nodes={block.children} />
+            </p>
+          );
+        case 'heading': {
+          const Heading = HEADINGS[block.level - 1];
+          return (
+            <Heading key={index}>
+              <Inlines nodes={block.children} />
+            </Heading>
+          );
+        }
+        case 'code':
+          return <CodeBlock key={index} language={block.language} text={block.text} />;
+        case 'quote':
+          return (
+            <blockquote key={index}>
+              <Blocks blocks={block.children} />
+            </blockquote>
+          );
+        case 'list': {
+          const items = block.items.map((item, itemIndex) => (
+            <li key={itemIndex} className={item.checked === undefined ? undefined : 'task'}>
+              {item.checked !== undefined && (
+                <input type="checkbox" checked={item.checked} disabled readOnly />
+              )}
+              <Blocks blocks={item.children} />
+            </li>
+          ));
+
+          return block.ordered ? (
+            <ol key={index} start={block.start}>
+              {items}
+            </ol>
+          ) : (
+            <ul key={index}>{items}</ul>
+          );
+        }
+        case 'table':
+          return (
+            <div key={index} className="markdown-table">
+              <table>
+                <thead>
+                  <tr>
+                    {block.header.map((cell, column) => (
+                      <th key={column} style={{ textAlign: block.align[column] ?? undefined }}>
+                        <Inlines nodes={cell} />
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {row.map((cell, column) => (
+                        <td key={column} style={{ textAlign: block.align[column] ?? undefined }}>
+                          <Inlines nodes={cell} />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'rule':
+          return <hr key={index} />;
+      }
+    })}
+  </>
+);
+
+/**
+ * Renders message text as Markdown. Everything goes through React elements, never
+ * `dangerouslySetInnerHTML`, and links are limited to http(s) and mail, so payloads cannot run
+ * scripts or inject markup.
+ */
+const MarkdownContent = ({ source }: { source: string }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className="markdown">
+      <Blocks blocks={blocks} />
+    </div>
+  );
+};
+
+interface MarkdownErrorBoundaryProps {
+  /** The Markdown being rendered; a new source gets another try after a failure. */
+  source: string;
+  fallback: ReactNode;
+  children: ReactNode;
+}
+
+interface MarkdownErrorBoundaryState {
+  source: string;
+  failed: boolean;
+}
+
+/** Shows `fallback` instead of `children` when rendering `source` throws. */
+export class MarkdownErrorBoundary extends Component<
+  MarkdownErrorBoundaryProps,
+  MarkdownErrorBoundaryState
+> {
+  state: MarkdownErrorBoundaryState = { source: this.props.source, failed: false };
+
+  static getDerivedStateFromProps(
+    { source }: MarkdownErrorBoundaryProps,
+    state: MarkdownErrorBoundaryState
+  ): MarkdownErrorBoundaryState | null {
+    return source === state.source ? null : { source, failed: false };
+  }
+
+  static getDerivedStateFromError(): Partial<MarkdownErrorBoundaryState> {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    console.error('Failed to render message Markdown', error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+export default MarkdownContent;
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { fetchMessageMedia } from './api';
+import type { ChatMessage, MessageAttachment } from './types';
+
+const ATTACHMENT_LABELS: Record<MessageAttachment['kind'], string> = {
+  image: 'Image',
+  audio: 'Audio',
+  file: 'File'
+};
+
+const formatByteSize = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+type MediaSource = { status: 'loading' } | { status: 'ready'; src: string } | { status: 'failed' };
+
+/**
+ * Remote media plays from its URL; inline media is fetched from the server into an object URL
+ * that is revoked when the attachment unmounts.
+ */
+const useMediaSource = (message: ChatMessage, attachment: MessageAttachment): MediaSource => {
+  const [source, setSource] = useState<MediaSource>(() =>
+    attachment.inline
+      ? { status: 'loading' }
+      : attachment.url
+        ? { status: 'ready', src: attachment.url }
+        : { status: 'failed' }
+  );
+  const { sessionId, id } = message;
+  const { part, inline } = attachment;
+
+  useEffect(() => {
+    if (!inline) {
+      return;
+    }
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    fetchMessageMedia(sessionId, id, part)
+      .then((blob) => URL.createObjectURL(blob))
+      .then((url) => {
+        objectUrl = url;
+
+        if (cancelled) {
+          URL.revokeObjectURL(url);
+        } else {
+          setSource({ status: 'ready', src: url });
+        }
+      })
+      .catch((error) => {
+        console.error(error);
+
+        if (!cancelled) {
+          setSource({ status: 'failed' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [sessionId, id, part, inline]);
+
+  return source;
+};
+
+const attachmentLabel = (attachment: MessageAttachment) =>
+  attachment.name ?? ATTACHMENT_LABELS[attachment.kind];
+
+const Lightbox = ({ src, alt, onClose }: { src: string; alt: string; onClose: () => void }) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="lightbox" role="dialog" aria-modal="true" aria-label={alt} onClick={onClose}>
+      <img src={src} alt={alt} />
+    </div>
+  );
+};
+
+interface AttachmentProps {
+  message: ChatMessage;
+  attachment: MessageAttachment;
+}
+
+const ImageAttachment = ({ message, attachment }: AttachmentProps) => {
+  const source = useMediaSource(message, attachment);
+  const [expanded, setExpanded] = useState(false);
+  const label = attachmentLabel(attachment);
+
+  if (source.status !== 'ready') {
+    return (
+      <span className="attachment-thumbnail placeholder">
+        {source.status === 'loading' ? 'Loading image…' : 'Image unavailable'}
+      </span>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className="attachment-thumbnail"
+        onClick={() => setExpanded(true)}
+        title={label}
+      >
+        <img src={source.src} alt={label} loading="lazy" />
+      </button>
+      {expanded && <Lightbox src={source.src} alt={label} onClose={() => setExpanded(false)} />}
+    </>
+  );
+};
+
+const AudioAttachment = ({ message, attachment }: AttachmentProps) => {
+  const source = useMediaSource(message, attachment);
+
+  return (
+    <figure className="attachment-audio">
+      <figcaption>{attachmentLabel(attachment)}</figcaption>
+      {source.status === 'ready' ? (
+        <audio controls preload="metadata" src={source.src} />
+      ) : (
+        <span className="attachment-status">
+          {source.status === 'loading' ? 'Loading audio…' : 'Audio unavailable'}
+        </span>
+      )}
+    </figure>
+  );
+};
+
+/** Files are only fetched when opened, so a long chat does not download every document. */
+const FileAttachment = ({ message, attachment }: AttachmentProps) => {
+  const [failed, setFailed] = useState(false);
+  const label = [
+    attachmentLabel(attachment),
+    attachment.mimeType,
+    attachment.size === undefined ? undefined : formatByteSize(attachment.size)
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  if (!attachment.inline) {
+    return attachment.url ? (
+      <a
+        className="attachment-chip"
+        href={attachment.url}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        {label}
+      </a>
+    ) : (
+      <span className="attachment-chip">{label}</span>
+    );
+  }
+
+  const handleDownload = async () => {
+    try {
+      const blob = await fetchMessageMedia(message.sessionId, message.id, attachment.part);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name ?? `attachment-${attachment.part}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      setFailed(false);
+    } catch (error) {
+      console.error(error);
+      setFailed(true);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      className={`attachment-chip${failed ? ' failed' : ''}`}
+      onClick={() => void handleDownload()}
+      title={failed ? 'Download failed' : 'Download'}
+    >
+      {label}
+    </button>
+  );
+};
+
+const MessageAttachments = ({ message }: { message: ChatMessage }) => (
+  <section className="message-attachments">
+    {message.view.attachments.map((attachment) =>
+      attachment.kind === 'image' ? (
+        <ImageAttachment key={attachment.part} message={message} attachment={attachment} />
+      ) : attachment.kind === 'audio' ? (
+        <AudioAttachment key={attachment.part} message={message} attachment={attachment} />
+      ) : (
+        <FileAttachment key={attachment.part} message={message} attachment={attachment} />
+      )
+    )}
+  </section>
+);
+
+export default MessageAttachments;
@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import type { FindField, FindMatch } from './findInConversation';
+import type { ToolCallIndex, ToolResultRef } from './toolCalls';
+import MarkdownContent, { MarkdownErrorBoundary } from './MarkdownContent';
+import MessageAttachments from './MessageAttachments';
+import type { ChatMessage, MessageToolCall } from './types';
+
+export const formatDateTime = (value: string | null) => {
+  if (!value) {
+    return 'Unknown';
+  }
+
+  return new Date(value).toLocaleString();
+};
+
+/** The message's answer text and the content of any tool results it carries. */
+export const formatMessageContent = ({ view }: ChatMessage) =>
+  [
+    ...view.parts.filter((part) => part.kind === 'text').map((part) => part.text),
+    ...view.toolResults.map((result) => result.content)
+  ].join('\n\n');
+
+/** Roles whose text is written as Markdown; tool output and system prompts stay verbatim. */
+const MARKDOWN_ROLES = new Set(['ai', 'human']);
+/** Longer content, such as pasted logs, is shown verbatim to keep the conversation view fast. */
+const MAX_MARKDOWN_LENGTH = 100_000;
+
+export const formatToolArgs = (args: unknown) =>
+  typeof args === 'string' ? args : JSON.stringify(args, null, 2);
+
+const HighlightedText = ({
+  text,
+  matches,
+  activeMatch
+}: {
+  text: string;
+  matches: FindMatch[];
+  activeMatch: FindMatch | null;
+}) => {
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+
+  matches.forEach((match) => {
+    nodes.push(text.slice(cursor, match.start));
+    nodes.push(
+      <mark key={match.start} className={`find-match${match === activeMatch ? ' active' : ''}`}>
+        {text.slice(match.start, match.start + match.length)}
+      </mark>
+    );
+    cursor = match.start + match.length;
+  });
+
+  nodes.push(text.slice(cursor));
+  return <>{nodes}</>;
+};
+
+interface ToolCallCardProps {
+  call: MessageToolCall;
+  args: ReactNode;
+  result: ToolResultRef | undefined;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+const ToolCallCard = ({ call, args, result, onJumpToMessage }: ToolCallCardProps) => {
+  const resultFailed = result?.result.isError;
+
+  return (
+    <div className={`tool-call-card${call.invalid ? ' invalid' : ''}`}>
+      <header className="tool-call-header">
+        <span className="tool-call-name">{call.name}</span>
+        {call.invalid && <span className="tool-call-badge invalid">Invalid call</span>}
+        {call.id && <span className="tool-call-id">{call.id}</span>}
+      </header>
+      {call.error && <div className="tool-call-error">{call.error}</div>}
+      <pre className="tool-call-args">{args}</pre>
+      {result ? (
+        <div className={`tool-call-result${resultFailed ? ' failed' : ''}`}>
+          <div className="tool-call-result-header">
+            <span>
+              {resultFailed ? 'Error result' : 'Result'}
+              {` · ${formatDateTime(result.message.createdAt)}`}
+            </span>
+            <button
+              type="button"
+              className="link-button"
+              onClick={() => onJumpToMessage(result.message.id)}
+            >
+              Jump to result
+            </button>
+          </div>
+          <pre className="tool-call-result-content">{result.result.content}</pre>
+        </div>
+      ) : (
+        !call.invalid &&
+        call.id && <div className="tool-call-pending">No result loaded for this call.</div>
+      )}
+    </div>
+  );
+};
+
+interface MessageCardProps {
+  message: ChatMessage;
+  toolCallIndex: ToolCallIndex;
+  isExpanded: boolean;
+  isFocused: boolean;
+  onToggleRaw: (messageId: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+  /** Shareable URL of this message; the timestamp links to it when set. */
+  permalink?: string;
+  /** Find-in-conversation matches inside this message, highlighted where they occur. */
+  findMatches?: FindMatch[];
+  activeFindMatch?: FindMatch | null;
+  /** Extra controls rendered below the message body, e.g. QA labels. */
+  children?: ReactNode;
+}
+
+export const MessageCard = ({
+  message,
+  toolCallIndex,
+  isExpanded,
+  isFocused,
+  onToggleRaw,
+  onJumpToMessage,
+  permalink,
+  findMatches = [],
+  activeFindMatch = null,
+  children
+}: MessageCardProps) => {
+  const [showSource, setShowSource] = useState(false);
+  const { view } = message;
+  const content = formatMessageContent(message);
+  const messageType = view.role;
+  const normalizedType = messageType.toLowerCase();
+  const alignmentClass =
+    normalizedType === 'ai' || normalizedType === 'system' ? 'align-right' : 'align-left';
+  const toolCalls = view.toolCalls;
+  const thinking = view.parts.filter((part) => part.kind === 'thinking');
+  const answeredCallId = view.toolResults.find((result) => result.callId)?.callId ?? undefined;
+  const caller = answeredCallId ? toolCallIndex.callersByCallId.get(answeredCallId) : undefined;
+  const toolName = view.name;
+  const markdown = MARKDOWN_ROLES.has(normalizedType) && content.length <= MAX_MARKDOWN_LENGTH;
+  // Find matches are offsets into the source text, so a message with matches shows its source.
+  const contentMatched = findMatches.some((match) => match.field === 'content');
+
+  const highlight = (text: string, field: FindField, part = 0) => {
+    const matches = findMatches.filter((match) => match.field === field && match.part === part);
+
+    return matches.length > 0 ? (
+      <HighlightedText text={text} matches={matches} activeMatch={activeFindMatch} />
+    ) : (
+      text
+    );
+  };
+
+  const plainContent = (
+    <section className="message-content">{highlight(content, 'content')}</section>
+  );
+
+  return (
+    <article
+      id={`message-${message.id}`}
+      className={`message-card type-${normalizedType} ${alignmentClass}${
+        isFocused ? ' focused' : ''
+      }`}
+    >
+      <header className="message-meta">
+        <span>
+          {messageType.toUpperCase()}
+          {toolName ? ` · ${toolName}` : ''}
+        </span>
+        {permalink ? (
+          <a
+            className="message-permalink"
+            href={permalink}
+            title="Link to this message"
+            onClick={(event) => {
+              // Plain clicks stay in the app; modified clicks open the link in a new tab as usual.
+              if (!event.metaKey && !event.ctrlKey && !event.shiftKey && event.button === 0) {
+                event.preventDefault();
+                onJumpToMessage(message.id);
+              }
+            }}
+          >
+            {formatDateTime(message.createdAt)}
+          </a>
+        ) : (
+          <span>{formatDateTime(message.createdAt)}</span>
+        )}
+      </header>
+      {caller && (
+        <button
+          type="button"
+          className="link-button tool-result-caller"
+          onClick={() => onJumpToMessage(caller.id)}
+        >
+          Result of call {answeredCallId}
+        </button>
+      )}
+      {thinking.length > 0 && (
+        <details className="message-thinking">
+          <summary>Thinking</summary>
+          {thinking.map((part, index) => (
+            <p key={index}>{part.text}</p>
+          ))}
+        </details>
+      )}
+      {content &&
+        (markdown && !showSource && !contentMatched ? (
+          <MarkdownErrorBoundary source={content} fallback={plainContent}>
+            <section className="message-content rendered">
+              <MarkdownContent source={content} />
+            </section>
+          </MarkdownErrorBoundary>
+        ) : (
+          plainContent
+        ))}
+      {content && markdown && (
+        <button
+          type="button"
+          className="link-button message-source-toggle"
+          onClick={() => setShowSource((current) => !current)}
+          disabled={contentMatched}
+        >
+          {showSource || contentMatched ? 'View formatted' : 'View source'}
+        </button>
+      )}
+      {view.attachments.length > 0 && <MessageAttachments message={message} />}
+      {toolCalls.length > 0 && (
+        <section className="tool-calls">
+          {toolCalls.map((call, index) => (
+            <ToolCallCard
+              key={call.id ?? `${call.name}-${index}`}
+              call={call}
+              args={highlight(formatToolArgs(call.args), 'toolArgs', index)}
+              result={call.id ? toolCallIndex.resultsByCallId.get(call.id) : undefined}
+              onJumpToMessage={onJumpToMessage}
+            />
+          ))}
+        </section>
+      )}
+      <button type="button" className="message-json-toggle" onClick={() => onToggleRaw(message.id)}>
+        {isExpanded ? 'Hide raw message' : 'Show raw message'}
+      </button>
+      {isExpanded && (
+        <pre className="message-json">
+          {highlight(JSON.stringify(message.payload, null, 2), 'raw')}
+        </pre>
+      )}
+      {children}
+    </article>
+  );
+};
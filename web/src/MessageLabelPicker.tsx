@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import type { MessageLabel, MessageLabelInput, MessageRating } from './types';
+
+interface MessageLabelPickerProps {
+  messageId: string;
+  labels: MessageLabel[];
+  categories: string[];
+  currentUserEmail: string | null;
+  canLabel: boolean;
+  onSave: (messageId: string, label: MessageLabelInput | null) => Promise<void>;
+}
+
+const RATINGS: Array<{ rating: MessageRating; label: string }> = [
+  { rating: 'good', label: 'Good' },
+  { rating: 'bad', label: 'Bad' }
+];
+
+const MessageLabelPicker = ({
+  messageId,
+  labels,
+  categories,
+  currentUserEmail,
+  canLabel,
+  onSave
+}: MessageLabelPickerProps) => {
+  const [saving, setSaving] = useState(false);
+  const ownLabel = labels.find((label) => label.reviewerEmail === currentUserEmail);
+  const otherLabels = labels.filter((label) => label !== ownLabel);
+  const goodCount = labels.filter((label) => label.rating === 'good').length;
+  const badCount = labels.filter((label) => label.rating === 'bad').length;
+
+  if (!canLabel && labels.length === 0) {
+    return null;
+  }
+
+  // An empty selection removes the reviewer's label instead of storing a blank one.
+  const save = async (rating: MessageRating | null, selected: string[]) => {
+    setSaving(true);
+
+    try {
+      await onSave(
+        messageId,
+        rating === null && selected.length === 0
+          ? null
+          : { rating, categories: selected, comment: ownLabel?.comment ?? null }
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const ownRating = ownLabel?.rating ?? null;
+  const ownCategories = ownLabel?.categories ?? [];
+
+  const toggleCategory = (category: string) =>
+    save(
+      ownRating,
+      ownCategories.includes(category)
+        ? ownCategories.filter((item) => item !== category)
+        : [...ownCategories, category]
+    );
+
+  return (
+    <footer className="message-labels">
+      {labels.length > 0 && (
+        <span
+          className="message-labels-summary"
+          title={labels
+            .map(
+              (label) =>
+                `${label.reviewerEmail}: ${[label.rating, ...label.categories]
+                  .filter(Boolean)
+                  .join(', ')}`
+            )
+            .join('\n')}
+        >
+          {`${goodCount} good · ${badCount} bad`}
+          {otherLabels.length > 0 &&
+            ` · ${otherLabels.length} other ${otherLabels.length === 1 ? 'reviewer' : 'reviewers'}`}
+        </span>
+      )}
+      {canLabel && (
+        <div className="message-labels-picker" aria-busy={saving}>
+          {RATINGS.map(({ rating, label }) => (
+            <button
+              key={rating}
+              type="button"
+              className={`label-option rating-${rating}${ownRating === rating ? ' active' : ''}`}
+              onClick={() => void save(ownRating === rating ? null : rating, ownCategories)}
+              disabled={saving}
+              aria-pressed={ownRating === rating}
+            >
+              {label}
+            </button>
+          ))}
+          {categories.map((category) => (
+            <button
+              key={category}
+              type="button"
+              className={`label-option${ownCategories.includes(category) ? ' active' : ''}`}
+              onClick={() => void toggleCategory(category)}
+              disabled={saving}
+              aria-pressed={ownCategories.includes(category)}
+            >
+              {category}
+            </button>
+          ))}
+        </div>
+      )}
+    </footer>
+  );
+};
+
+export default MessageLabelPicker;
@@ -0,0 +1,315 @@
+import type { FormEvent } from 'react';
+import { useEffect, useState } from 'react';
+import {
+  addSessionTag,
+  createSessionNote,
+  deleteSessionNote,
+  fetchSessionNotes,
+  fetchSessionTags,
+  removeSessionTag,
+  UnauthorizedError,
+  updateSessionNote
+} from './api';
+import { hasRole } from './auth';
+import { formatDateTime } from './MessageCard';
+import type { AuthUser, SessionNote, SessionTag } from './types';
+
+interface SessionAnnotationsProps {
+  sessionId: string;
+  currentUser: AuthUser | null;
+  knownTags: string[];
+  onUnauthorized: () => void;
+  onTagsChange: (sessionId: string, tags: string[]) => void;
+  onTagSelect: (tag: string) => void;
+}
+
+const SessionAnnotations = ({
+  sessionId,
+  currentUser,
+  knownTags,
+  onUnauthorized,
+  onTagsChange,
+  onTagSelect
+}: SessionAnnotationsProps) => {
+  const [tags, setTags] = useState<SessionTag[]>([]);
+  const [notes, setNotes] = useState<SessionNote[]>([]);
+  const [notesOpen, setNotesOpen] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+  const [noteDraft, setNoteDraft] = useState('');
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editingDraft, setEditingDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = hasRole(currentUser, 'reviewer');
+  const canModifyNote = (note: SessionNote) =>
+    canEdit && (note.authorEmail === currentUser?.email || hasRole(currentUser, 'admin'));
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadAnnotations = async () => {
+      setError(null);
+
+      try {
+        const [loadedTags, loadedNotes] = await Promise.all([
+          fetchSessionTags(sessionId),
+          fetchSessionNotes(sessionId)
+        ]);
+
+        if (!isCancelled) {
+          setTags(loadedTags);
+          setNotes(loadedNotes);
+        }
+      } catch (loadError) {
+        if (loadError instanceof UnauthorizedError) {
+          onUnauthorized();
+          return;
+        }
+
+        console.error('Failed to load session annotations', loadError);
+        if (!isCancelled) {
+          setError('Unable to load notes and tags.');
+        }
+      }
+    };
+
+    void loadAnnotations();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [onUnauthorized, sessionId]);
+
+  const runMutation = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await action();
+    } catch (mutationError) {
+      if (mutationError instanceof UnauthorizedError) {
+        onUnauthorized();
+        return;
+      }
+
+      console.error('Failed to update session annotations', mutationError);
+      setError(mutationError instanceof Error ? mutationError.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const applyTags = (nextTags: SessionTag[]) => {
+    setTags(nextTags);
+    onTagsChange(
+      sessionId,
+      nextTags.map((item) => item.tag)
+    );
+  };
+
+  const handleAddTag = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const tag = tagDraft.trim();
+
+    if (!tag) {
+      return;
+    }
+
+    void runMutation(async () => {
+      applyTags(await addSessionTag(sessionId, tag));
+      setTagDraft('');
+    });
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    void runMutation(async () => {
+      applyTags(await removeSessionTag(sessionId, tag));
+    });
+  };
+
+  const handleAddNote = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const body = noteDraft.trim();
+
+    if (!body) {
+      return;
+    }
+
+    void runMutation(async () => {
+      const note = await createSessionNote(sessionId, body);
+      setNotes((prev) => [...prev, note]);
+      setNoteDraft('');
+    });
+  };
+
+  const handleSaveNote = (noteId: string) => {
+    const body = editingDraft.trim();
+
+    if (!body) {
+      return;
+    }
+
+    void runMutation(async () => {
+      const updated = await updateSessionNote(sessionId, noteId, body);
+      setNotes((prev) => prev.map((note) => (note.id === noteId ? updated : note)));
+      setEditingNoteId(null);
+    });
+  };
+
+  const handleDeleteNote = (noteId: string) => {
+    if (!window.confirm('Delete this note?')) {
+      return;
+    }
+
+    void runMutation(async () => {
+      await deleteSessionNote(sessionId, noteId);
+      setNotes((prev) => prev.filter((note) => note.id !== noteId));
+    });
+  };
+
+  const tagSuggestions = knownTags.filter((tag) => !tags.some((item) => item.tag === tag));
+
+  return (
+    <div className="session-annotations">
+      <div className="tag-row">
+        {tags.map((item) => (
+          <span
+            key={item.tag}
+            className="tag-chip"
+            title={`Added by ${item.authorEmail} on ${formatDateTime(item.createdAt)}`}
+          >
+            <button type="button" className="tag-chip-label" onClick={() => onTagSelect(item.tag)}>
+              {item.tag}
+            </button>
+            {canEdit && (
+              <button
+                type="button"
+                className="tag-chip-remove"
+                onClick={() => handleRemoveTag(item.tag)}
+                disabled={saving}
+                aria-label={`Remove tag ${item.tag}`}
+              >
+                x
+              </button>
+            )}
+          </span>
+        ))}
+        {canEdit && (
+          <form className="tag-form" onSubmit={handleAddTag}>
+            <input
+              type="text"
+              value={tagDraft}
+              placeholder="Add tag"
+              list="session-tag-suggestions"
+              maxLength={48}
+              onChange={(event) => setTagDraft(event.target.value)}
+              disabled={saving}
+            />
+            <datalist id="session-tag-suggestions">
+              {tagSuggestions.map((tag) => (
+                <option key={tag} value={tag} />
+              ))}
+            </datalist>
+          </form>
+        )}
+        <button
+          type="button"
+          className="link-button"
+          onClick={() => setNotesOpen((open) => !open)}
+          aria-expanded={notesOpen}
+        >
+          {notesOpen ? 'Hide notes' : `Notes (${notes.length})`}
+        </button>
+      </div>
+      {error && <div className="error-banner">{error}</div>}
+      {notesOpen && (
+        <div className="notes-panel">
+          {notes.length === 0 && <span className="notes-empty">No notes yet.</span>}
+          {notes.map((note) => (
+            <div key={note.id} className="note">
+              <div className="note-meta">
+                <span>{note.authorEmail}</span>
+                <span>
+                  {formatDateTime(note.createdAt)}
+                  {note.updatedAt !== note.createdAt ? ' (edited)' : ''}
+                </span>
+                {canModifyNote(note) && editingNoteId !== note.id && (
+                  <span className="note-actions">
+                    <button
+                      type="button"
+                      className="link-button"
+                      onClick={() => {
+                        setEditingNoteId(note.id);
+                        setEditingDraft(note.body);
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      className="link-button"
+                      onClick={() => handleDeleteNote(note.id)}
+                      disabled={saving}
+                    >
+                      Delete
+                    </button>
+                  </span>
+                )}
+              </div>
+              {editingNoteId === note.id ? (
+                <div className="note-editor">
+                  <textarea
+                    value={editingDraft}
+                    onChange={(event) => setEditingDraft(event.target.value)}
+                    rows={3}
+                  />
+                  <div className="note-actions">
+                    <button
+                      type="button"
+                      className="refresh-button"
+                      onClick={() => handleSaveNote(note.id)}
+                      disabled={saving || !editingDraft.trim()}
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      className="refresh-button"
+                      onClick={() => setEditingNoteId(null)}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="note-body">{note.body}</p>
+              )}
+            </div>
+          ))}
+          {canEdit && (
+            <form className="note-editor" onSubmit={handleAddNote}>
+              <textarea
+                value={noteDraft}
+                placeholder="Add a note for other reviewers…"
+                onChange={(event) => setNoteDraft(event.target.value)}
+                rows={3}
+              />
+              <div className="note-actions">
+                <button
+                  type="submit"
+                  className="refresh-button"
+                  disabled={saving || !noteDraft.trim()}
+                >
+                  Add note
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionAnnotations;
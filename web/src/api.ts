@@ -1,5 +1,27 @@
 import { getAuthHeaders } from './auth';
-import type { ChatListCursor, ChatListResponse, ChatMessage, ChatSummary } from './types';
+import { chatSourcePath, currentUserPath } from './chatSource';
+import type {
+  ActivityBucketSize,
+  ActivityStats,
+  ChatDateRange,
+  ChatFacets,
+  ChatListCursor,
+  ChatListItem,
+  ChatListResponse,
+  ChatMessage,
+  ChatMessagePage,
+  ChatSearchResult,
+  ChatSourceSummary,
+  ChatSummary,
+  CurrentUser,
+  MessageLabel,
+  MessageLabelInput,
+  SessionClassification,
+  SessionNote,
+  SessionTag,
+  SessionUsage,
+  TagCount
+} from './types';
 
 const defaultApiBase = 'http://localhost:4000';
 const apiBase =
@@ -22,11 +44,40 @@ export class UnauthorizedError extends Error {
   }
 }
 
+export class ForbiddenError extends Error {
+  constructor(message = 'Forbidden') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class LiveUpdatesDisabledError extends Error {
+  constructor(message = 'Live updates are disabled') {
+    super(message);
+    this.name = 'LiveUpdatesDisabledError';
+  }
+}
+
+const readErrorMessage = async (response: Response) => {
+  const text = await response.text().catch(() => '');
+
+  try {
+    const parsed = JSON.parse(text) as { error?: unknown };
+    return parsed.error ? String(parsed.error) : text;
+  } catch {
+    return text;
+  }
+};
+
 const handleResponse = async <T>(response: Response): Promise<T> => {
   if (response.status === 401) {
     throw new UnauthorizedError();
   }
 
+  if (response.status === 403) {
+    throw new ForbiddenError((await readErrorMessage(response)) || undefined);
+  }
+
   if (!response.ok) {
     const text = await response.text().catch(() => '');
     throw new Error(text || `Request failed with status ${response.status}`);
@@ -41,6 +92,40 @@ const handleResponse = async <T>(response: Response): Promise<T> => {
   return payload.data;
 };
 
+const handleEmptyResponse = async (response: Response): Promise<void> => {
+  if (response.status === 401) {
+    throw new UnauthorizedError();
+  }
+
+  if (response.status === 403) {
+    throw new ForbiddenError((await readErrorMessage(response)) || undefined);
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      (await readErrorMessage(response)) || `Request failed with status ${response.status}`
+    );
+  }
+};
+
+export const fetchCurrentUser = async (): Promise<CurrentUser> => {
+  const response = await fetch(buildUrl(currentUserPath()), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<CurrentUser>(response);
+};
+
+export const fetchChatSources = async (): Promise<ChatSourceSummary[]> => {
+  const response = await fetch(buildUrl('/api/sources'), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<ChatSourceSummary[]>(response);
+};
+
 interface FetchChatSummariesOptions {
   search?: string;
   sessionId?: string;
@@ -50,7 +135,7 @@ interface FetchChatSummariesOptions {
 export const fetchChatSummaries = async (
   options: FetchChatSummariesOptions
 ): Promise<ChatSummary[]> => {
-  const url = new URL(buildUrl('/api/chats'));
+  const url = new URL(buildUrl(chatSourcePath('')));
 
   if (options.search) {
     url.searchParams.set('search', options.search);
@@ -72,27 +157,633 @@ export const fetchChatSummaries = async (
   return handleResponse<ChatSummary[]>(response);
 };
 
-export const fetchChatMessages = async (sessionId: string): Promise<ChatMessage[]> => {
-  const response = await fetch(buildUrl(`/api/chats/${encodeURIComponent(sessionId)}/messages`), {
+interface FetchChatMessagesOptions {
+  before?: string;
+  after?: string;
+  around?: string;
+  limit?: number;
+  unredacted?: boolean;
+}
+
+export const fetchChatMessages = async (
+  sessionId: string,
+  options: FetchChatMessagesOptions = {}
+): Promise<ChatMessagePage> => {
+  const url = new URL(buildUrl(chatSourcePath(`/${encodeURIComponent(sessionId)}/messages`)));
+
+  if (options.before) {
+    url.searchParams.set('before', options.before);
+  }
+
+  if (options.after) {
+    url.searchParams.set('after', options.after);
+  }
+
+  if (options.around) {
+    url.searchParams.set('around', options.around);
+  }
+
+  if (options.limit != null) {
+    url.searchParams.set('limit', String(options.limit));
+  }
+
+  if (options.unredacted) {
+    url.searchParams.set('unredacted', 'true');
+  }
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<ChatMessagePage>(response);
+};
+
+export const fetchSessionUsage = async (sessionId: string): Promise<SessionUsage> => {
+  const response = await fetch(
+    buildUrl(chatSourcePath(`/${encodeURIComponent(sessionId)}/usage`)),
+    {
+      headers: {
+        ...getAuthHeaders()
+      }
+    }
+  );
+  return handleResponse<SessionUsage>(response);
+};
+
+interface FetchActivityStatsOptions {
+  from: string;
+  to: string;
+  bucket: ActivityBucketSize;
+}
+
+export const fetchActivityStats = async ({
+  from,
+  to,
+  bucket
+}: FetchActivityStatsOptions): Promise<ActivityStats> => {
+  const url = new URL(buildUrl(chatSourcePath('/stats')));
+  url.searchParams.set('from', from);
+  url.searchParams.set('to', to);
+  url.searchParams.set('bucket', bucket);
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<ActivityStats>(response);
+};
+
+const applyDateRange = (url: URL, range: ChatDateRange | null | undefined) => {
+  if (!range || (!range.from && !range.to)) {
+    return;
+  }
+
+  url.searchParams.set('dateField', range.field);
+
+  if (range.from) {
+    url.searchParams.set('from', range.from);
+  }
+
+  if (range.to) {
+    url.searchParams.set('to', range.to);
+  }
+};
+
+export interface FacetFilterOptions {
+  classifications?: string[];
+  excludedClassifications?: string[];
+  types?: string[];
+}
+
+const applyFacetFilters = (url: URL, options: FacetFilterOptions) => {
+  if (options.classifications && options.classifications.length > 0) {
+    url.searchParams.set('classification', options.classifications.join(','));
+  }
+
+  if (options.excludedClassifications && options.excludedClassifications.length > 0) {
+    url.searchParams.set('excludeClassification', options.excludedClassifications.join(','));
+  }
+
+  // Visitor types are free-form and may contain commas, so each one is its own parameter.
+  for (const type of options.types ?? []) {
+    url.searchParams.append('type', type);
+  }
+};
+
+const sessionPath = (sessionId: string, suffix: string) =>
+  chatSourcePath(`/${encodeURIComponent(sessionId)}/${suffix}`);
+
+export const fetchClassifications = async (): Promise<SessionClassification[]> => {
+  const response = await fetch(buildUrl(chatSourcePath('/classifications')), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<SessionClassification[]>(response);
+};
+
+interface FetchChatFacetsOptions extends FacetFilterOptions {
+  search?: string;
+  tags?: string[];
+  dateRange?: ChatDateRange | null;
+}
+
+export const fetchChatFacets = async (
+  options: FetchChatFacetsOptions = {}
+): Promise<ChatFacets> => {
+  const url = new URL(buildUrl(chatSourcePath('/facets')));
+
+  if (options.search) {
+    url.searchParams.set('search', options.search);
+  }
+
+  applyFacetFilters(url, options);
+
+  if (options.tags && options.tags.length > 0) {
+    url.searchParams.set('tag', options.tags.join(','));
+  }
+
+  applyDateRange(url, options.dateRange);
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<ChatFacets>(response);
+};
+
+export const fetchTagCounts = async (): Promise<TagCount[]> => {
+  const response = await fetch(buildUrl(chatSourcePath('/tags')), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<TagCount[]>(response);
+};
+
+export const fetchSessionTags = async (sessionId: string): Promise<SessionTag[]> => {
+  const response = await fetch(buildUrl(sessionPath(sessionId, 'tags')), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<SessionTag[]>(response);
+};
+
+export const addSessionTag = async (sessionId: string, tag: string): Promise<SessionTag[]> => {
+  const url = buildUrl(sessionPath(sessionId, `tags/${encodeURIComponent(tag)}`));
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<SessionTag[]>(response);
+};
+
+export const removeSessionTag = async (sessionId: string, tag: string): Promise<SessionTag[]> => {
+  const url = buildUrl(sessionPath(sessionId, `tags/${encodeURIComponent(tag)}`));
+  const response = await fetch(url, {
+    method: 'DELETE',
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<SessionTag[]>(response);
+};
+
+export const fetchSessionNotes = async (sessionId: string): Promise<SessionNote[]> => {
+  const response = await fetch(buildUrl(sessionPath(sessionId, 'notes')), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<SessionNote[]>(response);
+};
+
+export const createSessionNote = async (sessionId: string, body: string): Promise<SessionNote> => {
+  const response = await fetch(buildUrl(sessionPath(sessionId, 'notes')), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders()
+    },
+    body: JSON.stringify({ body })
+  });
+  return handleResponse<SessionNote>(response);
+};
+
+export const updateSessionNote = async (
+  sessionId: string,
+  noteId: string,
+  body: string
+): Promise<SessionNote> => {
+  const url = buildUrl(sessionPath(sessionId, `notes/${encodeURIComponent(noteId)}`));
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders()
+    },
+    body: JSON.stringify({ body })
+  });
+  return handleResponse<SessionNote>(response);
+};
+
+export const deleteSessionNote = async (sessionId: string, noteId: string): Promise<void> => {
+  const url = buildUrl(sessionPath(sessionId, `notes/${encodeURIComponent(noteId)}`));
+  const response = await fetch(url, {
+    method: 'DELETE',
     headers: {
       ...getAuthHeaders()
     }
   });
-  return handleResponse<ChatMessage[]>(response);
+  return handleEmptyResponse(response);
 };
 
-interface FetchChatListOptions {
+export const fetchLabelCategories = async (): Promise<string[]> => {
+  const response = await fetch(buildUrl(chatSourcePath('/labels/categories')), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<string[]>(response);
+};
+
+export const fetchSessionLabels = async (sessionId: string): Promise<MessageLabel[]> => {
+  const response = await fetch(buildUrl(sessionPath(sessionId, 'labels')), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<MessageLabel[]>(response);
+};
+
+export const saveMessageLabel = async (
+  sessionId: string,
+  messageId: string,
+  label: MessageLabelInput
+): Promise<MessageLabel> => {
+  const url = buildUrl(sessionPath(sessionId, `messages/${encodeURIComponent(messageId)}/label`));
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders()
+    },
+    body: JSON.stringify(label)
+  });
+  return handleResponse<MessageLabel>(response);
+};
+
+export const deleteMessageLabel = async (sessionId: string, messageId: string): Promise<void> => {
+  const url = buildUrl(sessionPath(sessionId, `messages/${encodeURIComponent(messageId)}/label`));
+  const response = await fetch(url, {
+    method: 'DELETE',
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleEmptyResponse(response);
+};
+
+/** Inline media is left out of message payloads; this fetches one part's bytes. */
+export const fetchMessageMedia = async (
+  sessionId: string,
+  messageId: string,
+  part: number
+): Promise<Blob> => {
+  const url = buildUrl(
+    sessionPath(sessionId, `messages/${encodeURIComponent(messageId)}/media/${part}`)
+  );
+  const response = await fetch(url, {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+
+  if (response.status === 401) {
+    throw new UnauthorizedError();
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      (await readErrorMessage(response)) || `Media request failed with status ${response.status}`
+    );
+  }
+
+  return response.blob();
+};
+
+export type TranscriptFormat = 'md' | 'html' | 'csv' | 'json';
+
+interface DownloadTranscriptOptions {
+  format: TranscriptFormat;
+  includeSystem: boolean;
+  includeToolCalls: boolean;
+  unredacted?: boolean;
+}
+
+export const downloadChatTranscript = async (
+  sessionId: string,
+  options: DownloadTranscriptOptions
+): Promise<Blob> => {
+  const url = new URL(buildUrl(chatSourcePath(`/${encodeURIComponent(sessionId)}/export`)));
+  url.searchParams.set('format', options.format);
+  url.searchParams.set('includeSystem', String(options.includeSystem));
+  url.searchParams.set('includeToolCalls', String(options.includeToolCalls));
+
+  if (options.unredacted) {
+    url.searchParams.set('unredacted', 'true');
+  }
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+
+  if (response.status === 401) {
+    throw new UnauthorizedError();
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      (await readErrorMessage(response)) || `Export failed with status ${response.status}`
+    );
+  }
+
+  return response.blob();
+};
+
+export type BulkExportGranularity = 'message' | 'session';
+
+interface StreamBulkExportOptions extends FacetFilterOptions {
+  granularity: BulkExportGranularity;
+  search?: string;
+  tags?: string[];
+  dateRange?: ChatDateRange | null;
+  signal?: AbortSignal;
+  onProgress?: (progress: BulkExportProgress) => void;
+  /** Receives the export as it arrives; without one it is buffered and returned as a Blob. */
+  destination?: WritableStream<Uint8Array>;
+}
+
+export interface BulkExportProgress {
+  lines: number;
+  total: number | null;
+  bytes: number;
+}
+
+const NEWLINE_BYTE = 10;
+
+/** Buffered exports stop here; streaming to a `destination` has no limit. */
+export const MAX_BUFFERED_EXPORT_BYTES = 512 * 1024 * 1024;
+
+const readBulkExport = async (
+  options: StreamBulkExportOptions,
+  writer: WritableStreamDefaultWriter<Uint8Array> | undefined
+): Promise<Blob | null> => {
+  const url = new URL(buildUrl(chatSourcePath('/bulk-export')));
+  url.searchParams.set('granularity', options.granularity);
+
+  if (options.search) {
+    url.searchParams.set('search', options.search);
+  }
+
+  applyFacetFilters(url, options);
+
+  if (options.tags && options.tags.length > 0) {
+    url.searchParams.set('tag', options.tags.join(','));
+  }
+
+  applyDateRange(url, options.dateRange);
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      ...getAuthHeaders()
+    },
+    signal: options.signal
+  });
+
+  if (response.status === 401) {
+    throw new UnauthorizedError();
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      (await readErrorMessage(response)) || `Export failed with status ${response.status}`
+    );
+  }
+
+  const totalHeader = response.headers.get(
+    options.granularity === 'session' ? 'X-Export-Session-Count' : 'X-Export-Message-Count'
+  );
+  const parsedTotal = totalHeader ? Number.parseInt(totalHeader, 10) : Number.NaN;
+  const total = Number.isFinite(parsedTotal) ? parsedTotal : null;
+  const reader = response.body?.getReader();
+
+  if (!reader) {
+    throw new Error('The export response had no body.');
+  }
+
+  const chunks: BlobPart[] = [];
+  let lines = 0;
+  let bytes = 0;
+  options.onProgress?.({ lines, total, bytes });
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    bytes += value.byteLength;
+
+    if (writer) {
+      await writer.write(value);
+    } else if (bytes > MAX_BUFFERED_EXPORT_BYTES) {
+      await reader.cancel();
+      throw new Error(
+        `The export is larger than ${MAX_BUFFERED_EXPORT_BYTES / 1024 / 1024} MB. Narrow the filters, or use a browser that can save it straight to a file.`
+      );
+    } else {
+      chunks.push(value);
+    }
+
+    for (const byte of value) {
+      if (byte === NEWLINE_BYTE) {
+        lines += 1;
+      }
+    }
+
+    options.onProgress?.({ lines, total, bytes });
+  }
+
+  return writer ? null : new Blob(chunks, { type: 'application/x-ndjson' });
+};
+
+/**
+ * Downloads a bulk export, reporting progress line by line. With a `destination` the export is
+ * written there and `null` is returned; otherwise it is kept in memory, up to
+ * `MAX_BUFFERED_EXPORT_BYTES`, and returned as a Blob.
+ */
+export const streamBulkExport = async (options: StreamBulkExportOptions): Promise<Blob | null> => {
+  const writer = options.destination?.getWriter();
+
+  try {
+    const blob = await readBulkExport(options, writer);
+    await writer?.close();
+    return blob;
+  } catch (error) {
+    // Aborting a file stream discards what was written so far.
+    await writer?.abort(error).catch(() => undefined);
+    throw error;
+  }
+};
+
+export type LiveSourceMode = 'notify' | 'poll';
+
+export type LiveEvent =
+  | { type: 'ready'; mode: LiveSourceMode }
+  | { type: 'message'; message: ChatMessage }
+  | { type: 'session'; session: ChatListItem };
+
+interface StreamLiveUpdatesOptions extends FacetFilterOptions {
+  sessionId?: string | null;
+  list?: boolean;
+  search?: string;
+  unredacted?: boolean;
+  tags?: string[];
+  dateRange?: ChatDateRange | null;
+  signal: AbortSignal;
+  onEvent: (event: LiveEvent) => void;
+}
+
+const toLiveEvent = (frame: string): LiveEvent | null => {
+  let eventName = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  const data: unknown = JSON.parse(dataLines.join('\n'));
+
+  switch (eventName) {
+    case 'ready':
+      return { type: 'ready', mode: (data as { mode: LiveSourceMode }).mode };
+    case 'message':
+      return { type: 'message', message: data as ChatMessage };
+    case 'session':
+      return { type: 'session', session: data as ChatListItem };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Reads the Server-Sent Events feed with fetch, since EventSource cannot send the bearer token.
+ * Resolves when the server closes the stream; abort `signal` to disconnect.
+ */
+export const streamLiveUpdates = async (options: StreamLiveUpdatesOptions): Promise<void> => {
+  const url = new URL(buildUrl(chatSourcePath('/live')));
+
+  if (options.sessionId) {
+    url.searchParams.set('sessionId', options.sessionId);
+  }
+
+  if (options.list) {
+    url.searchParams.set('list', 'true');
+  }
+
+  if (options.unredacted) {
+    url.searchParams.set('unredacted', 'true');
+  }
+
+  if (options.search) {
+    url.searchParams.set('search', options.search);
+  }
+
+  applyFacetFilters(url, options);
+
+  if (options.tags && options.tags.length > 0) {
+    url.searchParams.set('tag', options.tags.join(','));
+  }
+
+  applyDateRange(url, options.dateRange);
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      Accept: 'text/event-stream',
+      ...getAuthHeaders()
+    },
+    signal: options.signal
+  });
+
+  if (response.status === 401) {
+    throw new UnauthorizedError();
+  }
+
+  if (response.status === 503) {
+    throw new LiveUpdatesDisabledError((await readErrorMessage(response)) || undefined);
+  }
+
+  if (!response.ok || !response.body) {
+    throw new Error(
+      (await readErrorMessage(response)) || `Live updates failed with status ${response.status}`
+    );
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      return;
+    }
+
+    buffer += value.replace(/\r\n?/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+
+    while (boundary !== -1) {
+      const event = toLiveEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      if (event) {
+        options.onEvent(event);
+      }
+    }
+  }
+};
+
+interface FetchChatListOptions extends FacetFilterOptions {
   limit?: number;
   cursor?: ChatListCursor | null;
   search?: string;
-  onlySales?: boolean;
-  onlyWhatsapp?: boolean;
+  tags?: string[];
+  dateRange?: ChatDateRange | null;
 }
 
 export const fetchChatList = async (
   options: FetchChatListOptions = {}
 ): Promise<ChatListResponse> => {
-  const url = new URL(buildUrl('/api/chats/list'));
+  const url = new URL(buildUrl(chatSourcePath('/list')));
 
   if (options.limit != null) {
     url.searchParams.set('limit', String(options.limit));
@@ -110,14 +801,14 @@ export const fetchChatList = async (
     url.searchParams.set('search', options.search);
   }
 
-  if (options.onlySales) {
-    url.searchParams.set('onlySales', 'true');
-  }
+  applyFacetFilters(url, options);
 
-  if (options.onlyWhatsapp) {
-    url.searchParams.set('onlyWhatsapp', 'true');
+  if (options.tags && options.tags.length > 0) {
+    url.searchParams.set('tag', options.tags.join(','));
   }
 
+  applyDateRange(url, options.dateRange);
+
   const response = await fetch(url.toString(), {
     headers: {
       ...getAuthHeaders()
@@ -125,3 +816,28 @@ export const fetchChatList = async (
   });
   return handleResponse<ChatListResponse>(response);
 };
+
+interface SearchChatContentOptions extends FacetFilterOptions {
+  query: string;
+  limit?: number;
+}
+
+export const searchChatContent = async (
+  options: SearchChatContentOptions
+): Promise<ChatSearchResult[]> => {
+  const url = new URL(buildUrl(chatSourcePath('/search')));
+  url.searchParams.set('q', options.query);
+
+  if (options.limit != null) {
+    url.searchParams.set('limit', String(options.limit));
+  }
+
+  applyFacetFilters(url, options);
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      ...getAuthHeaders()
+    }
+  });
+  return handleResponse<ChatSearchResult[]>(response);
+};
@@ -1,3 +1,5 @@
+import type { AuthUser, UserRole } from './types';
+
 const STORAGE_KEY = 'view-chats.googleIdToken';
 
 let authToken: string | null = null;
@@ -29,3 +31,12 @@ export const persistAuthToken = (token: string | null): void => {
 export const getAuthHeaders = (): HeadersInit => {
   return authToken ? { Authorization: `Bearer ${authToken}` } : {};
 };
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  reviewer: 1,
+  admin: 2
+};
+
+export const hasRole = (user: AuthUser | null, role: UserRole): boolean =>
+  Boolean(user && ROLE_RANK[user.role] >= ROLE_RANK[role]);
@@ -0,0 +1,41 @@
+const STORAGE_KEY = 'view-chats.chatSource';
+
+let activeSourceId: string | null = null;
+
+/** Restores the last chosen source; one named in the opened link wins and is remembered. */
+export const initializeChatSource = (linkedSourceId: string | null): string | null => {
+  if (linkedSourceId) {
+    persistChatSource(linkedSourceId);
+    return activeSourceId;
+  }
+
+  activeSourceId = typeof window === 'undefined' ? null : window.localStorage.getItem(STORAGE_KEY);
+  return activeSourceId;
+};
+
+export const persistChatSource = (sourceId: string | null): void => {
+  activeSourceId = sourceId;
+
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  if (sourceId) {
+    window.localStorage.setItem(STORAGE_KEY, sourceId);
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+export const getChatSourceId = (): string | null => activeSourceId;
+
+/** API path under the active source; without one the server answers from its first source. */
+const sourceScopedPath = (resource: string, path: string): string =>
+  activeSourceId
+    ? `/api/sources/${encodeURIComponent(activeSourceId)}/${resource}${path}`
+    : `/api/${resource}${path}`;
+
+export const chatSourcePath = (path: string): string => sourceScopedPath('chats', path);
+
+/** The signed-in user as seen by the active source, which decides unredacted access. */
+export const currentUserPath = (): string => sourceScopedPath('me', '');
@@ -0,0 +1,252 @@
+import { formatMessageContent } from './MessageCard';
+import type { ChatMessage, ChatMessagePayload, MessageToolCall } from './types';
+
+export interface DiffSegment {
+  text: string;
+  kind: 'same' | 'added' | 'removed';
+}
+
+export interface ConversationTurn {
+  /** The human message that opens the turn; null for messages before the first one. */
+  prompt: ChatMessage | null;
+  replies: ChatMessage[];
+  toolCalls: MessageToolCall[];
+}
+
+export interface TurnStats {
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+  /** Time from the prompt to the last AI reply of the turn. */
+  latencyMs: number | null;
+}
+
+export type ToolCallChange = 'same' | 'changed' | 'added' | 'removed';
+
+export interface ToolCallComparison {
+  left: MessageToolCall | null;
+  right: MessageToolCall | null;
+  change: ToolCallChange;
+}
+
+// Word diffs use an O(n·m) table, so very long replies fall back to a whole-block replacement.
+const MAX_DIFF_CELLS = 2_000_000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const messageType = (message: ChatMessage) => message.view.role.toLowerCase();
+
+const isAiMessage = (message: ChatMessage) => messageType(message) === 'ai';
+
+/**
+ * Splits a conversation at every human message. Tool results and system messages stay in the
+ * turn they follow, so turns line up even when one run made more tool round trips.
+ */
+export const groupTurns = (messages: ChatMessage[]): ConversationTurn[] => {
+  const turns: ConversationTurn[] = [];
+  let current: ConversationTurn | null = null;
+
+  for (const message of messages) {
+    const type = messageType(message);
+
+    if (type === 'human') {
+      current = { prompt: message, replies: [], toolCalls: [] };
+      turns.push(current);
+      continue;
+    }
+
+    if (!current) {
+      current = { prompt: null, replies: [], toolCalls: [] };
+      turns.push(current);
+    }
+
+    if (isAiMessage(message)) {
+      current.replies.push(message);
+      current.toolCalls.push(...message.view.toolCalls);
+    }
+  }
+
+  return turns;
+};
+
+export const replyText = (turn: ConversationTurn) =>
+  turn.replies
+    .map(formatMessageContent)
+    .filter((text) => text.trim().length > 0)
+    .join('\n\n');
+
+const readNumber = (source: unknown, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = isRecord(source) ? source[key] : undefined;
+
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Reads token usage the same way the API does: LangChain `usage_metadata` first, then
+ * OpenAI-style `response_metadata.token_usage` and Anthropic-style `response_metadata.usage`.
+ */
+const messageUsage = (payload: ChatMessagePayload) => {
+  const metadata = payload.response_metadata;
+  const sources = [payload.usage_metadata, metadata?.token_usage, metadata?.usage];
+  const pick = (...keys: string[]) =>
+    sources.reduce<number | null>((found, source) => found ?? readNumber(source, ...keys), null);
+  const prompt = pick('input_tokens', 'prompt_tokens');
+  const completion = pick('output_tokens', 'completion_tokens');
+  const total =
+    pick('total_tokens') ??
+    (prompt !== null || completion !== null ? (prompt ?? 0) + (completion ?? 0) : null);
+
+  return { prompt, completion, total };
+};
+
+const sumNullable = (values: Array<number | null>) =>
+  values.some((value) => value !== null)
+    ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+    : null;
+
+export const turnStats = (turn: ConversationTurn): TurnStats => {
+  const usages = turn.replies.map((reply) => messageUsage(reply.payload));
+  const lastReply = turn.replies[turn.replies.length - 1];
+
+  return {
+    promptTokens: sumNullable(usages.map((usage) => usage.prompt)),
+    completionTokens: sumNullable(usages.map((usage) => usage.completion)),
+    totalTokens: sumNullable(usages.map((usage) => usage.total)),
+    latencyMs:
+      turn.prompt && lastReply
+        ? new Date(lastReply.createdAt).getTime() - new Date(turn.prompt.createdAt).getTime()
+        : null
+  };
+};
+
+export const sumTurnStats = (turns: ConversationTurn[]): TurnStats => {
+  const stats = turns.map(turnStats);
+
+  return {
+    promptTokens: sumNullable(stats.map((item) => item.promptTokens)),
+    completionTokens: sumNullable(stats.map((item) => item.completionTokens)),
+    totalTokens: sumNullable(stats.map((item) => item.totalTokens)),
+    latencyMs: sumNullable(stats.map((item) => item.latencyMs))
+  };
+};
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushSegment = (segments: DiffSegment[], kind: DiffSegment['kind'], text: string) => {
+  const last = segments[segments.length - 1];
+
+  if (last && last.kind === kind) {
+    last.text += text;
+  } else if (text) {
+    segments.push({ kind, text });
+  }
+};
+
+/**
+ * Word-level diff of two texts (whitespace runs count as words). `removed` segments belong to
+ * `before` only and `added` segments to `after` only.
+ */
+export const diffText = (before: string, after: string): DiffSegment[] => {
+  if (before === after) {
+    return before ? [{ kind: 'same', text: before }] : [];
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+  let prefix = 0;
+  let suffix = 0;
+
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const segments: DiffSegment[] = [];
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const rows = middleA.length;
+  const columns = middleB.length;
+
+  pushSegment(segments, 'same', a.slice(0, prefix).join(''));
+
+  if ((rows + 1) * (columns + 1) > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'removed', middleA.join(''));
+    pushSegment(segments, 'added', middleB.join(''));
+  } else {
+    // lengths[i * (columns + 1) + j] is the LCS length of middleA[i..] and middleB[j..].
+    const lengths = new Uint32Array((rows + 1) * (columns + 1));
+    const at = (i: number, j: number) => i * (columns + 1) + j;
+
+    for (let i = rows - 1; i >= 0; i -= 1) {
+      for (let j = columns - 1; j >= 0; j -= 1) {
+        lengths[at(i, j)] =
+          middleA[i] === middleB[j]
+            ? lengths[at(i + 1, j + 1)] + 1
+            : Math.max(lengths[at(i + 1, j)], lengths[at(i, j + 1)]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && middleA[i] === middleB[j]) {
+        pushSegment(segments, 'same', middleA[i]);
+        i += 1;
+        j += 1;
+      } else if (j < columns && (i === rows || lengths[at(i, j + 1)] >= lengths[at(i + 1, j)])) {
+        pushSegment(segments, 'added', middleB[j]);
+        j += 1;
+      } else {
+        pushSegment(segments, 'removed', middleA[i]);
+        i += 1;
+      }
+    }
+  }
+
+  pushSegment(segments, 'same', a.slice(a.length - suffix).join(''));
+  return segments;
+};
+
+const toolCallKey = (call: MessageToolCall) => JSON.stringify([call.name, call.args, call.invalid]);
+
+/**
+ * Pairs tool calls by position. Calls with the same name and arguments are `same`; a different
+ * name or arguments at the same position is `changed`.
+ */
+export const compareToolCalls = (
+  left: MessageToolCall[],
+  right: MessageToolCall[]
+): ToolCallComparison[] =>
+  Array.from({ length: Math.max(left.length, right.length) }, (_, index) => {
+    const leftCall = left[index] ?? null;
+    const rightCall = right[index] ?? null;
+
+    if (!leftCall) {
+      return { left: null, right: rightCall, change: 'added' };
+    }
+
+    if (!rightCall) {
+      return { left: leftCall, right: null, change: 'removed' };
+    }
+
+    return {
+      left: leftCall,
+      right: rightCall,
+      change: toolCallKey(leftCall) === toolCallKey(rightCall) ? 'same' : 'changed'
+    };
+  });
@@ -0,0 +1,38 @@
+interface SaveFilePickerOptions {
+  suggestedName: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+}
+
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+  }
+}
+
+/** Saves `blob` through a temporary link, as the browser's download of `filename`. */
+export const triggerDownload = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Asks where to save `options.suggestedName` and opens the file for writing, so large downloads
+ * need not fit in memory. Resolves to `null` in browsers without the File System Access API and
+ * rejects with an `AbortError` when the picker is dismissed. Call it straight from a click.
+ */
+export const openSaveFile = async (
+  options: SaveFilePickerOptions
+): Promise<FileSystemWritableFileStream | null> => {
+  if (!window.showSaveFilePicker) {
+    return null;
+  }
+
+  const handle = await window.showSaveFilePicker(options);
+  return handle.createWritable();
+};
@@ -0,0 +1,63 @@
+import { formatMessageContent, formatToolArgs } from './MessageCard';
+import type { ChatMessage } from './types';
+
+export type FindField = 'content' | 'toolArgs' | 'raw';
+
+export interface FindMatch {
+  messageId: string;
+  field: FindField;
+  /** Position of the tool call within the message for `toolArgs` matches, otherwise 0. */
+  part: number;
+  start: number;
+  length: number;
+}
+
+export const MIN_FIND_LENGTH = 2;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Returns the formatted text the message card renders, field by field, in display order. */
+const searchableParts = (message: ChatMessage, includeRaw: boolean) => [
+  { field: 'content' as const, part: 0, text: formatMessageContent(message) },
+  ...message.view.toolCalls.map((call, index) => ({
+    field: 'toolArgs' as const,
+    part: index,
+    text: formatToolArgs(call.args)
+  })),
+  ...(includeRaw
+    ? [{ field: 'raw' as const, part: 0, text: JSON.stringify(message.payload, null, 2) }]
+    : [])
+];
+
+/**
+ * Case-insensitive plain-text matches in message order. Offsets index into the same formatted
+ * strings the message card renders, so they can be highlighted in place.
+ */
+export const findMatches = (
+  messages: ChatMessage[],
+  query: string,
+  includeRaw: boolean
+): FindMatch[] => {
+  const trimmed = query.trim();
+
+  if (trimmed.length < MIN_FIND_LENGTH) {
+    return [];
+  }
+
+  const pattern = new RegExp(escapeRegExp(trimmed), 'gi');
+
+  return messages.flatMap((message) =>
+    searchableParts(message, includeRaw).flatMap(({ field, part, text }) =>
+      Array.from(text.matchAll(pattern), (match) => ({
+        messageId: message.id,
+        field,
+        part,
+        start: match.index ?? 0,
+        length: match[0].length
+      }))
+    )
+  );
+};
+
+export const findMatchKey = (match: FindMatch) =>
+  `${match.messageId}:${match.field}:${match.part}:${match.start}`;
@@ -0,0 +1,604 @@
+/**
+ * A small Markdown reader for message content: CommonMark blocks and inlines plus GitHub tables,
+ * strikethrough, task lists and bare URLs. It builds a tree that is rendered with React elements
+ * only, so raw HTML in a payload is kept as text and never reaches the DOM as markup.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'delete'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; title?: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+  /** Set for task list items (`- [ ]` / `- [x]`). */
+  checked?: boolean;
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start?: number; items: MarkdownListItem[] }
+  | {
+      type: 'table';
+      align: TableAlignment[];
+      header: MarkdownInline[][];
+      rows: MarkdownInline[][][];
+    }
+  | { type: 'rule' };
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const TABLE_DELIMITER = /^ *\|? *:?-+:? *(?:\| *:?-+:? *)*\|? *$/;
+const TASK = /^\[([ xX])\][ \t]+/;
+/**
+ * Quotes and lists nested deeper than this are read as plain text, so a payload of thousands of
+ * `>` or `- ` markers cannot exhaust the stack.
+ */
+const MAX_NESTING_DEPTH = 16;
+
+const isBlank = (line: string) => line.trim().length === 0;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+/** Splits a table row on unescaped pipes, dropping the optional outer ones. */
+const splitRow = (line: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  const row = line.trim().replace(/^\|/, '');
+
+  for (let index = 0; index < row.length; index += 1) {
+    const char = row[index];
+
+    if (char === '\\' && row[index + 1] === '|') {
+      cell += '|';
+      index += 1;
+    } else if (char === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.trim() || !row.endsWith('|')) {
+    cells.push(cell.trim());
+  }
+
+  return cells;
+};
+
+const isTableStart = (lines: string[], index: number) =>
+  lines[index].includes('|') &&
+  index + 1 < lines.length &&
+  TABLE_DELIMITER.test(lines[index + 1]) &&
+  lines[index + 1].includes('-') &&
+  splitRow(lines[index]).length === splitRow(lines[index + 1]).length;
+
+/** Lines that end a paragraph without a blank line in between. */
+const startsBlock = (lines: string[], index: number, depth: number) => {
+  const line = lines[index];
+  const nests = depth < MAX_NESTING_DEPTH;
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    (nests && QUOTE.test(line)) ||
+    (nests &&
+      LIST_ITEM.test(line) &&
+      indentOf(line) < 4 &&
+      !isBlank(line.replace(LIST_ITEM, ''))) ||
+    isTableStart(lines, index)
+  );
+};
+
+const readAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+const parseList = (lines: string[], start: number, depth: number) => {
+  const first = LIST_ITEM.exec(lines[start]);
+
+  if (!first) {
+    throw new Error('parseList must start on a list item');
+  }
+
+  const ordered = /\d/.test(first[2]);
+  const markerIndent = first[1].length;
+  const items: MarkdownListItem[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const match = LIST_ITEM.exec(lines[index]);
+
+    if (!match || /\d/.test(match[2]) !== ordered || match[1].length > markerIndent + 3) {
+      break;
+    }
+
+    // Content lines belong to the item when indented past its marker; wider gaps count as one space.
+    const gap = match[3].length > 4 ? 1 : Math.max(match[3].length, 1);
+    const contentIndent = match[1].length + match[2].length + gap;
+    const itemLines = [lines[index].slice(match[0].length)];
+    index += 1;
+
+    while (index < lines.length) {
+      const line = lines[index];
+
+      if (isBlank(line)) {
+        let next = index + 1;
+
+        while (next < lines.length && isBlank(lines[next])) {
+          next += 1;
+        }
+
+        if (next === lines.length || indentOf(lines[next]) < contentIndent) {
+          break;
+        }
+
+        // Keep the whole blank stretch at once, so long gaps are not rescanned line by line.
+        itemLines.push(...lines.slice(index, next).map(() => ''));
+        index = next;
+        continue;
+      }
+
+      const indent = indentOf(line);
+      const nested = indent > markerIndent && LIST_ITEM.test(line);
+      const lazy = !isBlank(itemLines[itemLines.length - 1]) && !startsBlock(lines, index, depth);
+
+      if (indent >= contentIndent || nested) {
+        itemLines.push(line.slice(Math.min(indent, contentIndent)));
+      } else if (lazy) {
+        itemLines.push(line.trimStart());
+      } else {
+        break;
+      }
+
+      index += 1;
+    }
+
+    const task = TASK.exec(itemLines[0]);
+
+    if (task) {
+      itemLines[0] = itemLines[0].slice(task[0].length);
+    }
+
+    items.push({
+      ...(task ? { checked: task[1] !== ' ' } : {}),
+      children: parseBlocks(itemLines, depth + 1)
+    });
+
+    // A blank line between items keeps the list going when the next line is another item.
+    while (index < lines.length && isBlank(lines[index])) {
+      const next = LIST_ITEM.exec(lines[index + 1] ?? '');
+
+      if (!next || /\d/.test(next[2]) !== ordered || next[1].length !== markerIndent) {
+        break;
+      }
+
+      index += 1;
+    }
+  }
+
+  const block: MarkdownBlock = {
+    type: 'list',
+    ordered,
+    ...(ordered ? { start: Number.parseInt(first[2], 10) } : {}),
+    items
+  };
+
+  return { block, next: index };
+};
+
+const parseBlocks = (lines: string[], depth = 0): MarkdownBlock[] => {
+  const nests = depth < MAX_NESTING_DEPTH;
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index += 1;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+
+    if (fence) {
+      const [, indent, marker, language] = fence;
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+      const code: string[] = [];
+      index += 1;
+
+      while (index < lines.length && !closing.test(lines[index])) {
+        const codeLine = lines[index];
+        code.push(codeLine.slice(Math.min(indentOf(codeLine), indent.length)));
+        index += 1;
+      }
+
+      index += 1;
+      blocks.push({ type: 'code', ...(language ? { language } : {}), text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2] ?? '')
+      });
+      index += 1;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index += 1;
+      continue;
+    }
+
+    if (nests && QUOTE.test(line)) {
+      const quoted: string[] = [];
+
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE, ''));
+        index += 1;
+      }
+
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    if (nests && LIST_ITEM.test(line) && indentOf(line) < 4) {
+      const { block, next } = parseList(lines, index, depth);
+      blocks.push(block);
+      index = next;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[index + 1]).map(readAlignment);
+      const rows: MarkdownInline[][][] = [];
+      index += 2;
+
+      while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+        const cells = splitRow(lines[index]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        index += 1;
+      }
+
+      blocks.push({ type: 'table', align, header: header.map((cell) => parseInline(cell)), rows });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    index += 1;
+
+    while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines, index, depth)) {
+      paragraph.push(lines[index].trimStart());
+      index += 1;
+    }
+
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const AUTOLINK = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/iy;
+const BARE_URL = /https?:\/\/[^\s<]+/iy;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const LINK_TARGET =
+  /\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+"([^"]*)"|\s+'([^']*)')?\s*\)/y;
+
+const execAt = (pattern: RegExp, text: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+/** Length of the run of the character at `index`, e.g. 3 for the backticks of ```` ``` ````. */
+const runLength = (text: string, index: number) => {
+  let end = index + 1;
+
+  while (end < text.length && text[end] === text[index]) {
+    end += 1;
+  }
+
+  return end - index;
+};
+
+/**
+ * What earlier scans of one text found, so no opener is searched for twice and the inline parser
+ * stays linear on unbalanced input: for each backtick run length and emphasis delimiter, the
+ * position from which it has no closer, and the `]` closing each `[`.
+ */
+interface InlineScan {
+  text: string;
+  unclosedTicks: Map<number, number>;
+  unclosedDelimiters: Map<string, number>;
+  bracketEnds?: Map<number, number>;
+}
+
+/** Only web and mail links are followed; `javascript:`, `data:` and the like stay plain text. */
+export const safeHref = (href: string) => {
+  const trimmed = href.trim();
+  return /^(https?:|mailto:)/i.test(trimmed) ? trimmed : null;
+};
+
+/** Drops trailing punctuation from a bare URL, keeping a closing paren that balances one inside. */
+const trimBareUrl = (url: string) => {
+  let end = url.length;
+
+  while (end > 0) {
+    const char = url[end - 1];
+    const opens = url.slice(0, end).split('(').length - 1;
+    const closes = url.slice(0, end).split(')').length - 1;
+
+    if (/[.,;:!?'"*_~]/.test(char) || (char === ')' && closes > opens)) {
+      end -= 1;
+    } else {
+      break;
+    }
+  }
+
+  return url.slice(0, end);
+};
+
+/** Length of the backtick code span starting at `index`, or 0 when it is never closed. */
+const codeSpanLength = ({ text, unclosedTicks }: InlineScan, index: number) => {
+  const ticks = runLength(text, index);
+  const from = index + ticks;
+
+  if (from >= (unclosedTicks.get(ticks) ?? text.length + 1)) {
+    return 0;
+  }
+
+  // Only a run of exactly as many backticks closes the span.
+  const closing = new RegExp(`(?<!\`)\`{${ticks}}(?!\`)`, 'g');
+  closing.lastIndex = from;
+  const match = closing.exec(text);
+
+  if (!match) {
+    unclosedTicks.set(ticks, from);
+    return 0;
+  }
+
+  return match.index + ticks - index;
+};
+
+/**
+ * Finds where the closing delimiter of an emphasis run starts, skipping escapes and code spans.
+ * Runs of the delimiter character are read whole, so `*a **b***` closes on the last `*`.
+ */
+const findCloser = (scan: InlineScan, from: number, delimiter: string) => {
+  const { text, unclosedDelimiters } = scan;
+
+  if (from >= (unclosedDelimiters.get(delimiter) ?? text.length + 1)) {
+    return -1;
+  }
+
+  let index = from;
+
+  while (index < text.length) {
+    if (text[index] === '\\') {
+      index += 2;
+      continue;
+    }
+
+    if (text[index] === '`') {
+      index += codeSpanLength(scan, index) || runLength(text, index);
+      continue;
+    }
+
+    if (text[index] !== delimiter[0]) {
+      index += 1;
+      continue;
+    }
+
+    const run = runLength(text, index);
+    const closes =
+      index > from &&
+      !/\s/.test(text[index - 1]) &&
+      run >= delimiter.length &&
+      (delimiter.length > 1 || run !== 2) &&
+      (delimiter[0] !== '_' || !WORD_CHAR.test(text[index + run] ?? ''));
+
+    if (closes) {
+      return index + run - delimiter.length;
+    }
+
+    index += run;
+  }
+
+  unclosedDelimiters.set(delimiter, from);
+  return -1;
+};
+
+/** Pairs every `[` with the `]` that closes it, honouring nesting, escapes and code spans. */
+const matchBrackets = (scan: InlineScan) => {
+  const { text } = scan;
+  const ends = new Map<number, number>();
+  const opened: number[] = [];
+
+  for (let cursor = 0; cursor < text.length; cursor += 1) {
+    const char = text[cursor];
+
+    if (char === '\\') {
+      cursor += 1;
+    } else if (char === '`') {
+      cursor += (codeSpanLength(scan, cursor) || runLength(text, cursor)) - 1;
+    } else if (char === '[') {
+      opened.push(cursor);
+    } else if (char === ']') {
+      const open = opened.pop();
+
+      if (open !== undefined) {
+        ends.set(open, cursor);
+      }
+    }
+  }
+
+  return ends;
+};
+
+/** The `]` that closes the bracket opened at `index`, or -1. */
+const findBracketEnd = (scan: InlineScan, index: number) => {
+  scan.bracketEnds ??= matchBrackets(scan);
+  return scan.bracketEnds.get(index) ?? -1;
+};
+
+const EMPHASIS: Array<{ delimiter: string; type: 'strong' | 'emphasis' | 'delete' }> = [
+  { delimiter: '**', type: 'strong' },
+  { delimiter: '__', type: 'strong' },
+  { delimiter: '~~', type: 'delete' },
+  { delimiter: '*', type: 'emphasis' },
+  { delimiter: '_', type: 'emphasis' }
+];
+
+/**
+ * Reads inline Markdown. Single line breaks are kept as breaks, because chat messages are written
+ * line by line rather than reflowed like documents.
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const scan: InlineScan = { text, unclosedTicks: new Map(), unclosedDelimiters: new Map() };
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let index = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && ESCAPABLE.test(text[index + 1] ?? '')) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '\n' || (char === '\\' && text[index + 1] === '\n')) {
+      buffer = buffer.replace(/ +$/, '');
+      push({ type: 'break' });
+      index += char === '\n' ? 1 : 2;
+
+      while (text[index] === ' ') {
+        index += 1;
+      }
+
+      continue;
+    }
+
+    if (char === '`') {
+      const length = codeSpanLength(scan, index);
+      const ticks = runLength(text, index);
+
+      if (length > 0) {
+        const code = text.slice(index + ticks, index + length - ticks).replace(/\n/g, ' ');
+        push({ type: 'code', text: /^ .*[^ ].* $/.test(code) ? code.slice(1, -1) : code });
+        index += length;
+        continue;
+      }
+
+      buffer += text.slice(index, index + ticks);
+      index += ticks;
+      continue;
+    }
+
+    if (char === '[' || (char === '!' && text[index + 1] === '[')) {
+      const open = char === '!' ? index + 1 : index;
+      const close = findBracketEnd(scan, open);
+      const target = close === -1 ? null : execAt(LINK_TARGET, text, close + 1);
+      const href = target ? safeHref(target[1].replace(/^<|>$/g, '')) : null;
+
+      if (target && href) {
+        const label = text.slice(open + 1, close);
+        const title = target[2] ?? target[3];
+        // Images are shown as links so a payload cannot make the browser fetch arbitrary URLs.
+        push({
+          type: 'link',
+          href,
+          ...(title ? { title } : {}),
+          children: char === '!' ? [{ type: 'text', text: label || href }] : parseInline(label)
+        });
+        index = close + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    const autolink = char === '<' ? execAt(AUTOLINK, text, index) : null;
+
+    if (autolink) {
+      push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+      index += autolink[0].length;
+      continue;
+    }
+
+    const bareUrl =
+      (char === 'h' || char === 'H') && !WORD_CHAR.test(text[index - 1] ?? '')
+        ? execAt(BARE_URL, text, index)
+        : null;
+
+    if (bareUrl) {
+      const url = trimBareUrl(bareUrl[0]);
+      push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+      index += url.length;
+      continue;
+    }
+
+    const emphasis = EMPHASIS.find(({ delimiter }) => text.startsWith(delimiter, index));
+
+    if (emphasis) {
+      const { delimiter, type } = emphasis;
+      const start = index + delimiter.length;
+      const opens =
+        text[start] !== undefined &&
+        !/\s/.test(text[start]) &&
+        (delimiter[0] !== '_' || !WORD_CHAR.test(text[index - 1] ?? ''));
+      const close = opens ? findCloser(scan, start, delimiter) : -1;
+
+      if (close !== -1) {
+        push({ type, children: parseInline(text.slice(start, close)) });
+        index = close + delimiter.length;
+        continue;
+      }
+
+      buffer += delimiter;
+      index += delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    index += 1;
+  }
+
+  flush();
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] =>
+  parseBlocks(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
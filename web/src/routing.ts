@@ -0,0 +1,141 @@
+import type { ChatDateField, ChatDateRange } from './types';
+
+export type RouteSearchMode = 'session' | 'content';
+
+/** The part of the app state that is mirrored into the URL, so a view can be shared or reloaded. */
+export interface AppRoute {
+  /** Only set while the server offers more than one chat source. */
+  source: string | null;
+  sessionId: string | null;
+  messageId: string | null;
+  search: string;
+  searchMode: RouteSearchMode;
+  classifications: string[];
+  excludedClassifications: string[];
+  types: string[];
+  tags: string[];
+  dateRange: ChatDateRange | null;
+}
+
+const SESSION_PATH = /^\/sessions\/([^/]+)\/?$/;
+const DATE_FIELDS: ChatDateField[] = ['lastMessageAt', 'firstMessageAt'];
+
+export const EMPTY_ROUTE: AppRoute = {
+  source: null,
+  sessionId: null,
+  messageId: null,
+  search: '',
+  searchMode: 'session',
+  classifications: [],
+  excludedClassifications: [],
+  types: [],
+  tags: [],
+  dateRange: null
+};
+
+const decodeSegment = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+};
+
+const readList = (params: URLSearchParams, key: string) => [
+  ...new Set(
+    params
+      .getAll(key)
+      .map((value) => value.trim())
+      .filter(Boolean)
+  )
+];
+
+const readDate = (params: URLSearchParams, key: string) => {
+  const value = params.get(key);
+  return value && !Number.isNaN(Date.parse(value)) ? value : null;
+};
+
+const readDateRange = (params: URLSearchParams): ChatDateRange | null => {
+  const from = readDate(params, 'from');
+  const to = readDate(params, 'to');
+
+  if (!from && !to) {
+    return null;
+  }
+
+  const field = params.get('dateField') as ChatDateField | null;
+  return { field: field && DATE_FIELDS.includes(field) ? field : 'lastMessageAt', from, to };
+};
+
+/**
+ * Reads a route from `/sessions/:sessionId?source=…&search=…&classification=…&message=…`.
+ * Unknown or malformed parts are dropped rather than rejected, so an edited link still opens
+ * something.
+ */
+export const parseRoute = (pathname: string, search: string): AppRoute => {
+  const params = new URLSearchParams(search);
+  const sessionMatch = SESSION_PATH.exec(pathname);
+  const sessionId = sessionMatch ? decodeSegment(sessionMatch[1]) : null;
+
+  return {
+    source: params.get('source')?.trim() || null,
+    sessionId: sessionId || null,
+    messageId: sessionId ? params.get('message') || null : null,
+    search: params.get('search')?.trim() ?? '',
+    searchMode: params.get('mode') === 'content' ? 'content' : 'session',
+    classifications: readList(params, 'classification'),
+    excludedClassifications: readList(params, 'excludeClassification'),
+    types: readList(params, 'type'),
+    tags: readList(params, 'tag'),
+    dateRange: readDateRange(params)
+  };
+};
+
+export const readLocationRoute = (): AppRoute =>
+  typeof window === 'undefined'
+    ? EMPTY_ROUTE
+    : parseRoute(window.location.pathname, window.location.search);
+
+export const buildRouteUrl = (route: AppRoute) => {
+  const params = new URLSearchParams();
+  const appendAll = (key: string, values: string[]) =>
+    values.forEach((value) => params.append(key, value));
+
+  if (route.source) {
+    params.set('source', route.source);
+  }
+
+  if (route.search) {
+    params.set('search', route.search);
+  }
+
+  if (route.searchMode === 'content') {
+    params.set('mode', 'content');
+  }
+
+  appendAll('classification', route.classifications);
+  appendAll('excludeClassification', route.excludedClassifications);
+  appendAll('type', route.types);
+  appendAll('tag', route.tags);
+
+  if (route.dateRange) {
+    params.set('dateField', route.dateRange.field);
+
+    if (route.dateRange.from) {
+      params.set('from', route.dateRange.from);
+    }
+
+    if (route.dateRange.to) {
+      params.set('to', route.dateRange.to);
+    }
+  }
+
+  if (route.sessionId && route.messageId) {
+    params.set('message', route.messageId);
+  }
+
+  const pathname = route.sessionId ? `/sessions/${encodeURIComponent(route.sessionId)}` : '/';
+  const query = params.toString();
+
+  return query ? `${pathname}?${query}` : pathname;
+};
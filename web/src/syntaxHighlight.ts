@@ -0,0 +1,159 @@
+export type CodeTokenKind = 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'plain';
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+interface Grammar {
+  comments: RegExp[];
+  strings: RegExp[];
+  /** Space-separated words. */
+  keywords: string;
+  literals: string;
+  /** SQL keywords are matched in any case. */
+  caseInsensitive?: boolean;
+}
+
+const C_COMMENTS = [/\/\/[^\n]*/y, /\/\*[\s\S]*?(?:\*\/|$)/y];
+const HASH_COMMENTS = [/#[^\n]*/y];
+const QUOTED_STRINGS = [/"(?:\\[\s\S]|[^"\\\n])*"?/y, /'(?:\\[\s\S]|[^'\\\n])*'?/y];
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: {
+    comments: C_COMMENTS,
+    strings: [...QUOTED_STRINGS, /`(?:\\[\s\S]|[^`\\])*`?/y],
+    keywords:
+      'as async await break case catch class const continue default delete do else enum export extends finally for from function if implements import in instanceof interface let new of private protected public readonly return static switch throw try type typeof var void while yield',
+    literals: 'true false null undefined this NaN Infinity'
+  },
+  json: {
+    comments: [],
+    strings: [QUOTED_STRINGS[0]],
+    keywords: '',
+    literals: 'true false null'
+  },
+  python: {
+    comments: HASH_COMMENTS,
+    strings: [
+      /[rbfuRBFU]{0,2}"""[\s\S]*?(?:"""|$)/y,
+      /[rbfuRBFU]{0,2}'''[\s\S]*?(?:'''|$)/y,
+      ...QUOTED_STRINGS
+    ],
+    keywords:
+      'and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield',
+    literals: 'True False None self'
+  },
+  shell: {
+    comments: HASH_COMMENTS,
+    strings: QUOTED_STRINGS,
+    keywords:
+      'case do done elif else esac export fi for function if in local return then until while',
+    literals: 'true false'
+  },
+  sql: {
+    comments: [/--[^\n]*/y, /\/\*[\s\S]*?(?:\*\/|$)/y],
+    strings: [/'(?:''|[^'])*'?/y, /"(?:""|[^"])*"?/y],
+    keywords:
+      'select from where and or not in is like ilike between join left right inner outer full cross on using group by order having limit offset union all distinct as insert into values update set delete create alter drop table index view with case when then else end asc desc returning exists',
+    literals: 'null true false',
+    caseInsensitive: true
+  }
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  javascript: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  json: 'json',
+  jsonc: 'json',
+  py: 'python',
+  python: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  shell: 'shell',
+  console: 'shell',
+  sql: 'sql',
+  postgres: 'sql',
+  postgresql: 'sql'
+};
+
+const NUMBER = /(?:0[xX][\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)(?![\w$])/y;
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+const matchAt = (pattern: RegExp, code: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(code)?.[0] || null;
+};
+
+/**
+ * Splits code into tokens for the fenced block's language. Unknown languages come back as one
+ * plain token, so highlighting is a best effort and never changes the text.
+ */
+export const highlightCode = (code: string, language = ''): CodeToken[] => {
+  const grammar = GRAMMARS[LANGUAGE_ALIASES[language.toLowerCase()] ?? ''];
+
+  if (!grammar) {
+    return [{ kind: 'plain', text: code }];
+  }
+
+  const keywords = new Set(grammar.keywords.split(' '));
+  const literals = new Set(grammar.literals.split(' '));
+  const tokens: CodeToken[] = [];
+  let index = 0;
+
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+
+    index += text.length;
+  };
+
+  while (index < code.length) {
+    const comment = grammar.comments.map((pattern) => matchAt(pattern, code, index)).find(Boolean);
+    const string = comment
+      ? null
+      : grammar.strings.map((pattern) => matchAt(pattern, code, index)).find(Boolean);
+
+    if (comment) {
+      push('comment', comment);
+      continue;
+    }
+
+    if (string) {
+      push('string', string);
+      continue;
+    }
+
+    const previous = code[index - 1] ?? '';
+    const number = /[\w$]/.test(previous) ? null : matchAt(NUMBER, code, index);
+
+    if (number) {
+      push('number', number);
+      continue;
+    }
+
+    const word = matchAt(WORD, code, index);
+
+    if (word) {
+      const name = grammar.caseInsensitive ? word.toLowerCase() : word;
+      push(keywords.has(name) ? 'keyword' : literals.has(name) ? 'literal' : 'plain', word);
+      continue;
+    }
+
+    push('plain', code[index]);
+  }
+
+  return tokens;
+};
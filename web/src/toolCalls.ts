@@ -0,0 +1,34 @@
+import type { ChatMessage, MessageToolResult } from './types';
+
+export interface ToolResultRef {
+  message: ChatMessage;
+  result: MessageToolResult;
+}
+
+export interface ToolCallIndex {
+  /** Tool result, and the message carrying it, keyed by the call id it answers. */
+  resultsByCallId: Map<string, ToolResultRef>;
+  /** Message that issued a tool call, keyed by the call id. */
+  callersByCallId: Map<string, ChatMessage>;
+}
+
+export const buildToolCallIndex = (messages: ChatMessage[]): ToolCallIndex => {
+  const resultsByCallId = new Map<string, ToolResultRef>();
+  const callersByCallId = new Map<string, ChatMessage>();
+
+  for (const message of messages) {
+    for (const result of message.view.toolResults) {
+      if (result.callId) {
+        resultsByCallId.set(result.callId, { message, result });
+      }
+    }
+
+    for (const call of message.view.toolCalls) {
+      if (call.id) {
+        callersByCallId.set(call.id, message);
+      }
+    }
+  }
+
+  return { resultsByCallId, callersByCallId };
+};
@@ -1,3 +1,34 @@
+export type UserRole = 'viewer' | 'reviewer' | 'admin';
+
+export interface AuthUser {
+  email: string;
+  name?: string;
+  picture?: string;
+  role: UserRole;
+}
+
+/** The signed-in user as returned by `/api/me`. */
+export interface CurrentUser extends AuthUser {
+  /** Whether the user may pass `unredacted=true` to read message data without PII redaction. */
+  canViewUnredacted: boolean;
+}
+
+/** A configured chat data source as listed by `/api/sources`. */
+export interface ChatSourceSummary {
+  id: string;
+  label: string;
+  /** Fixture sources are read-only: notes, tags, labels and live updates need Postgres. */
+  kind: 'postgres' | 'fixture';
+}
+
+export type ClassificationKind = 'channel' | 'segment';
+
+export interface SessionClassification {
+  id: string;
+  label: string;
+  kind: ClassificationKind;
+}
+
 export type ChatAuthorType = 'ai' | 'human' | 'system' | string;
 
 export interface ChatSummary {
@@ -6,8 +37,8 @@ export interface ChatSummary {
   lastMessageType: ChatAuthorType | null;
   lastMessageAt: string | null;
   messageCount: number;
-  isSales: boolean;
-  isWhatsapp: boolean;
+  /** Ids of the configured session classifications this session matches. */
+  classifications: string[];
 }
 
 export interface ChatMessagePayload {
@@ -20,19 +51,83 @@ export interface ChatMessagePayload {
   [key: string]: unknown;
 }
 
+export type PayloadFormat = 'langchain' | 'openai' | 'anthropic' | 'unknown';
+
+export interface MessageTextPart {
+  kind: 'text' | 'thinking';
+  text: string;
+}
+
+export interface MessageToolCall {
+  id: string | null;
+  name: string;
+  args: unknown;
+  invalid: boolean;
+  error?: string;
+}
+
+export interface MessageToolResult {
+  callId: string | null;
+  name?: string;
+  content: string;
+  isError: boolean;
+}
+
+export interface MessageAttachment {
+  kind: 'image' | 'audio' | 'file';
+  /** Index of the part in the payload's `content` array. */
+  part: number;
+  mimeType?: string;
+  name?: string;
+  /** Whether the payload embeds the data; the server serves it from the message's media route. */
+  inline: boolean;
+  /** Decoded size in bytes of inline data. */
+  size?: number;
+  url?: string;
+}
+
+/** The server's format-independent reading of `payload`, which is kept for the raw JSON view. */
+export interface MessageView {
+  format: PayloadFormat;
+  role: ChatAuthorType;
+  name?: string;
+  parts: MessageTextPart[];
+  toolCalls: MessageToolCall[];
+  toolResults: MessageToolResult[];
+  attachments: MessageAttachment[];
+}
+
 export interface ChatMessage {
   id: string;
   sessionId: string;
   createdAt: string;
   payload: ChatMessagePayload;
+  view: MessageView;
+}
+
+export interface ChatMessagePage {
+  items: ChatMessage[];
+  totalCount: number;
+  hasOlder: boolean;
+  hasNewer: boolean;
+  olderCursor?: string;
+  newerCursor?: string;
 }
 
 export interface ChatListItem {
   sessionId: string;
   lastMessageAt: string | null;
   messageCount: number;
-  isSales: boolean;
-  isWhatsapp: boolean;
+  classifications: string[];
+  tags: string[];
+}
+
+export type ChatDateField = 'lastMessageAt' | 'firstMessageAt';
+
+export interface ChatDateRange {
+  field: ChatDateField;
+  from: string | null;
+  to: string | null;
 }
 
 export interface ChatListCursor {
@@ -44,3 +139,125 @@ export interface ChatListResponse {
   items: ChatListItem[];
   nextCursor?: ChatListCursor;
 }
+
+export interface ChatSearchHighlight {
+  start: number;
+  length: number;
+}
+
+export interface ChatSearchMatch {
+  messageId: string;
+  messageType: ChatAuthorType | null;
+  createdAt: string;
+  snippet: string;
+  highlights: ChatSearchHighlight[];
+}
+
+export interface ChatSearchResult {
+  sessionId: string;
+  matchCount: number;
+  lastMatchAt: string | null;
+  classifications: string[];
+  matches: ChatSearchMatch[];
+}
+
+export interface TokenUsageTotals {
+  messageCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number | null;
+}
+
+export interface ModelUsage extends TokenUsageTotals {
+  model: string;
+}
+
+export interface SessionUsage {
+  totals: TokenUsageTotals;
+  byModel: ModelUsage[];
+  unpricedModels: string[];
+}
+
+export interface UsageBucket extends ModelUsage {
+  day: string;
+}
+
+export type ActivityBucketSize = 'day' | 'week';
+
+export interface ActivityTotals {
+  sessionCount: number;
+  messageCount: number;
+  /** Sessions per classification id. */
+  classificationSessionCounts: Record<string, number>;
+  avgMessagesPerSession: number;
+}
+
+export interface ActivityBucket extends ActivityTotals {
+  bucket: string;
+}
+
+export interface ActivityStats {
+  from: string;
+  to: string;
+  bucket: ActivityBucketSize;
+  totals: ActivityTotals;
+  series: ActivityBucket[];
+}
+
+export interface SessionNote {
+  id: string;
+  sessionId: string;
+  body: string;
+  authorEmail: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionTag {
+  tag: string;
+  authorEmail: string;
+  createdAt: string;
+}
+
+export interface TagCount {
+  tag: string;
+  sessionCount: number;
+}
+
+export interface FacetValueCount {
+  value: string;
+  sessionCount: number;
+}
+
+export interface ClassificationFacet extends SessionClassification {
+  matchingCount: number;
+  otherCount: number;
+}
+
+export interface ChatFacets {
+  sessionCount: number;
+  types: FacetValueCount[];
+  classifications: ClassificationFacet[];
+  tags: TagCount[];
+}
+
+export type MessageRating = 'good' | 'bad';
+
+export interface MessageLabel {
+  id: string;
+  messageId: string;
+  sessionId: string;
+  rating: MessageRating | null;
+  categories: string[];
+  comment: string | null;
+  reviewerEmail: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MessageLabelInput {
+  rating: MessageRating | null;
+  categories: string[];
+  comment?: string | null;
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { streamBulkExport, UnauthorizedError } from './api';
+import type { BulkExportGranularity, BulkExportProgress, FacetFilterOptions } from './api';
+import { openSaveFile, triggerDownload } from './download';
+import type { ChatDateRange } from './types';
+
+const NDJSON_FILE_TYPE = { description: 'NDJSON', accept: { 'application/x-ndjson': ['.ndjson'] } };
+
+interface BulkExportOptions {
+  authToken: string | null;
+  search: string;
+  facetFilters: FacetFilterOptions;
+  tags: string[];
+  dateRange: ChatDateRange | null;
+  onUnauthorized: () => void;
+}
+
+/**
+ * Downloads every chat matching the list's search and filters as NDJSON. Where the browser can
+ * save to a file the export is written there as it arrives; elsewhere it is buffered in memory up
+ * to `MAX_BUFFERED_EXPORT_BYTES`. `progress` is set while an export runs; signing out cancels it.
+ */
+export const useBulkExport = ({
+  authToken,
+  search,
+  facetFilters,
+  tags,
+  dateRange,
+  onUnauthorized
+}: BulkExportOptions) => {
+  const [granularity, setGranularity] = useState<BulkExportGranularity>('message');
+  const [progress, setProgress] = useState<BulkExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!authToken) {
+      controllerRef.current?.abort();
+    }
+  }, [authToken]);
+
+  const startExport = useCallback(async () => {
+    if (controllerRef.current) {
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    const filename = `chats-${new Date().toISOString().slice(0, 10)}.ndjson`;
+
+    try {
+      // Asked before anything else is awaited, while the click still allows opening the picker.
+      const file = await openSaveFile({ suggestedName: filename, types: [NDJSON_FILE_TYPE] });
+      setProgress({ lines: 0, total: null, bytes: 0 });
+      const blob = await streamBulkExport({
+        granularity,
+        ...(search ? { search } : {}),
+        ...facetFilters,
+        ...(tags.length > 0 ? { tags } : {}),
+        dateRange,
+        signal: controller.signal,
+        onProgress: setProgress,
+        ...(file ? { destination: file } : {})
+      });
+
+      if (blob) {
+        triggerDownload(blob, filename);
+      }
+    } catch (exportError) {
+      if (exportError instanceof UnauthorizedError) {
+        onUnauthorized();
+        return;
+      }
+
+      // Dismissing the file picker rejects with an AbortError, which is not a failure either.
+      const dismissed = exportError instanceof DOMException && exportError.name === 'AbortError';
+
+      if (!controller.signal.aborted && !dismissed) {
+        console.error('Failed to export chats', exportError);
+        setError(exportError instanceof Error ? exportError.message : 'Unknown error');
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  }, [dateRange, facetFilters, granularity, onUnauthorized, search, tags]);
+
+  const cancelExport = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { granularity, setGranularity, progress, error, startExport, cancelExport };
+};
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { LiveUpdatesDisabledError, streamLiveUpdates, UnauthorizedError } from './api';
+import type { FacetFilterOptions, LiveSourceMode } from './api';
+import type { ChatDateRange, ChatListItem, ChatMessage } from './types';
+
+const LIVE_RETRY_MIN_MS = 2000;
+const LIVE_RETRY_MAX_MS = 60_000;
+
+interface LiveUpdatesOptions {
+  enabled: boolean;
+  /** Reconnects when the chat source changes. */
+  chatSourceId: string | null;
+  sessionId: string | null;
+  unredacted: boolean;
+  /** Also follow sessions matching the list's search and filters. */
+  list: boolean;
+  search: string;
+  facetFilters: FacetFilterOptions;
+  tags: string[];
+  dateRange: ChatDateRange | null;
+  onSession: (session: ChatListItem) => void;
+  onMessage: (message: ChatMessage) => void;
+  onUnauthorized: () => void;
+}
+
+/**
+ * Follows the live feed while `enabled`, reconnecting with backoff after the stream drops.
+ * Returns how the source delivers updates, or `null` while disconnected.
+ */
+export const useLiveUpdates = ({
+  enabled,
+  chatSourceId,
+  sessionId,
+  unredacted,
+  list,
+  search,
+  facetFilters,
+  tags,
+  dateRange,
+  onSession,
+  onMessage,
+  onUnauthorized
+}: LiveUpdatesOptions) => {
+  const [liveMode, setLiveMode] = useState<LiveSourceMode | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLiveMode(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    let retryDelay = LIVE_RETRY_MIN_MS;
+    let retryTimer: number | undefined;
+
+    const connect = async () => {
+      try {
+        await streamLiveUpdates({
+          sessionId,
+          unredacted,
+          list,
+          ...(list && search ? { search } : {}),
+          ...facetFilters,
+          ...(tags.length > 0 ? { tags } : {}),
+          dateRange,
+          signal: controller.signal,
+          onEvent: (event) => {
+            if (event.type === 'ready') {
+              retryDelay = LIVE_RETRY_MIN_MS;
+              setLiveMode(event.mode);
+            } else if (event.type === 'session') {
+              onSession(event.session);
+            } else {
+              onMessage(event.message);
+            }
+          }
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        if (error instanceof UnauthorizedError) {
+          onUnauthorized();
+          return;
+        }
+
+        if (error instanceof LiveUpdatesDisabledError) {
+          setLiveMode(null);
+          return;
+        }
+
+        console.warn('Live updates disconnected', error);
+      }
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      setLiveMode(null);
+      retryTimer = window.setTimeout(() => void connect(), retryDelay);
+      retryDelay = Math.min(retryDelay * 2, LIVE_RETRY_MAX_MS);
+    };
+
+    void connect();
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(retryTimer);
+    };
+  }, [
+    chatSourceId,
+    dateRange,
+    enabled,
+    facetFilters,
+    list,
+    onMessage,
+    onSession,
+    onUnauthorized,
+    search,
+    sessionId,
+    tags,
+    unredacted
+  ]);
+
+  return liveMode;
+};
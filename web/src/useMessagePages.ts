@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { fetchChatMessages, UnauthorizedError } from './api';
+import type { ChatMessage, ChatMessagePage } from './types';
+
+const MESSAGE_PAGE_SIZE = 100;
+const LIVE_SCROLL_STICK_PX = 80;
+
+type MessagePageInfo = Omit<ChatMessagePage, 'items'>;
+
+const toPageInfo = ({ items: _items, ...pageInfo }: ChatMessagePage): MessagePageInfo => pageInfo;
+
+interface MessagePagesOptions {
+  authToken: string | null;
+  sessionId: string | null;
+  /** Message to open the first page around, e.g. a search hit or a linked message. */
+  focusedMessageId: string | null;
+  unredacted: boolean;
+  onUnauthorized: () => void;
+}
+
+/**
+ * Loads a session's messages a page at a time. Older and newer pages load when their sentinel
+ * scrolls into view, keeping the viewport on the same message while older ones are prepended.
+ */
+export const useMessagePages = ({
+  authToken,
+  sessionId,
+  focusedMessageId,
+  unredacted,
+  onUnauthorized
+}: MessagePagesOptions) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messagePage, setMessagePage] = useState<MessagePageInfo | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [loadingNewerMessages, setLoadingNewerMessages] = useState(false);
+  const [messagesError, setMessagesError] = useState<string | null>(null);
+  const messagesContainerRef = useRef<HTMLDivElement | null>(null);
+  const olderSentinelRef = useRef<HTMLDivElement | null>(null);
+  const newerSentinelRef = useRef<HTMLDivElement | null>(null);
+  const scrollOffsetFromBottomRef = useRef<number | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const focusedMessageIdRef = useRef<string | null>(null);
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const messagePageRef = useRef<MessagePageInfo | null>(null);
+
+  sessionIdRef.current = sessionId;
+  focusedMessageIdRef.current = focusedMessageId;
+  messagesRef.current = messages;
+  messagePageRef.current = messagePage;
+
+  useEffect(() => {
+    if (!sessionId || !authToken) {
+      setMessages([]);
+      setMessagePage(null);
+      setMessagesError(null);
+      return;
+    }
+
+    let isCancelled = false;
+
+    const loadMessages = async () => {
+      setLoadingMessages(true);
+      setMessagesError(null);
+
+      try {
+        // Open the page around a focused search hit so it is rendered without paging first.
+        const around = focusedMessageIdRef.current;
+        const page = await fetchChatMessages(sessionId, {
+          limit: MESSAGE_PAGE_SIZE,
+          ...(around ? { around } : {}),
+          unredacted
+        });
+        if (!isCancelled) {
+          setMessages(page.items);
+          setMessagePage(toPageInfo(page));
+        }
+      } catch (error) {
+        if (error instanceof UnauthorizedError) {
+          onUnauthorized();
+          return;
+        }
+
+        console.error('Failed to load chat messages', error);
+        if (!isCancelled) {
+          setMessages([]);
+          setMessagePage(null);
+          setMessagesError(error instanceof Error ? error.message : 'Unknown error');
+        }
+      } finally {
+        if (!isCancelled) {
+          setLoadingMessages(false);
+        }
+      }
+    };
+
+    void loadMessages();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [sessionId, authToken, onUnauthorized, reloadKey, unredacted]);
+
+  const loadOlderMessages = useCallback(async () => {
+    const cursor = messagePage?.olderCursor;
+
+    if (!sessionId || !cursor || !messagePage?.hasOlder || loadingOlderMessages) {
+      return;
+    }
+
+    const container = messagesContainerRef.current;
+    setLoadingOlderMessages(true);
+
+    try {
+      const page = await fetchChatMessages(sessionId, {
+        before: cursor,
+        limit: MESSAGE_PAGE_SIZE,
+        unredacted
+      });
+
+      if (sessionIdRef.current !== sessionId) {
+        return;
+      }
+
+      // Keep the viewport on the same message once older ones are prepended above it.
+      scrollOffsetFromBottomRef.current = container
+        ? container.scrollHeight - container.scrollTop
+        : null;
+      setMessages((prev) => [...page.items, ...prev]);
+      setMessagePage((prev) =>
+        prev
+          ? {
+              ...prev,
+              totalCount: page.totalCount,
+              hasOlder: page.hasOlder,
+              olderCursor: page.olderCursor ?? prev.olderCursor
+            }
+          : prev
+      );
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        onUnauthorized();
+        return;
+      }
+
+      console.error('Failed to load older messages', error);
+      setMessagesError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  }, [loadingOlderMessages, messagePage, onUnauthorized, sessionId, unredacted]);
+
+  const loadNewerMessages = useCallback(async () => {
+    const cursor = messagePage?.newerCursor;
+
+    if (!sessionId || !cursor || !messagePage?.hasNewer || loadingNewerMessages) {
+      return;
+    }
+
+    setLoadingNewerMessages(true);
+
+    try {
+      const page = await fetchChatMessages(sessionId, {
+        after: cursor,
+        limit: MESSAGE_PAGE_SIZE,
+        unredacted
+      });
+
+      if (sessionIdRef.current !== sessionId) {
+        return;
+      }
+
+      setMessages((prev) => [...prev, ...page.items]);
+      setMessagePage((prev) =>
+        prev
+          ? {
+              ...prev,
+              totalCount: page.totalCount,
+              hasNewer: page.hasNewer,
+              newerCursor: page.newerCursor ?? prev.newerCursor
+            }
+          : prev
+      );
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        onUnauthorized();
+        return;
+      }
+
+      console.error('Failed to load newer messages', error);
+      setMessagesError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoadingNewerMessages(false);
+    }
+  }, [loadingNewerMessages, messagePage, onUnauthorized, sessionId, unredacted]);
+
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const offset = scrollOffsetFromBottomRef.current;
+
+    if (container && offset !== null) {
+      container.scrollTop = container.scrollHeight - offset;
+      scrollOffsetFromBottomRef.current = null;
+    }
+  }, [messages]);
+
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+
+    if (!container || loadingMessages) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (!entry.isIntersecting) {
+            continue;
+          }
+
+          if (entry.target === olderSentinelRef.current) {
+            void loadOlderMessages();
+          } else if (entry.target === newerSentinelRef.current) {
+            void loadNewerMessages();
+          }
+        }
+      },
+      { root: container, rootMargin: '200px 0px' }
+    );
+
+    if (olderSentinelRef.current) {
+      observer.observe(olderSentinelRef.current);
+    }
+
+    if (newerSentinelRef.current) {
+      observer.observe(newerSentinelRef.current);
+    }
+
+    return () => observer.disconnect();
+  }, [loadNewerMessages, loadOlderMessages, loadingMessages]);
+
+  /** Reloads the first page, around the focused message when there is one. */
+  const reloadMessages = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  const isMessageLoaded = useCallback(
+    (messageId: string) => messagesRef.current.some((message) => message.id === messageId),
+    []
+  );
+
+  /** Appends a message from the live feed, following it when the reader is at the bottom. */
+  const appendLiveMessage = useCallback((message: ChatMessage) => {
+    const page = messagePageRef.current;
+
+    // While a later window is still unloaded the newer sentinel picks these messages up instead.
+    if (
+      message.sessionId !== sessionIdRef.current ||
+      !page ||
+      page.hasNewer ||
+      messagesRef.current.some((item) => item.id === message.id)
+    ) {
+      return;
+    }
+
+    const container = messagesContainerRef.current;
+
+    if (
+      container &&
+      container.scrollHeight - container.scrollTop - container.clientHeight < LIVE_SCROLL_STICK_PX
+    ) {
+      scrollOffsetFromBottomRef.current = 0;
+    }
+
+    setMessages((prev) => [...prev, message]);
+    setMessagePage((prev) => (prev ? { ...prev, totalCount: prev.totalCount + 1 } : prev));
+  }, []);
+
+  return {
+    messages,
+    messagePage,
+    loadingMessages,
+    loadingOlderMessages,
+    loadingNewerMessages,
+    messagesError,
+    setMessagesError,
+    reloadMessages,
+    isMessageLoaded,
+    appendLiveMessage,
+    messagesContainerRef,
+    olderSentinelRef,
+    newerSentinelRef
+  };
+};